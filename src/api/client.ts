@@ -23,6 +23,14 @@ const RETRY_CONFIG: RetryConfig = {
   retryableStatus: [429, 500, 502, 503, 504],
 };
 
+/**
+ * POST 等非幂等请求只在 429 时重试：此时请求未被处理，重发不会产生重复数据。
+ * 5xx、超时和网络错误时服务端可能已经写入，直接抛错交由调用方确认。
+ */
+function isRetrySafe(method: string, status?: number): boolean {
+  return method === 'GET' || status === 429;
+}
+
 /**
  * 解析 Retry-After 头（支持秒数和 HTTP-date 两种格式）
  * 返回等待毫秒数，无法解析时返回 null
@@ -192,7 +200,8 @@ export class PingCodeApiClient {
         const duration = Date.now() - startTime;
 
         if (!response.ok) {
-          const shouldRetry = RETRY_CONFIG.retryableStatus.includes(response.status);
+          const shouldRetry = RETRY_CONFIG.retryableStatus.includes(response.status)
+            && isRetrySafe(method, response.status);
 
           if (shouldRetry && attempt < RETRY_CONFIG.maxRetries) {
             // 429 优先使用 Retry-After 头指定的等待时间（不加 jitter）
@@ -244,7 +253,8 @@ export class PingCodeApiClient {
           );
         }
 
-        const data = await response.json() as T;
+        // 204 No Content（如 DELETE）没有响应体
+        const data = (response.status === 204 ? undefined : await response.json()) as T;
 
         logger.debug({
           endpoint,
@@ -275,7 +285,7 @@ export class PingCodeApiClient {
             `Request to ${endpoint} timed out after ${config.requestTimeout}ms`
           );
 
-          if (attempt < RETRY_CONFIG.maxRetries) {
+          if (attempt < RETRY_CONFIG.maxRetries && isRetrySafe(method)) {
             metrics.recordRetry();
             logger.warn({
               endpoint,
@@ -292,6 +302,11 @@ export class PingCodeApiClient {
 
         lastError = error as Error;
 
+        if (!isRetrySafe(method)) {
+          metrics.recordError(`api:${endpoint}`, Date.now() - startTime);
+          throw lastError;
+        }
+
         if (attempt < RETRY_CONFIG.maxRetries) {
           const delay = computeDelay(attempt);
           metrics.recordRetry();
@@ -0,0 +1,35 @@
+import { apiClient, PingCodeApiError } from '../client.js';
+import { cache, CacheKeys } from '../../cache/index.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import type { PingCodeIdea } from '../types.js';
+
+/**
+ * 获取想法详情
+ * GET /v1/ship/ideas/{idea_id}
+ *
+ * 需要 Ship（产品管理）模块权限；不存在时返回 null。缓存时长与工作项一致。
+ */
+export async function getIdea(ideaId: string, signal?: AbortSignal): Promise<PingCodeIdea | null> {
+  const cached = await cache.get<PingCodeIdea>(CacheKeys.idea(ideaId));
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const idea = await apiClient.request<PingCodeIdea>(
+      `/v1/ship/ideas/${encodeURIComponent(ideaId)}`,
+      { signal }
+    );
+
+    await cache.set(CacheKeys.idea(ideaId), idea, config.cache.ttlWorkItems);
+
+    return idea;
+  } catch (error) {
+    if (error instanceof PingCodeApiError && error.status === 404) {
+      logger.debug({ ideaId }, 'Idea not found');
+      return null;
+    }
+    throw error;
+  }
+}
@@ -1,3 +1,6 @@
 export * from './users.js';
 export * from './workloads.js';
 export * from './workItems.js';
+export * from './projects.js';
+export * from './ideas.js';
+export * from './testCases.js';
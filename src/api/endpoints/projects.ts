@@ -0,0 +1,186 @@
+import { apiClient, PingCodeApiError } from '../client.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { cache, CacheKeys } from '../../cache/index.js';
+import type { PingCodeProject, PaginatedResponse } from '../types.js';
+
+/**
+ * 获取项目详情
+ * GET /v1/project/projects/{project_id}
+ */
+export async function getProject(projectId: string, signal?: AbortSignal): Promise<PingCodeProject | null> {
+  try {
+    return await apiClient.request<PingCodeProject>(
+      `/v1/project/projects/${encodeURIComponent(projectId)}`,
+      { signal }
+    );
+  } catch (error) {
+    if (error instanceof PingCodeApiError && error.status === 404) {
+      logger.debug({ projectId }, 'Project not found');
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 根据项目标识（如 "PROJ"）查找项目
+ * GET /v1/project/projects?identifier={identifier}
+ */
+export async function getProjectByIdentifier(identifier: string, signal?: AbortSignal): Promise<PingCodeProject | null> {
+  const response = await apiClient.request<PaginatedResponse<PingCodeProject>>(
+    '/v1/project/projects',
+    {
+      params: {
+        identifier,
+        page_size: 1,
+        page_index: 0,
+      },
+      signal,
+    }
+  );
+
+  // 服务端按标识过滤，本地再做一次大小写无关的精确校验
+  const lowerIdentifier = identifier.toLowerCase();
+  const project = response.values.find(p => p.identifier?.toLowerCase() === lowerIdentifier);
+  if (!project) {
+    logger.debug({ identifier }, 'Project identifier not found');
+  }
+  return project ?? null;
+}
+
+/**
+ * 获取项目列表（带缓存）
+ * GET /v1/project/projects
+ *
+ * 缓存策略：全量项目列表缓存 TTL = config.cache.ttlProjects (默认 1h)。
+ * 关键词/类型过滤在缓存之后由调用方本地完成。
+ */
+export async function listProjects(signal?: AbortSignal): Promise<PingCodeProject[]> {
+  const cacheKey = CacheKeys.projects();
+  const cached = await cache.get<PingCodeProject[]>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  // 缓存未命中，从 API 拉取全量
+  const allProjects: PingCodeProject[] = [];
+  const pageSize = config.pagination.pageSize;
+  let currentPage = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await apiClient.request<PaginatedResponse<PingCodeProject>>(
+      '/v1/project/projects',
+      {
+        params: {
+          page_size: pageSize,
+          page_index: currentPage,
+        },
+        signal,
+      }
+    );
+
+    allProjects.push(...response.values);
+    hasMore = (response.page_index + 1) * response.page_size < response.total;
+    currentPage++;
+
+    // Safety limit
+    if (currentPage > config.pagination.maxPages) {
+      logger.warn({ currentPage }, 'Reached max pages limit for projects');
+      break;
+    }
+  }
+
+  await cache.set(cacheKey, allProjects, config.cache.ttlProjects);
+  logger.debug({ count: allProjects.length, ttl: config.cache.ttlProjects }, 'Project list cached');
+
+  return allProjects;
+}
+
+export interface ProjectMatch {
+  project: PingCodeProject;
+  matchType: 'exact' | 'contains' | 'fuzzy';
+}
+
+/**
+ * 根据项目名称或标识匹配项目
+ * 支持 strict / best / prompt 三种策略（与 matchUserByName 一致）
+ */
+export async function matchProjectByName(
+  name: string,
+  strategy: 'strict' | 'best' | 'prompt' = config.nameMatchStrategy,
+  signal?: AbortSignal
+): Promise<{
+  matched: PingCodeProject | null;
+  candidates: ProjectMatch[];
+  ambiguous: boolean;
+}> {
+  const projects = await listProjects(signal);
+  const lowerName = name.toLowerCase().trim();
+
+  const candidates: ProjectMatch[] = [];
+
+  for (const project of projects) {
+    const projectNameLower = project.name?.toLowerCase() || '';
+    const identifierLower = project.identifier?.toLowerCase() || '';
+
+    // Exact match
+    if (projectNameLower === lowerName || identifierLower === lowerName) {
+      candidates.push({ project, matchType: 'exact' });
+    }
+    // Contains match
+    else if (projectNameLower.includes(lowerName)) {
+      candidates.push({ project, matchType: 'contains' });
+    }
+    // Reverse contains (input contains project name)
+    else if (projectNameLower && lowerName.includes(projectNameLower)) {
+      candidates.push({ project, matchType: 'fuzzy' });
+    }
+  }
+
+  // Sort: exact > contains > fuzzy
+  candidates.sort((a, b) => {
+    const order = { exact: 0, contains: 1, fuzzy: 2 };
+    return order[a.matchType] - order[b.matchType];
+  });
+
+  logger.debug({
+    name,
+    strategy,
+    candidatesCount: candidates.length,
+    exactCount: candidates.filter(c => c.matchType === 'exact').length,
+  }, 'Project name matching');
+
+  // Strategy handling
+  if (strategy === 'strict') {
+    const exactMatches = candidates.filter(c => c.matchType === 'exact');
+    if (exactMatches.length === 1) {
+      return { matched: exactMatches[0].project, candidates: exactMatches, ambiguous: false };
+    }
+    return { matched: null, candidates, ambiguous: candidates.length > 0 };
+  }
+
+  if (strategy === 'best') {
+    const exactMatches = candidates.filter(c => c.matchType === 'exact');
+    if (exactMatches.length === 1) {
+      return { matched: exactMatches[0].project, candidates: exactMatches, ambiguous: false };
+    }
+    if (exactMatches.length > 1) {
+      return { matched: null, candidates: exactMatches, ambiguous: true };
+    }
+
+    const containsMatches = candidates.filter(c => c.matchType === 'contains');
+    if (containsMatches.length === 1) {
+      return { matched: containsMatches[0].project, candidates: containsMatches, ambiguous: false };
+    }
+    if (containsMatches.length > 1) {
+      return { matched: null, candidates: containsMatches, ambiguous: true };
+    }
+
+    return { matched: null, candidates, ambiguous: candidates.length > 0 };
+  }
+
+  // strategy === 'prompt': always return candidates for confirmation
+  return { matched: null, candidates, ambiguous: true };
+}
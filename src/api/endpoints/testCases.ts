@@ -0,0 +1,35 @@
+import { apiClient, PingCodeApiError } from '../client.js';
+import { cache, CacheKeys } from '../../cache/index.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import type { PingCodeTestCase } from '../types.js';
+
+/**
+ * 获取测试用例详情
+ * GET /v1/testhub/cases/{case_id}
+ *
+ * 需要 Testhub（测试管理）模块权限；不存在时返回 null。缓存时长与工作项一致。
+ */
+export async function getTestCase(testCaseId: string, signal?: AbortSignal): Promise<PingCodeTestCase | null> {
+  const cached = await cache.get<PingCodeTestCase>(CacheKeys.testCase(testCaseId));
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const testCase = await apiClient.request<PingCodeTestCase>(
+      `/v1/testhub/cases/${encodeURIComponent(testCaseId)}`,
+      { signal }
+    );
+
+    await cache.set(CacheKeys.testCase(testCaseId), testCase, config.cache.ttlWorkItems);
+
+    return testCase;
+  } catch (error) {
+    if (error instanceof PingCodeApiError && error.status === 404) {
+      logger.debug({ testCaseId }, 'Test case not found');
+      return null;
+    }
+    throw error;
+  }
+}
@@ -2,7 +2,7 @@ import { apiClient, PingCodeApiError } from '../client.js';
 import { cache, CacheKeys } from '../../cache/index.js';
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/logger.js';
-import type { PingCodeWorkItem } from '../types.js';
+import type { PingCodeWorkItem, PaginatedResponse } from '../types.js';
 
 /**
  * 获取工作项详情
@@ -38,6 +38,95 @@ export async function getWorkItem(workItemId: string, signal?: AbortSignal): Pro
   }
 }
 
+/**
+ * 根据工作项编号（如 "PROJ-101"）查找工作项
+ * GET /v1/project/work_items?identifier={identifier}
+ *
+ * 命中后按 ID 写入工作项缓存，并缓存 编号→ID 映射，后续同一编号无需再次搜索。
+ */
+export async function getWorkItemByIdentifier(identifier: string, signal?: AbortSignal): Promise<PingCodeWorkItem | null> {
+  const cachedId = await cache.get<string>(CacheKeys.workItemIdentifier(identifier));
+  if (cachedId) {
+    const cachedItem = await getWorkItem(cachedId, signal);
+    if (cachedItem) {
+      return cachedItem;
+    }
+  }
+
+  const response = await apiClient.request<PaginatedResponse<PingCodeWorkItem>>(
+    '/v1/project/work_items',
+    {
+      params: {
+        identifier,
+        page_size: 1,
+        page_index: 0,
+      },
+      signal,
+    }
+  );
+
+  const upperIdentifier = identifier.toUpperCase();
+  const workItem = response.values.find(w => w.identifier?.toUpperCase() === upperIdentifier);
+  if (!workItem) {
+    logger.debug({ identifier }, 'Work item identifier not found');
+    return null;
+  }
+
+  await cache.set(
+    CacheKeys.workItem(workItem.id),
+    workItem,
+    config.cache.ttlWorkItems
+  );
+  await cache.set(
+    CacheKeys.workItemIdentifier(identifier),
+    workItem.id,
+    config.cache.ttlWorkItems
+  );
+
+  return workItem;
+}
+
+export interface ListWorkItemsParams {
+  projectId?: string;
+  assigneeId?: string;
+  /** 状态（多个时以逗号分隔传给 API） */
+  states?: string[];
+  /** 类型（多个时以逗号分隔传给 API） */
+  types?: string[];
+  /** 标题关键词 */
+  keyword?: string;
+  /** 页码（从 0 开始，与 PingCode API 一致） */
+  pageIndex?: number;
+  pageSize?: number;
+}
+
+/**
+ * 分页查询工作项列表
+ * GET /v1/project/work_items?project_id=&assignee_id=&state=&type=&keywords=
+ *
+ * 只拉取请求的一页，不写入缓存（过滤条件组合多、结果易变）。
+ */
+export async function listWorkItems(
+  params: ListWorkItemsParams,
+  signal?: AbortSignal
+): Promise<PaginatedResponse<PingCodeWorkItem>> {
+  return apiClient.request<PaginatedResponse<PingCodeWorkItem>>(
+    '/v1/project/work_items',
+    {
+      params: {
+        project_id: params.projectId,
+        assignee_id: params.assigneeId,
+        state: params.states?.length ? params.states.join(',') : undefined,
+        type: params.types?.length ? params.types.join(',') : undefined,
+        keywords: params.keyword || undefined,
+        page_size: params.pageSize ?? config.pagination.pageSize,
+        page_index: params.pageIndex ?? 0,
+      },
+      signal,
+    }
+  );
+}
+
 /**
  * 批量获取工作项详情
  * 自动处理缓存和并发控制
@@ -144,16 +233,17 @@ async function fetchWorkItemDirect(workItemId: string, signal?: AbortSignal): Pr
 }
 
 /**
- * 从工时记录中提取并获取所有关联的工作项
+ * 从工时记录中提取并获取所有关联的工作项（想法、测试用例主体除外）
  */
 export async function getWorkItemsFromWorkloads(
-  workloads: Array<{ work_item?: { id: string } }>,
+  workloads: Array<{ work_item?: { id: string; principal_type?: string } }>,
   signal?: AbortSignal
 ): Promise<{
   items: Map<string, PingCodeWorkItem>;
   missingCount: number;
 }> {
   const workItemIds = workloads
+    .filter(w => (w.work_item?.principal_type ?? 'work_item') === 'work_item')
     .map(w => w.work_item?.id)
     .filter((id): id is string => !!id);
 
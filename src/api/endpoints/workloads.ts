@@ -3,7 +3,7 @@ import { config } from '../../config/index.js';
 import { logger } from '../../utils/logger.js';
 import { metrics } from '../../utils/metrics.js';
 import { splitTimeRange, isTimeRangeExceedsThreeMonths } from '../../utils/timeUtils.js';
-import type { PingCodeWorkload, RawPingCodeWorkload, PaginatedResponse } from '../types.js';
+import type { PingCodeWorkload, RawPingCodeWorkload, PaginatedResponse, WorkloadReviewState, WorkloadPrincipalType } from '../types.js';
 import { sanitizeTitle, sanitizeName, sanitizeDescription } from '../../utils/sanitize.js';
 
 /**
@@ -35,14 +35,66 @@ export interface ListWorkloadsParams {
   endAt: number;    // Unix timestamp (seconds)
   userId?: string;  // Optional: filter by reporter (server-side via report_by_id)
   projectId?: string;  // Optional: filter by project (server-side via pilot_id)
-  // API 原生参数（仅 work_item 类型，其他类型由 Tool 层转换）
-  principalType?: 'work_item';
+  // API 原生参数（工作项/想法/用例，user/project 由 Tool 层转换）
+  principalType?: WorkloadPrincipalType;
   principalId?: string;
   pageSize?: number;
   signal?: AbortSignal;
   budget?: FetchBudget;
 }
 
+export interface CreateWorkloadParams {
+  workItemId: string;
+  duration: number;      // 小时
+  reportAt: number;      // Unix timestamp (seconds)，填报日期 00:00
+  reportById: string;
+  description?: string;
+  typeId?: string;
+  signal?: AbortSignal;
+}
+
+export interface UpdateWorkloadParams {
+  duration?: number;     // 小时
+  reportAt?: number;     // Unix timestamp (seconds)，填报日期 00:00
+  description?: string;
+  typeId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * 工时分页位置：时间分片序号、分片内页码（page_index）、页内已读条数
+ */
+export interface WorkloadsPosition {
+  chunk: number;
+  page: number;
+  offset: number;
+}
+
+export interface ListWorkloadsPageParams extends Omit<ListWorkloadsParams, 'budget'> {
+  /** 起始位置，不传时从头开始 */
+  from?: WorkloadsPosition;
+  /** 本地过滤条件，不满足的记录跳过且不计入 limit */
+  accept?: (workload: PingCodeWorkload) => boolean;
+  /** 收集到 limit 条记录后停止；不传时拉取到末尾（受 maxRecords / maxPages 上限约束） */
+  limit?: number;
+}
+
+export interface WorkloadsPageEntry {
+  workload: PingCodeWorkload;
+  /** 该记录之后的位置，null 表示已到末尾 */
+  next: WorkloadsPosition | null;
+}
+
+export interface WorkloadsPageResult {
+  entries: WorkloadsPageEntry[];
+  /** 停止拉取的位置（达到 limit 或被截断），到达末尾时为 null */
+  resumeAt: WorkloadsPosition | null;
+  pageSize: number;
+  timeSliced: boolean;
+  paginationTruncated: boolean;
+  truncationReasons: string[];
+}
+
 export interface WorkloadsResult {
   workloads: PingCodeWorkload[];
   totalCount: number;
@@ -51,6 +103,21 @@ export interface WorkloadsResult {
   truncationReasons: string[];
 }
 
+// 上游审批状态取值 → 标准化状态（未识别的取值视为未启用审批）
+const REVIEW_STATE_ALIASES: Record<string, WorkloadReviewState> = {
+  pending: 'pending',
+  reviewing: 'pending',
+  to_review: 'pending',
+  approved: 'approved',
+  passed: 'approved',
+  rejected: 'rejected',
+  refused: 'rejected',
+};
+
+function normalizeReviewState(value: string | undefined): WorkloadReviewState | undefined {
+  return value ? REVIEW_STATE_ALIASES[value.toLowerCase()] : undefined;
+}
+
 /**
  * 将原始 API 响应转换为标准化格式
  */
@@ -59,11 +126,12 @@ function transformWorkload(raw: RawPingCodeWorkload): PingCodeWorkload {
     id: raw.id,
     // project 需要后续通过 work_item 关联获取
     project: undefined,
-    work_item: raw.principal && raw.principal_type === 'work_item' ? {
+    work_item: raw.principal ? {
       id: raw.principal.id,
       identifier: raw.principal.identifier,
       title: sanitizeTitle(raw.principal.title) ?? '',
       type: raw.principal.type,
+      principal_type: raw.principal_type,
     } : undefined,
     duration: raw.duration,
     description: sanitizeDescription(raw.description),
@@ -74,10 +142,140 @@ function transformWorkload(raw: RawPingCodeWorkload): PingCodeWorkload {
       display_name: sanitizeName(raw.report_by.display_name) ?? '',
     },
     type: raw.type?.name,
+    review_state: normalizeReviewState(raw.review_state),
     created_at: raw.created_at,
   };
 }
 
+/**
+ * 登记工时
+ * POST /v1/workloads
+ *
+ * 写操作不自动重试（429 除外），避免上游已写入时重复登记。
+ */
+export async function createWorkload(params: CreateWorkloadParams): Promise<PingCodeWorkload> {
+  const { workItemId, duration, reportAt, reportById, description, typeId, signal } = params;
+
+  logger.info({ workItemId, duration, reportAt, reportById }, 'Creating workload');
+
+  const raw = await apiClient.request<RawPingCodeWorkload>('/v1/workloads', {
+    method: 'POST',
+    body: {
+      principal_type: 'work_item',
+      principal_id: workItemId,
+      duration,
+      report_at: reportAt,
+      report_by_id: reportById,
+      description,
+      type_id: typeId,
+    },
+    signal,
+  });
+
+  return transformWorkload(raw);
+}
+
+/**
+ * 获取单条工时记录
+ * GET /v1/workloads/{id}
+ *
+ * 不存在时返回 null
+ */
+export async function getWorkload(workloadId: string, signal?: AbortSignal): Promise<PingCodeWorkload | null> {
+  try {
+    const raw = await apiClient.request<RawPingCodeWorkload>(
+      `/v1/workloads/${encodeURIComponent(workloadId)}`,
+      { signal }
+    );
+    return transformWorkload(raw);
+  } catch (error) {
+    if (error instanceof PingCodeApiError && error.status === 404) {
+      logger.debug({ workloadId }, 'Workload not found');
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 修改工时记录
+ * PUT /v1/workloads/{id}
+ *
+ * 只提交传入的字段；与 createWorkload 一样不自动重试（429 除外）。
+ */
+export async function updateWorkload(workloadId: string, params: UpdateWorkloadParams): Promise<PingCodeWorkload> {
+  const { duration, reportAt, description, typeId, signal } = params;
+
+  logger.info({ workloadId, duration, reportAt }, 'Updating workload');
+
+  const raw = await apiClient.request<RawPingCodeWorkload>(
+    `/v1/workloads/${encodeURIComponent(workloadId)}`,
+    {
+      method: 'PUT',
+      body: {
+        duration,
+        report_at: reportAt,
+        description,
+        type_id: typeId,
+      },
+      signal,
+    }
+  );
+
+  return transformWorkload(raw);
+}
+
+/**
+ * 删除工时记录
+ * DELETE /v1/workloads/{id}
+ */
+export async function deleteWorkload(workloadId: string, signal?: AbortSignal): Promise<void> {
+  logger.info({ workloadId }, 'Deleting workload');
+
+  await apiClient.request<unknown>(
+    `/v1/workloads/${encodeURIComponent(workloadId)}`,
+    { method: 'DELETE', signal }
+  );
+}
+
+/**
+ * 构建 /v1/workloads 请求参数（时间分片 + 分页 + 服务端过滤）
+ */
+function buildRequestParams(
+  params: ListWorkloadsParams,
+  chunkStart: number,
+  chunkEnd: number,
+  pageIndex: number,
+  pageSize: number
+): Record<string, string | number | undefined> {
+  const { userId, projectId, principalType, principalId } = params;
+  const requestParams: Record<string, string | number | undefined> = {
+    start_at: chunkStart,
+    end_at: chunkEnd,
+    page_size: pageSize,
+    page_index: pageIndex,
+  };
+
+  // 服务端过滤：按用户
+  if (userId) {
+    requestParams.report_by_id = userId;
+  }
+
+  // 服务端过滤：按项目（需要同时指定 principal_type）
+  if (projectId) {
+    requestParams.pilot_id = projectId;
+    requestParams.principal_type = principalType || 'work_item';
+  }
+
+  // PRD 参数：principal_type + principal_id（按工作项/想法/用例查询）
+  if (principalType && principalId) {
+    requestParams.principal_type = principalType;
+    requestParams.principal_id = principalId;
+  }
+
+  return requestParams;
+}
+
 /**
  * 获取工时记录
  * GET /v1/workloads
@@ -92,7 +290,7 @@ function transformWorkload(raw: RawPingCodeWorkload): PingCodeWorkload {
  * - 去重（以 workload_id 为主键）
  */
 export async function listWorkloads(params: ListWorkloadsParams): Promise<WorkloadsResult> {
-  const { startAt, endAt, userId, projectId, principalType, principalId, pageSize = config.pagination.pageSize, signal, budget } = params;
+  const { startAt, endAt, userId, projectId, pageSize = config.pagination.pageSize, signal, budget } = params;
 
   const needsSlicing = isTimeRangeExceedsThreeMonths(startAt, endAt);
   const timeChunks = needsSlicing ? splitTimeRange(startAt, endAt) : [[startAt, endAt]];
@@ -151,35 +349,10 @@ export async function listWorkloads(params: ListWorkloadsParams): Promise<Worklo
       }
 
       try {
-        // 构建请求参数
-        const requestParams: Record<string, string | number | undefined> = {
-          start_at: chunkStart,
-          end_at: chunkEnd,
-          page_size: pageSize,
-          page_index: currentPage,
-        };
-
-        // 服务端过滤：按用户
-        if (userId) {
-          requestParams.report_by_id = userId;
-        }
-
-        // 服务端过滤：按项目（需要同时指定 principal_type）
-        if (projectId) {
-          requestParams.pilot_id = projectId;
-          requestParams.principal_type = principalType || 'work_item';
-        }
-
-        // PRD 参数：principal_type + principal_id（按工作项/想法/用例查询）
-        if (principalType && principalId) {
-          requestParams.principal_type = principalType;
-          requestParams.principal_id = principalId;
-        }
-
         const response = await apiClient.request<PaginatedResponse<RawPingCodeWorkload>>(
           '/v1/workloads',
           {
-            params: requestParams,
+            params: buildRequestParams(params, chunkStart, chunkEnd, currentPage, pageSize),
             signal,
           }
         );
@@ -268,6 +441,143 @@ export async function listWorkloads(params: ListWorkloadsParams): Promise<Worklo
   };
 }
 
+/**
+ * 从指定位置开始按页获取工时记录（游标分页）
+ * GET /v1/workloads
+ *
+ * 与 listWorkloads 使用相同的时间分片和服务端过滤，但逐页推进并记录每条记录之后的位置，
+ * 调用方可据此从任意记录之后继续拉取。相同查询条件和页大小下位置是确定的；
+ * 去重只在单次调用内进行（时间分片互不重叠，跨调用不会重复）。
+ */
+export async function listWorkloadsPage(params: ListWorkloadsPageParams): Promise<WorkloadsPageResult> {
+  const { startAt, endAt, from, accept, limit, pageSize = config.pagination.pageSize, signal } = params;
+
+  const needsSlicing = isTimeRangeExceedsThreeMonths(startAt, endAt);
+  const timeChunks = needsSlicing ? splitTimeRange(startAt, endAt) : [[startAt, endAt]];
+
+  logger.info({
+    userId: params.userId,
+    projectId: params.projectId,
+    startAt,
+    endAt,
+    from,
+    limit,
+    chunksCount: timeChunks.length,
+  }, 'Fetching workloads page');
+
+  const entries: WorkloadsPageEntry[] = [];
+  const seenIds = new Set<string>();
+  let position: WorkloadsPosition | null = from ?? { chunk: 0, page: 0, offset: 0 };
+  let scannedCount = 0;
+  let pagesFetched = 0;
+  let paginationTruncated = false;
+  const truncationReasons: string[] = [];
+  const fetchStartTime = Date.now();
+
+  if (position.chunk >= timeChunks.length) {
+    position = null;
+  }
+
+  while (position) {
+    if (signal?.aborted) {
+      paginationTruncated = true;
+      truncationReasons.push('signal_aborted');
+      break;
+    }
+
+    if (Date.now() - fetchStartTime > config.pagination.maxFetchDurationMs) {
+      paginationTruncated = true;
+      truncationReasons.push('timeout');
+      break;
+    }
+
+    if (pagesFetched >= config.pagination.maxPages) {
+      paginationTruncated = true;
+      truncationReasons.push('max_pages');
+      break;
+    }
+
+    const { chunk, page, offset } = position;
+    const [chunkStart, chunkEnd] = timeChunks[chunk];
+
+    let response: PaginatedResponse<RawPingCodeWorkload>;
+    try {
+      response = await apiClient.request<PaginatedResponse<RawPingCodeWorkload>>(
+        '/v1/workloads',
+        {
+          params: buildRequestParams(params, chunkStart, chunkEnd, page, pageSize),
+          signal,
+        }
+      );
+    } catch (error) {
+      // 与 listWorkloads 一致：4xx 直接抛出，其余错误返回已获取的部分并可从当前位置续拉
+      if (error instanceof PingCodeApiError && error.status < 500) {
+        throw error;
+      }
+      logger.error({ error, position }, 'Failed to fetch workloads page (recoverable)');
+      paginationTruncated = true;
+      truncationReasons.push('fetch_error');
+      break;
+    }
+    pagesFetched++;
+
+    const values = response.values;
+    const hasMore = (response.page_index + 1) * response.page_size < response.total;
+    const pageEnd: WorkloadsPosition | null = hasMore
+      ? { chunk, page: page + 1, offset: 0 }
+      : chunk + 1 < timeChunks.length ? { chunk: chunk + 1, page: 0, offset: 0 } : null;
+
+    let limitReached = false;
+    for (let i = offset; i < values.length; i++) {
+      const raw = values[i];
+      if (seenIds.has(raw.id)) continue;
+      seenIds.add(raw.id);
+      scannedCount++;
+
+      const workload = transformWorkload(raw);
+      if (accept && !accept(workload)) continue;
+
+      entries.push({
+        workload,
+        next: i + 1 < values.length ? { chunk, page, offset: i + 1 } : pageEnd,
+      });
+      if (limit !== undefined && entries.length >= limit) {
+        limitReached = true;
+        break;
+      }
+    }
+
+    if (limitReached) {
+      position = entries[entries.length - 1].next;
+      break;
+    }
+    position = pageEnd;
+
+    if (position && scannedCount >= config.pagination.maxRecords) {
+      paginationTruncated = true;
+      truncationReasons.push('max_records');
+      break;
+    }
+  }
+
+  logger.info({
+    returned: entries.length,
+    scannedCount,
+    pagesFetched,
+    resumeAt: position,
+    paginationTruncated,
+  }, 'Workloads page fetch completed');
+
+  return {
+    entries,
+    resumeAt: position,
+    pageSize,
+    timeSliced: needsSlicing,
+    paginationTruncated,
+    truncationReasons,
+  };
+}
+
 /**
  * 获取用户的工时记录
  */
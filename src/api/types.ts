@@ -9,11 +9,20 @@ export interface PingCodeUser {
   job?: string;
 }
 
+/**
+ * 工时主体类型：工作项、想法（Ship）、测试用例（Testhub）
+ */
+export type WorkloadPrincipalType = 'work_item' | 'idea' | 'test_case';
+
+/**
+ * 工时关联的主体（工作项 / 想法 / 测试用例）
+ */
 export interface PingCodeWorkloadWorkItem {
   id: string;
   identifier: string;
   title: string;
   type?: string;
+  principal_type: WorkloadPrincipalType;
 }
 
 /**
@@ -21,7 +30,7 @@ export interface PingCodeWorkloadWorkItem {
  */
 export interface RawPingCodeWorkload {
   id: string;
-  principal_type: 'work_item' | 'idea' | 'test_case';
+  principal_type: WorkloadPrincipalType;
   principal?: {
     id: string;
     identifier: string;
@@ -55,6 +64,7 @@ export interface RawPingCodeWorkload {
 export interface PingCodeWorkload {
   id: string;
   project?: PingCodeProject;
+  // 工时主体：工作项、想法或测试用例（以 principal_type 区分），沿用 work_item 字段名以兼容聚合逻辑
   work_item?: PingCodeWorkloadWorkItem;
   duration: number;       // hours
   description?: string;
@@ -65,9 +75,16 @@ export interface PingCodeWorkload {
     display_name: string;
   };
   type?: string;
+  /** 审批状态，未启用工时审批时为 undefined */
+  review_state?: WorkloadReviewState;
   created_at: number;
 }
 
+/**
+ * 工时审批状态（标准化后）
+ */
+export type WorkloadReviewState = 'pending' | 'approved' | 'rejected';
+
 export interface PingCodeProject {
   id: string;
   identifier: string;
@@ -83,6 +100,32 @@ export interface PingCodeWorkItem {
   assignee?: PingCodeUser;
   state?: string;
   type?: string;
+  estimated_workload?: number | null;  // 预估工时（小时）
+  remaining_workload?: number | null;  // 剩余工时（小时）
+}
+
+/**
+ * 想法（GET /v1/ship/ideas/{id}），归属于产品
+ */
+export interface PingCodeIdea {
+  id: string;
+  identifier: string;
+  title: string;
+  product?: PingCodeProject;
+  assignee?: PingCodeUser;
+  state?: string;
+}
+
+/**
+ * 测试用例（GET /v1/testhub/cases/{id}），归属于测试库
+ */
+export interface PingCodeTestCase {
+  id: string;
+  identifier: string;
+  title: string;
+  library?: PingCodeProject;
+  maintenance?: PingCodeUser;
+  state?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -47,7 +47,8 @@ export function enforceUserScope(
       };
     }
 
-    case 'team_work_summary': {
+    case 'team_work_summary':
+    case 'generate_weekly_report': {
       // Force user_ids to [ctx.userId] — user can only see their own data
       return {
         allowed: true,
@@ -58,6 +59,52 @@ export function enforceUserScope(
       };
     }
 
+    case 'timesheet_compliance': {
+      // Force user_ids to [ctx.userId] — user can only check their own timesheet
+      return {
+        allowed: true,
+        args: {
+          ...parsedArgs,
+          user_ids: [ctx.userId],
+        },
+      };
+    }
+
+    case 'detect_workload_anomalies': {
+      // Force user_ids to [ctx.userId] — user can only scan their own timesheet
+      return {
+        allowed: true,
+        args: {
+          ...parsedArgs,
+          user_ids: [ctx.userId],
+        },
+      };
+    }
+
+    case 'export_workloads':
+    case 'export_team_workbook': {
+      // Force user_ids to [ctx.userId] — user can only export their own timesheet
+      return {
+        allowed: true,
+        args: {
+          ...parsedArgs,
+          user_ids: [ctx.userId],
+        },
+      };
+    }
+
+    case 'compare_work_periods': {
+      // Force a personal comparison for ctx.userId; team-scope inputs are dropped
+      const { user_ids: _userIds, project_id: _projectId, ...rest } = parsedArgs;
+      return {
+        allowed: true,
+        args: {
+          ...rest,
+          user: { id: ctx.userId },
+        },
+      };
+    }
+
     case 'list_workloads': {
       // Force report_by_id to ctx.userId
       return {
@@ -69,6 +116,31 @@ export function enforceUserScope(
       };
     }
 
+    case 'create_workload': {
+      // User mode: can only log hours for the authenticated user. Replace the
+      // whole user object so a name cannot override the bound id.
+      return {
+        allowed: true,
+        args: {
+          ...parsedArgs,
+          user: { id: ctx.userId },
+        },
+      };
+    }
+
+    case 'update_workload':
+    case 'delete_workload': {
+      // User mode: the tool checks that the workload was reported by the
+      // authenticated user before previewing or modifying it.
+      return {
+        allowed: true,
+        args: {
+          ...parsedArgs,
+          _restrict_to_user_id: ctx.userId,
+        },
+      };
+    }
+
     case 'list_users': {
       // User mode: restrict to the authenticated user's own record only,
       // preventing full enterprise user enumeration.
@@ -92,6 +164,37 @@ export function enforceUserScope(
       };
     }
 
+    case 'search_work_items': {
+      // User mode: deny for the same reason as get_work_item — searching would
+      // enumerate work items across all projects and assignees.
+      return {
+        allowed: false,
+        error: 'search_work_items is not available in user token mode. '
+          + 'Work item details are automatically included in user_work_summary results.',
+      };
+    }
+
+    case 'capacity_utilization': {
+      // Force user_ids to [ctx.userId] — user can only see their own utilization
+      return {
+        allowed: true,
+        args: {
+          ...parsedArgs,
+          user_ids: [ctx.userId],
+        },
+      };
+    }
+
+    case 'cost_summary': {
+      // User mode: deny — rate cards are confidential and costs are a
+      // finance view of the whole team, not a personal report.
+      return {
+        allowed: false,
+        error: 'cost_summary is not available in user token mode. '
+          + 'Use user_work_summary for your own hours.',
+      };
+    }
+
     default: {
       // Unknown tools in user mode: deny by default for safety
       return {
@@ -101,3 +204,45 @@ export function enforceUserScope(
     }
   }
 }
+
+/**
+ * Enforce user-mode scope restrictions on MCP resource reads.
+ *
+ * Mirrors the tool rules: users only see their own user record and
+ * personal report; project and work item resources are denied.
+ */
+export function enforceResourceScope(
+  resourceName: string,
+  params: Record<string, string>,
+  ctx: UserContext
+): ScopeResult {
+  if (ctx.tokenMode === 'enterprise') {
+    return { allowed: true, args: params };
+  }
+
+  switch (resourceName) {
+    case 'users': {
+      // Same restriction as list_users: only the authenticated user's own record
+      return { allowed: true, args: { ...params, _restrict_to_user_id: ctx.userId } };
+    }
+
+    case 'user': {
+      if (params.id !== ctx.userId) {
+        return { allowed: false, error: 'Only your own user record is available in user token mode' };
+      }
+      return { allowed: true, args: params };
+    }
+
+    case 'team_report': {
+      // Same restriction as team_work_summary: report covers ctx.userId only
+      return { allowed: true, args: { ...params, _restrict_to_user_id: ctx.userId } };
+    }
+
+    default: {
+      return {
+        allowed: false,
+        error: `Resource "${resourceName}" is not available in user token mode`,
+      };
+    }
+  }
+}
@@ -119,4 +119,9 @@ export const CacheKeys = {
   usersList: () => 'users:list',
   user: (id: string) => `users:${id}`,
   workItem: (id: string) => `work_items:${id}`,
+  // 工作项编号（如 "PROJ-101"）→ 工作项 ID 映射，编号不区分大小写
+  workItemIdentifier: (identifier: string) => `work_items:identifier:${identifier.toUpperCase()}`,
+  projects: () => 'projects:list',
+  idea: (id: string) => `ideas:${id}`,
+  testCase: (id: string) => `test_cases:${id}`,
 };
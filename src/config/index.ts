@@ -14,6 +14,7 @@ const ConfigSchema = z.object({
   cache: z.object({
     ttlUsers: z.number().default(3600),        // 1 hour
     ttlWorkItems: z.number().default(21600),   // 6 hours
+    ttlProjects: z.number().default(3600),     // 1 hour
   }),
 
   // Server
@@ -71,6 +72,35 @@ const ConfigSchema = z.object({
   // Timezone
   timezone: z.string().default('Asia/Shanghai'),
 
+  // Timesheet（填报合规检查）
+  timesheet: z.object({
+    expectedDailyHours: z.number().positive().default(8),
+    // 工作日（ISO 星期：1=周一 … 7=周日，逗号分隔）
+    workingDays: z.string().default('1,2,3,4,5'),
+  }).default({}),
+
+  // Calendar（节假日 / 调休补班日历文件，JSON 或 ICS；为空表示仅按工作日规则）
+  calendar: z.object({
+    file: z.string().default(''),
+  }).default({}),
+
+  // Rate card（人工成本费率卡 JSON 文件；为空表示不启用成本统计）
+  rateCard: z.object({
+    file: z.string().default(''),
+  }).default({}),
+
+  // Capacity（成员每日产能与请假安排 JSON 文件；为空表示全员按 EXPECTED_DAILY_HOURS 计算）
+  capacity: z.object({
+    file: z.string().default(''),
+  }).default({}),
+
+  // Anomaly（工时异常检测规则阈值）
+  anomaly: z.object({
+    maxEntryHours: z.number().positive().default(12),   // 单条记录工时上限
+    maxDailyHours: z.number().positive().default(16),   // 单人单日工时上限
+    futureDays: z.number().int().min(0).default(1),     // 填报日期超过今天 N 天视为异常
+  }).default({}),
+
   // Name Matching
   nameMatchStrategy: z.enum(['best', 'strict', 'prompt']).default('best'),
 
@@ -97,6 +127,7 @@ function loadConfig(): Config {
     cache: {
       ttlUsers: process.env.CACHE_TTL_USERS ? parseInt(process.env.CACHE_TTL_USERS, 10) : undefined,
       ttlWorkItems: process.env.CACHE_TTL_WORK_ITEMS ? parseInt(process.env.CACHE_TTL_WORK_ITEMS, 10) : undefined,
+      ttlProjects: process.env.CACHE_TTL_PROJECTS ? parseInt(process.env.CACHE_TTL_PROJECTS, 10) : undefined,
     },
     server: {
       transportMode: process.env.TRANSPORT_MODE,
@@ -123,6 +154,24 @@ function loadConfig(): Config {
       maxFetchDurationMs: process.env.MAX_FETCH_DURATION_MS ? parseInt(process.env.MAX_FETCH_DURATION_MS, 10) : undefined,
     },
     timezone: process.env.TIMEZONE,
+    timesheet: {
+      expectedDailyHours: process.env.EXPECTED_DAILY_HOURS ? parseFloat(process.env.EXPECTED_DAILY_HOURS) : undefined,
+      workingDays: process.env.WORKING_DAYS,
+    },
+    calendar: {
+      file: process.env.CALENDAR_FILE,
+    },
+    rateCard: {
+      file: process.env.RATE_CARD_FILE,
+    },
+    capacity: {
+      file: process.env.CAPACITY_FILE,
+    },
+    anomaly: {
+      maxEntryHours: process.env.ANOMALY_MAX_ENTRY_HOURS ? parseFloat(process.env.ANOMALY_MAX_ENTRY_HOURS) : undefined,
+      maxDailyHours: process.env.ANOMALY_MAX_DAILY_HOURS ? parseFloat(process.env.ANOMALY_MAX_DAILY_HOURS) : undefined,
+      futureDays: process.env.ANOMALY_FUTURE_DAYS ? parseInt(process.env.ANOMALY_FUTURE_DAYS, 10) : undefined,
+    },
     nameMatchStrategy: process.env.NAME_MATCH_STRATEGY,
     logLevel: process.env.LOG_LEVEL,
     dataQuality: {
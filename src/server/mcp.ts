@@ -2,6 +2,11 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { randomUUID } from 'node:crypto';
 import { logger } from '../utils/logger.js';
@@ -15,6 +20,9 @@ import {
 } from '../tools/registry.js';
 import { type UserContext, ENTERPRISE_CONTEXT } from '../auth/userContext.js';
 import { enforceUserScope } from '../auth/scopeEnforcer.js';
+import { isExportFile } from '../utils/export.js';
+import { listResources, listResourceTemplates, readResource } from './resources.js';
+import { listPrompts, getPrompt } from './prompts.js';
 
 /**
  * 检测工具返回结果是否为业务错误（包含 error + code 字段）
@@ -31,6 +39,35 @@ export function isBusinessError(result: unknown): boolean {
   );
 }
 
+/**
+ * 将工具结果中的导出文件（result.export）拆分为 MCP embedded resource
+ *
+ * 文件内容不进入 JSON 文本 / structuredContent，结果中只保留文件元信息和 resource URI。
+ */
+export function splitExportResource(result: unknown, requestId: string): {
+  result: unknown;
+  resource?: {
+    type: 'resource';
+    resource: { uri: string; mimeType: string; text: string } | { uri: string; mimeType: string; blob: string };
+  };
+} {
+  if (!result || typeof result !== 'object') return { result };
+  const { export: exportFile, ...rest } = result as Record<string, unknown>;
+  if (!isExportFile(exportFile)) return { result };
+
+  const { content, encoding, ...meta } = exportFile;
+  const uri = `pingcode-export://${requestId}/${encodeURIComponent(exportFile.filename)}`;
+  // 二进制文件（如 XLSX）以 base64 blob 返回
+  const body = encoding === 'base64' ? { blob: content } : { text: content };
+  return {
+    result: { ...rest, export: { ...meta, uri } },
+    resource: {
+      type: 'resource',
+      resource: { uri, mimeType: exportFile.mime_type, ...body },
+    },
+  };
+}
+
 /**
  * Extract data_quality flags from a tool result and record to metrics.
  * Returns the flags for use in degradation checks.
@@ -117,7 +154,7 @@ function buildDataReliabilityWarning(flags: {
 }
 
 /**
- * 创建并配置 MCP Server（注册工具 + CallTool handler）
+ * 创建并配置 MCP Server（注册工具 + CallTool handler + Resources / Prompts handler）
  *
  * 独立导出以供测试复用，避免测试复刻 handler 逻辑。
  */
@@ -131,6 +168,8 @@ export function createMcpServer(userContext?: UserContext): Server {
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
       },
     }
   );
@@ -149,6 +188,47 @@ export function createMcpServer(userContext?: UserContext): Server {
     };
   });
 
+  // Register resource handlers
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listResources(ctx),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: listResourceTemplates(ctx),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+    const startTime = Date.now();
+    const timeoutSignal = AbortSignal.timeout(config.server.toolCallTimeoutMs);
+    const combinedSignal = extra?.signal
+      ? AbortSignal.any([extra.signal, timeoutSignal])
+      : timeoutSignal;
+
+    logger.info({ uri }, 'Resource read');
+
+    try {
+      const result = await readResource(uri, ctx, combinedSignal);
+      metrics.recordSuccess('resource:read', Date.now() - startTime);
+      return result;
+    } catch (error) {
+      metrics.recordError('resource:read', Date.now() - startTime);
+      logger.warn({ uri, error: (error as Error).message }, 'Resource read failed');
+      throw error;
+    }
+  });
+
+  // Register prompt handlers
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: promptArgs } = request.params;
+    logger.info({ prompt: name }, 'Prompt requested');
+    return getPrompt(name, promptArgs, ctx);
+  });
+
   // Register call tool handler
   server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
@@ -214,7 +294,8 @@ export function createMcpServer(userContext?: UserContext): Server {
       }
 
       // 调用版本化工具
-      const { result, warnings } = await toolRegistry.callTool(name, effectiveArgs, combinedSignal);
+      const { result: rawResult, warnings } = await toolRegistry.callTool(name, effectiveArgs, combinedSignal);
+      const { result, resource: exportResource } = splitExportResource(rawResult, requestId);
 
       // 记录指标
       if (isBusinessError(result)) {
@@ -277,6 +358,7 @@ export function createMcpServer(userContext?: UserContext): Server {
             text,
             annotations: { audience: ['assistant' as const] },
           },
+          ...(exportResource ? [exportResource] : []),
         ],
         structuredContent: structuredPayload,
       };
@@ -0,0 +1,181 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { UserContext } from '../auth/userContext.js';
+
+/**
+ * MCP Prompts
+ *
+ * 常用工时报告的参数化提示词模板：引导模型以正确的 group_by 和时间别名调用现有工具，
+ * 免去用户每周重复输入相同的需求。
+ */
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string | undefined>, ctx: UserContext) => string;
+}
+
+// 时间范围参数的说明（与 pingcode://reports/team/{range} 一致）
+const PERIOD_DESCRIPTION = '时间范围：时间别名（如 last_week、this_month、上周）或 "开始..结束"（如 2026-01-01..2026-01-31）';
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'weekly_team_report',
+    title: '团队周报',
+    description: '汇总团队上周（或指定时间段）的工时投入、项目分布和填报情况',
+    arguments: [
+      { name: 'period', description: `${PERIOD_DESCRIPTION}，默认 last_week` },
+      { name: 'department', description: '只统计该部门的成员（可选）' },
+    ],
+    render: args => {
+      const timeRange = timeRangeArg(args.period, 'last_week');
+      const department = args.department ? `, department="${args.department}"` : '';
+      return [
+        `请为团队生成一份工时周报${args.department ? `（部门：${args.department}）` : ''}。`,
+        '',
+        '步骤：',
+        `1. 调用 team_work_summary(time_range=${timeRange}, group_by="user", top_n=5${department})，获取每位成员的总工时和 Top 工作项。`,
+        `2. 调用 team_work_summary(time_range=${timeRange}, group_by="project", top_n=10${department})，获取项目投入分布。`,
+        `3. 调用 timesheet_compliance(time_range=${timeRange}, only_non_compliant=true)，找出漏填/少填的成员${args.department ? '（只保留该部门成员）' : ''}。`,
+        '',
+        '输出：总工时与人数、按成员的工时表（含主要工作项）、项目投入占比、填报异常名单。',
+        '如果返回 data_quality 提示数据被截断或上游失败，请在报告开头注明数据不完整。',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'my_week_recap',
+    title: '个人周回顾',
+    description: '回顾某位成员（默认本人）上周每天做了什么、投入最多的工作项',
+    arguments: [
+      { name: 'user', description: '成员姓名或用户 ID（可选，user 模式下固定为本人）' },
+      { name: 'period', description: `${PERIOD_DESCRIPTION}，默认 last_week` },
+    ],
+    render: (args, ctx) => {
+      const timeRange = timeRangeArg(args.period, 'last_week');
+      // user 模式下默认本人；企业模式下未指定成员时需先询问
+      const user = args.user
+        ? `{name: "${args.user}"}`
+        : ctx.tokenMode === 'user' ? `{id: "${ctx.userId}"}` : '{name: "<成员姓名>"}';
+      const lines = [
+        `请回顾${args.user ? ` ${args.user} ` : '我'}在这段时间的工作。`,
+        '',
+        '步骤：',
+        `1. 调用 user_work_summary(user=${user}, time_range=${timeRange}, group_by="day")，按天列出工时。`,
+        `2. 调用 user_work_summary(user=${user}, time_range=${timeRange}, group_by="work_item", top_n=5)，找出投入最多的工作项。`,
+        '',
+        '输出：每天的工时和主要工作、Top 5 工作项、工时偏少或为 0 的工作日。',
+      ];
+      if (!args.user && ctx.tokenMode !== 'user') {
+        lines.splice(3, 0, '0. 先询问我的姓名，用于替换下面的 <成员姓名>。');
+      }
+      if (args.user) {
+        lines.push('如果姓名匹配到多位成员（AMBIGUOUS_USER），请先列出候选让我确认，不要继续汇总。');
+      }
+      return lines.join('\n');
+    },
+  },
+  {
+    name: 'project_burn_review',
+    title: '项目投入复盘',
+    description: '复盘项目在一段时间内的工时消耗、成员投入和预估偏差',
+    arguments: [
+      { name: 'project', description: '项目 ID、标识（如 PROJ）或名称', required: true },
+      { name: 'period', description: `${PERIOD_DESCRIPTION}，默认 this_month` },
+    ],
+    render: args => {
+      const timeRange = timeRangeArg(args.period, 'this_month');
+      return [
+        `请复盘项目 "${args.project}" 的工时消耗情况。`,
+        '',
+        '步骤：',
+        `1. 调用 project_work_summary(project={name: "${args.project}"}, time_range=${timeRange}, top_n=10)，获取成员投入、工作项和按周趋势（如果传入的是项目标识，请改用 project={identifier: ...}）。`,
+        `2. 调用 estimate_vs_actual(project="${args.project}", time_range=${timeRange}, top_n=10)，找出实际工时超出预估的工作项。`,
+        '',
+        '输出：总工时与按周趋势、主要投入成员、超支最多的工作项及超支比例、未填写预估的工作项占比。',
+        '如果返回 AMBIGUOUS_PROJECT，请先列出候选项目让我确认。',
+      ].join('\n');
+    },
+  },
+  {
+    name: 'missing_timesheets_reminder',
+    title: '工时填报提醒',
+    description: '找出漏填或少填工时的成员，并起草提醒消息',
+    arguments: [
+      { name: 'period', description: `${PERIOD_DESCRIPTION}，默认 last_week` },
+    ],
+    render: args => {
+      const timeRange = timeRangeArg(args.period, 'last_week');
+      return [
+        '请检查工时填报情况并起草提醒。',
+        '',
+        '步骤：',
+        `1. 调用 timesheet_compliance(time_range=${timeRange}, only_non_compliant=true)，获取漏填/少填的成员及缺失日期。`,
+        '',
+        '输出：按成员列出缺失或不足的日期和差额工时，然后为每位成员起草一条简短、礼貌的中文提醒消息。',
+        '如果所有成员都已合规，直接说明即可，不要起草提醒。',
+      ].join('\n');
+    },
+  },
+];
+
+/**
+ * 提示词列表（prompts/list）
+ */
+export function listPrompts() {
+  return PROMPTS.map(p => ({
+    name: p.name,
+    title: p.title,
+    description: p.description,
+    arguments: p.arguments,
+  }));
+}
+
+/**
+ * 渲染提示词（prompts/get）
+ *
+ * 未知提示词或缺少必填参数时抛出 McpError(InvalidParams)。
+ */
+export function getPrompt(name: string, promptArgs: Record<string, string | undefined> | undefined, ctx: UserContext) {
+  const args = promptArgs ?? {};
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(a => a.required && !args[a.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument(s): ${missing.map(a => a.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: prompt.render(args, ctx),
+        },
+      },
+    ],
+  };
+}
+
+// ============ 辅助函数 ============
+
+/**
+ * 将 period 参数转为工具调用中的 time_range 写法
+ */
+function timeRangeArg(period: string | undefined, defaultAlias: string): string {
+  const value = period?.trim() || defaultAlias;
+  const [start, end = start] = value.split('..').map(s => s.trim());
+  return `{start: "${start}", end: "${end}"}`;
+}
@@ -0,0 +1,243 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { userService } from '../services/userService.js';
+import { projectService } from '../services/projectService.js';
+import { workItemService } from '../services/workItemService.js';
+import { workloadService } from '../services/workloadService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { enforceResourceScope } from '../auth/scopeEnforcer.js';
+import type { UserContext } from '../auth/userContext.js';
+
+/**
+ * MCP Resources
+ *
+ * 以只读 JSON 资源暴露成员、项目、工作项和团队报告，客户端无需调用工具即可浏览数据。
+ * - 固定资源：pingcode://users、pingcode://projects
+ * - 资源模板：pingcode://users/{id}、pingcode://projects/{id}、
+ *   pingcode://work-items/{id}、pingcode://reports/team/{range}
+ */
+
+const MIME_TYPE = 'application/json';
+
+// 报告范围中起止日期的分隔符，如 2026-01-01..2026-01-31
+const RANGE_SEPARATOR = '..';
+
+interface ResourceDefinition {
+  /** 用于权限控制和指标的资源名称 */
+  name: string;
+  title: string;
+  description: string;
+  /** 固定资源的 URI */
+  uri?: string;
+  /** 资源模板（RFC 6570，仅支持简单 {var}） */
+  uriTemplate?: string;
+  read: (params: Record<string, string>, signal?: AbortSignal) => Promise<unknown>;
+}
+
+const RESOURCES: ResourceDefinition[] = [
+  {
+    name: 'users',
+    title: '成员列表',
+    description: '企业成员列表（ID、用户名、显示名、部门）',
+    uri: 'pingcode://users',
+    read: async (params, signal) => {
+      let users = await userService.getAllUsers(signal);
+      if (params._restrict_to_user_id) {
+        users = users.filter(u => u.id === params._restrict_to_user_id);
+      }
+      return { users, total: users.length };
+    },
+  },
+  {
+    name: 'user',
+    title: '成员详情',
+    description: '单个成员信息，{id} 为用户 ID',
+    uriTemplate: 'pingcode://users/{id}',
+    read: async (params, signal) => userService.getUser(params.id, signal),
+  },
+  {
+    name: 'projects',
+    title: '项目列表',
+    description: '项目列表（ID、标识、名称、类型）',
+    uri: 'pingcode://projects',
+    read: async (_params, signal) => {
+      const projects = await projectService.getAllProjects(signal);
+      return { projects, total: projects.length };
+    },
+  },
+  {
+    name: 'project',
+    title: '项目详情',
+    description: '单个项目信息，{id} 可为项目 ID、标识（如 PROJ）或名称',
+    uriTemplate: 'pingcode://projects/{id}',
+    read: async (params, signal) => {
+      const result = await projectService.resolveProjectRef(params.id, signal);
+      if (result.ambiguous) {
+        const names = result.candidates.map(c => c.project.identifier ?? c.project.name).join(', ');
+        throw new McpError(ErrorCode.InvalidParams, `Multiple projects match "${params.id}": ${names}`);
+      }
+      return result.project;
+    },
+  },
+  {
+    name: 'work_item',
+    title: '工作项详情',
+    description: '单个工作项（标题、状态、类型、负责人、预估工时），{id} 可为工作项 ID 或编号（如 PROJ-101）',
+    uriTemplate: 'pingcode://work-items/{id}',
+    read: async (params, signal) => workItemService.resolveWorkItemRef(params.id, signal),
+  },
+  {
+    name: 'team_report',
+    title: '团队工时报告',
+    description: `团队工时汇总（总工时、成员工时及 Top 项目/工作项）。{range} 为时间别名（如 last_week、this_month）、单个日期，或 "开始${RANGE_SEPARATOR}结束"（如 2026-01-01${RANGE_SEPARATOR}2026-01-31）`,
+    uriTemplate: 'pingcode://reports/team/{range}',
+    read: async (params, signal) => readTeamReport(params, signal),
+  },
+];
+
+/**
+ * 固定资源列表（resources/list）
+ */
+export function listResources(ctx: UserContext) {
+  return RESOURCES.flatMap(r => (r.uri && enforceResourceScope(r.name, {}, ctx).allowed
+    ? [{
+        uri: r.uri,
+        name: r.name,
+        title: r.title,
+        description: r.description,
+        mimeType: MIME_TYPE,
+      }]
+    : []));
+}
+
+/**
+ * 资源模板列表（resources/templates/list）
+ *
+ * user 模式下只列出可读取的模板；{id} 以当前用户代入（users/{id} 仅可读取本人记录）。
+ */
+export function listResourceTemplates(ctx: UserContext) {
+  return RESOURCES.flatMap(r => (r.uriTemplate && enforceResourceScope(r.name, { id: ctx.userId }, ctx).allowed
+    ? [{
+        uriTemplate: r.uriTemplate,
+        name: r.name,
+        title: r.title,
+        description: r.description,
+        mimeType: MIME_TYPE,
+      }]
+    : []));
+}
+
+/**
+ * 匹配资源 URI，返回资源定义及模板变量
+ */
+export function matchResource(uri: string): { resource: ResourceDefinition; params: Record<string, string> } | null {
+  for (const resource of RESOURCES) {
+    if (resource.uri === uri) {
+      return { resource, params: {} };
+    }
+    if (resource.uriTemplate) {
+      const params = matchTemplate(resource.uriTemplate, uri);
+      if (params) {
+        return { resource, params };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 读取资源（resources/read）
+ *
+ * 未知 URI、无权限或数据不存在时抛出 McpError(InvalidParams)。
+ */
+export async function readResource(uri: string, ctx: UserContext, signal?: AbortSignal) {
+  const match = matchResource(uri);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  }
+
+  const scope = enforceResourceScope(match.resource.name, match.params, ctx);
+  if (!scope.allowed) {
+    throw new McpError(ErrorCode.InvalidParams, scope.error ?? 'Access denied');
+  }
+
+  const data = await match.resource.read(scope.args as Record<string, string>, signal);
+  if (data === null || data === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+// ============ 辅助函数 ============
+
+function matchTemplate(template: string, uri: string): Record<string, string> | null {
+  const names: string[] = [];
+  const pattern = template
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const variable = /^\{(\w+)\}$/.exec(part);
+      if (variable) {
+        names.push(variable[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${pattern}$`).exec(uri);
+  if (!match) return null;
+
+  try {
+    return Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]));
+  } catch {
+    // 非法的百分号编码
+    return null;
+  }
+}
+
+async function readTeamReport(params: Record<string, string>, signal?: AbortSignal) {
+  const [start, end = start] = params.range.split(RANGE_SEPARATOR);
+
+  let timeRange;
+  try {
+    timeRange = parseTimeRange(start, end);
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid time range: ${(error as Error).message}`);
+  }
+
+  const result = await workloadService.getTeamWorkSummary(timeRange.start, timeRange.end, {
+    userIds: params._restrict_to_user_id ? [params._restrict_to_user_id] : undefined,
+    signal,
+  });
+
+  return {
+    time_range: {
+      start: formatTimestamp(result.summary.time_range.start_at),
+      end: formatTimestamp(result.summary.time_range.end_at),
+    },
+    total_hours: result.summary.total_hours,
+    user_count: result.summary.user_count,
+    by_review_state: result.summary.by_review_state,
+    members: result.summary.members.map(m => ({
+      user: {
+        id: m.user.id,
+        name: m.user.name,
+        display_name: m.user.display_name,
+        department: m.user.department,
+      },
+      total_hours: m.total_hours,
+      by_review_state: m.by_review_state,
+      top_projects: m.top_projects,
+      top_work_items: m.top_work_items,
+    })),
+    data_quality: result.data_quality,
+  };
+}
@@ -0,0 +1,309 @@
+import { listWorkloadsForUsers } from '../api/endpoints/workloads.js';
+import { config } from '../config/index.js';
+import { userService, type UserInfo } from './userService.js';
+import { formatTimestamp, getTodayDate, dateToTimestamp } from '../utils/timeUtils.js';
+import { workCalendar } from '../utils/calendar.js';
+import type { PingCodeWorkload } from '../api/types.js';
+
+/**
+ * 工时异常规则
+ * - entry_over_hours: 单条记录工时超过上限
+ * - daily_over_hours: 单人单日工时合计超过上限
+ * - weekend_only: 区间内只在非工作日填报
+ * - duplicate_entry: 同一天、同一工作项、同工时、同类型、同描述的重复记录
+ * - future_entry: 填报日期晚于今天 N 天以上
+ */
+export const ANOMALY_RULES = [
+  'entry_over_hours',
+  'daily_over_hours',
+  'weekend_only',
+  'duplicate_entry',
+  'future_entry',
+] as const;
+
+export type AnomalyRule = typeof ANOMALY_RULES[number];
+
+export interface AnomalyThresholds {
+  maxEntryHours: number;
+  maxDailyHours: number;
+  futureDays: number;
+}
+
+export interface AnomalyFinding {
+  rule: AnomalyRule;
+  message: string;
+  /** 涉及的日期（weekend_only 为 null） */
+  date: string | null;
+  hours: number;
+  workload_ids: string[];
+}
+
+export interface UserAnomalies {
+  user: UserInfo;
+  findings: AnomalyFinding[];
+}
+
+export interface AnomalyResult {
+  summary: {
+    time_range: {
+      start_at: number;
+      end_at: number;
+    };
+    rules: AnomalyRule[];
+    thresholds: AnomalyThresholds;
+    user_count: number;
+    flagged_user_count: number;
+    finding_count: number;
+    by_rule: Record<AnomalyRule, number>;
+  };
+  users: UserAnomalies[];
+  data_quality: {
+    workloads_count: number;
+    unknown_user_matches: number;
+    time_sliced: boolean;
+    pagination_truncated: boolean;
+    truncation_reasons?: string[];
+  };
+}
+
+// future_entry 在截止日之后额外拉取的天数（有界前瞻，避免无上限拉取未来数据）
+const FUTURE_LOOKAHEAD_DAYS = 90;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * 工时异常检测服务 - 按规则扫描成员的工时记录
+ */
+export class AnomalyService {
+  /**
+   * 检测工时异常
+   */
+  async detectAnomalies(
+    startAt: number,
+    endAt: number,
+    options: {
+      userIds?: string[];
+      rules?: AnomalyRule[];
+      thresholds?: Partial<AnomalyThresholds>;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<AnomalyResult> {
+    const { userIds, signal } = options;
+    const rules = options.rules && options.rules.length > 0 ? options.rules : [...ANOMALY_RULES];
+    const thresholds: AnomalyThresholds = {
+      maxEntryHours: options.thresholds?.maxEntryHours ?? config.anomaly.maxEntryHours,
+      maxDailyHours: options.thresholds?.maxDailyHours ?? config.anomaly.maxDailyHours,
+      futureDays: options.thresholds?.futureDays ?? config.anomaly.futureDays,
+    };
+
+    // 1. 获取用户列表
+    let users: UserInfo[];
+    let unknownUserMatches = 0;
+    if (userIds && userIds.length > 0) {
+      const usersMap = await userService.getUsersMap(userIds, signal);
+      users = userIds
+        .map(id => usersMap.get(id))
+        .filter((u): u is UserInfo => u !== undefined);
+      unknownUserMatches = userIds.length - users.length;
+    } else {
+      users = await userService.getAllUsers(signal);
+    }
+
+    // 2. 批量获取工时数据
+    const workloadsMap = users.length > 0
+      ? await listWorkloadsForUsers(users.map(u => u.id), startAt, endAt, { signal })
+      : new Map();
+
+    // 2b. future_entry：时间范围截止于今天附近时，额外拉取截止日之后的有界窗口，
+    //     否则远期记录永远不在拉取范围内。查询历史区间时不前瞻；
+    //     主范围已覆盖的部分直接复用，只拉取剩余窗口
+    const today = getTodayDate();
+    const futureCutoff = addDays(today, thresholds.futureDays);
+    const endsRecently = endAt >= dateToTimestamp(addDays(today, -FUTURE_LOOKAHEAD_DAYS));
+    let futureMap: Awaited<ReturnType<typeof listWorkloadsForUsers>> = new Map();
+    if (rules.includes('future_entry') && endsRecently && users.length > 0) {
+      const lookaheadStart = Math.max(endAt, dateToTimestamp(addDays(futureCutoff, 1)));
+      const lookaheadEnd = dateToTimestamp(addDays(futureCutoff, 1 + FUTURE_LOOKAHEAD_DAYS));
+      if (lookaheadStart < lookaheadEnd) {
+        futureMap = await listWorkloadsForUsers(users.map(u => u.id), lookaheadStart, lookaheadEnd, { signal });
+      }
+    }
+
+    // 3. 逐用户执行规则
+    const results: UserAnomalies[] = [];
+    let workloadsCount = 0;
+    let anyTimeSliced = false;
+    let anyPaginationTruncated = false;
+    const allTruncationReasons = new Set<string>();
+
+    for (const user of users) {
+      const result = workloadsMap.get(user.id);
+      const futureResult = futureMap.get(user.id);
+      if (!result && !futureResult) continue;
+
+      const workloads: PingCodeWorkload[] = result?.workloads ?? [];
+      workloadsCount += workloads.length;
+      for (const r of [result, futureResult]) {
+        if (!r) continue;
+        anyTimeSliced = anyTimeSliced || r.timeSliced;
+        anyPaginationTruncated = anyPaginationTruncated || r.paginationTruncated;
+        for (const reason of r.truncationReasons) {
+          allTruncationReasons.add(reason);
+        }
+      }
+
+      // 前瞻窗口的记录只参与 future_entry
+      const seenIds = new Set(workloads.map(w => w.id));
+      const withFuture = [
+        ...workloads,
+        ...(futureResult?.workloads ?? []).filter(w => !seenIds.has(w.id)),
+      ];
+
+      const findings: AnomalyFinding[] = [];
+      for (const rule of rules) {
+        const ruleWorkloads = rule === 'future_entry' ? withFuture : workloads;
+        findings.push(...this.applyRule(rule, ruleWorkloads, thresholds, futureCutoff));
+      }
+
+      if (findings.length > 0) {
+        findings.sort((a, b) => (a.date ?? '').localeCompare(b.date ?? ''));
+        results.push({ user, findings });
+      }
+    }
+
+    // 4. 异常多的成员排在前面
+    results.sort((a, b) => b.findings.length - a.findings.length || a.user.name.localeCompare(b.user.name));
+
+    const byRule = Object.fromEntries(ANOMALY_RULES.map(r => [r, 0])) as Record<AnomalyRule, number>;
+    for (const r of results) {
+      for (const f of r.findings) {
+        byRule[f.rule]++;
+      }
+    }
+
+    return {
+      summary: {
+        time_range: {
+          start_at: startAt,
+          end_at: endAt,
+        },
+        rules,
+        thresholds,
+        user_count: users.length,
+        flagged_user_count: results.length,
+        finding_count: results.reduce((sum, r) => sum + r.findings.length, 0),
+        by_rule: byRule,
+      },
+      users: results,
+      data_quality: {
+        workloads_count: workloadsCount,
+        unknown_user_matches: unknownUserMatches,
+        time_sliced: anyTimeSliced,
+        pagination_truncated: anyPaginationTruncated,
+        truncation_reasons: allTruncationReasons.size > 0 ? Array.from(allTruncationReasons) : undefined,
+      },
+    };
+  }
+
+  private applyRule(
+    rule: AnomalyRule,
+    workloads: PingCodeWorkload[],
+    thresholds: AnomalyThresholds,
+    futureCutoff: string
+  ): AnomalyFinding[] {
+    switch (rule) {
+      case 'entry_over_hours':
+        return workloads
+          .filter(w => w.duration > thresholds.maxEntryHours)
+          .map(w => ({
+            rule,
+            message: `单条记录 ${round(w.duration)} 小时，超过 ${thresholds.maxEntryHours} 小时`,
+            date: formatTimestamp(w.report_at),
+            hours: round(w.duration),
+            workload_ids: [w.id],
+          }));
+
+      case 'daily_over_hours':
+        return Array.from(this.groupBy(workloads, w => formatTimestamp(w.report_at)))
+          .map(([date, dayWorkloads]) => ({ date, dayWorkloads, hours: this.sumHours(dayWorkloads) }))
+          .filter(d => d.hours > thresholds.maxDailyHours)
+          .map(d => ({
+            rule,
+            message: `当天合计 ${d.hours} 小时，超过 ${thresholds.maxDailyHours} 小时`,
+            date: d.date,
+            hours: d.hours,
+            workload_ids: d.dayWorkloads.map(w => w.id),
+          }));
+
+      case 'weekend_only': {
+        if (workloads.length === 0) return [];
+        const dates = new Set(workloads.map(w => formatTimestamp(w.report_at)));
+        if ([...dates].some(date => workCalendar.isWorkingDay(date))) return [];
+        return [{
+          rule,
+          message: `区间内 ${dates.size} 天的工时全部填报在非工作日`,
+          date: null,
+          hours: this.sumHours(workloads),
+          workload_ids: workloads.map(w => w.id),
+        }];
+      }
+
+      case 'duplicate_entry':
+        return Array.from(this.groupBy(workloads, w => [
+          formatTimestamp(w.report_at),
+          w.work_item?.id ?? '',
+          w.duration,
+          w.type ?? '',
+          (w.description ?? '').trim(),
+        ].join('|')))
+          .filter(([, group]) => group.length > 1)
+          .map(([, group]) => ({
+            rule,
+            message: `${group.length} 条记录的日期、工作项、工时、类型和描述完全相同`,
+            date: formatTimestamp(group[0].report_at),
+            hours: this.sumHours(group),
+            workload_ids: group.map(w => w.id),
+          }));
+
+      case 'future_entry':
+        return workloads
+          .filter(w => formatTimestamp(w.report_at) > futureCutoff)
+          .map(w => ({
+            rule,
+            message: `填报日期晚于今天 ${thresholds.futureDays} 天以上`,
+            date: formatTimestamp(w.report_at),
+            hours: round(w.duration),
+            workload_ids: [w.id],
+          }));
+    }
+  }
+
+  private groupBy(workloads: PingCodeWorkload[], keyOf: (w: PingCodeWorkload) => string): Map<string, PingCodeWorkload[]> {
+    const groups = new Map<string, PingCodeWorkload[]>();
+    for (const w of workloads) {
+      const key = keyOf(w);
+      const group = groups.get(key);
+      if (group) {
+        group.push(w);
+      } else {
+        groups.set(key, [w]);
+      }
+    }
+    return groups;
+  }
+
+  private sumHours(workloads: PingCodeWorkload[]): number {
+    return round(workloads.reduce((sum, w) => sum + w.duration, 0));
+  }
+}
+
+// Singleton instance
+export const anomalyService = new AnomalyService();
@@ -0,0 +1,281 @@
+import { listWorkloadsForUsers } from '../api/endpoints/workloads.js';
+import { userService, type UserInfo } from './userService.js';
+import { formatTimestamp, getIsoWeekKey, getTodayDate, listDatesInRange } from '../utils/timeUtils.js';
+import { workCalendar } from '../utils/calendar.js';
+import { capacityPlan as defaultCapacityPlan, type CapacityPlan } from '../utils/capacity.js';
+
+// 默认阈值：利用率（百分比）高于 110% 视为超负荷，低于 80% 视为不饱和
+export const DEFAULT_OVER_THRESHOLD = 110;
+export const DEFAULT_UNDER_THRESHOLD = 80;
+
+/**
+ * - over: 利用率高于超负荷阈值
+ * - under: 利用率低于不饱和阈值
+ * - normal: 介于两者之间
+ * - no_capacity: 评估期内没有可用工时（全部请假或产能为 0）
+ */
+export type AllocationStatus = 'over' | 'under' | 'normal' | 'no_capacity';
+
+export interface CapacityBucket {
+  available_hours: number;
+  logged_hours: number;
+  /** 已填报工时 / 可用工时（百分比），可用工时为 0 时为 null */
+  utilization: number | null;
+}
+
+export interface WeekCapacity extends CapacityBucket {
+  /** ISO 周（"2026-W05"） */
+  week: string;
+  start_date: string;
+  end_date: string;
+  working_days: number;
+  leave_hours: number;
+}
+
+export interface MemberCapacity extends CapacityBucket {
+  user: UserInfo;
+  daily_capacity: number;
+  working_days: number;
+  leave_hours: number;
+  status: AllocationStatus;
+  weekly: Array<CapacityBucket & { week: string }>;
+}
+
+export interface CapacityResult {
+  summary: CapacityBucket & {
+    time_range: {
+      start_at: number;
+      end_at: number;
+    };
+    /** 实际评估的日期区间（今天及未来日期不参与评估） */
+    evaluated_range: {
+      start_date: string;
+      end_date: string;
+    } | null;
+    working_day_count: number;
+    default_daily_capacity: number;
+    leave_hours: number;
+    user_count: number;
+    over_allocated_count: number;
+    under_allocated_count: number;
+    thresholds: {
+      over: number;
+      under: number;
+    };
+  };
+  members: MemberCapacity[];
+  weekly: WeekCapacity[];
+  data_quality: {
+    workloads_count: number;
+    unknown_user_matches: number;
+    time_sliced: boolean;
+    pagination_truncated: boolean;
+    truncation_reasons?: string[];
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function utilization(logged: number, available: number): number | null {
+  return available > 0 ? Math.round((logged / available) * 1000) / 10 : null;
+}
+
+function allocationStatus(value: number | null, over: number, under: number): AllocationStatus {
+  if (value === null) return 'no_capacity';
+  if (value > over) return 'over';
+  if (value < under) return 'under';
+  return 'normal';
+}
+
+/**
+ * 产能利用率服务 - 对比成员可用工时（工作日 × 每日产能 − 请假）与实际填报工时
+ */
+export class CapacityService {
+  constructor(private readonly plan: CapacityPlan = defaultCapacityPlan) {}
+
+  /**
+   * 计算产能利用率
+   */
+  async getCapacityUtilization(
+    startAt: number,
+    endAt: number,
+    options: {
+      userIds?: string[];
+      overThreshold?: number;
+      underThreshold?: number;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<CapacityResult> {
+    const {
+      userIds,
+      overThreshold = DEFAULT_OVER_THRESHOLD,
+      underThreshold = DEFAULT_UNDER_THRESHOLD,
+      signal,
+    } = options;
+
+    // 1. 确定评估日期：排除今天及未来；可用工时只按工作日计算，填报工时含非工作日加班
+    const today = getTodayDate();
+    const evaluatedDates = listDatesInRange(startAt, endAt).filter(date => date < today);
+    const workingDates = new Set(evaluatedDates.filter(date => workCalendar.isWorkingDay(date)));
+
+    const weekDates = new Map<string, string[]>();
+    for (const date of evaluatedDates) {
+      const week = getIsoWeekKey(date);
+      weekDates.set(week, [...(weekDates.get(week) ?? []), date]);
+    }
+
+    // 2. 获取用户列表
+    let users: UserInfo[];
+    let unknownUserMatches = 0;
+    if (userIds && userIds.length > 0) {
+      const usersMap = await userService.getUsersMap(userIds, signal);
+      users = userIds
+        .map(id => usersMap.get(id))
+        .filter((u): u is UserInfo => u !== undefined);
+      unknownUserMatches = userIds.length - users.length;
+    } else {
+      users = await userService.getAllUsers(signal);
+    }
+
+    // 3. 批量获取工时数据
+    const workloadsMap = evaluatedDates.length > 0 && users.length > 0
+      ? await listWorkloadsForUsers(users.map(u => u.id), startAt, endAt, { signal })
+      : new Map();
+
+    // 4. 逐用户按周累计可用工时和填报工时
+    const members: MemberCapacity[] = [];
+    const teamWeeks = new Map<string, { available: number; leave: number; logged: number }>();
+    let workloadsCount = 0;
+    let anyTimeSliced = false;
+    let anyPaginationTruncated = false;
+    const allTruncationReasons = new Set<string>();
+
+    for (const user of users) {
+      const result = workloadsMap.get(user.id);
+      const dayMap = new Map<string, number>();
+
+      if (result) {
+        workloadsCount += result.workloads.length;
+        anyTimeSliced = anyTimeSliced || result.timeSliced;
+        anyPaginationTruncated = anyPaginationTruncated || result.paginationTruncated;
+        for (const reason of result.truncationReasons) {
+          allTruncationReasons.add(reason);
+        }
+        for (const w of result.workloads) {
+          const date = formatTimestamp(w.report_at);
+          dayMap.set(date, (dayMap.get(date) || 0) + w.duration);
+        }
+      }
+
+      const dailyCapacity = this.plan.dailyCapacity(user);
+      const weekly: MemberCapacity['weekly'] = [];
+      let available = 0;
+      let leave = 0;
+      let logged = 0;
+
+      for (const [week, dates] of weekDates) {
+        let weekAvailable = 0;
+        let weekLeave = 0;
+        let weekLogged = 0;
+        for (const date of dates) {
+          weekLogged += dayMap.get(date) || 0;
+          if (workingDates.has(date)) {
+            const leaveHours = this.plan.leaveHours(user, date);
+            weekLeave += leaveHours;
+            weekAvailable += dailyCapacity - leaveHours;
+          }
+        }
+
+        weekly.push({
+          week,
+          available_hours: round(weekAvailable),
+          logged_hours: round(weekLogged),
+          utilization: utilization(weekLogged, weekAvailable),
+        });
+        available += weekAvailable;
+        leave += weekLeave;
+        logged += weekLogged;
+
+        const team = teamWeeks.get(week) ?? { available: 0, leave: 0, logged: 0 };
+        team.available += weekAvailable;
+        team.leave += weekLeave;
+        team.logged += weekLogged;
+        teamWeeks.set(week, team);
+      }
+
+      const memberUtilization = utilization(logged, available);
+      members.push({
+        user,
+        daily_capacity: dailyCapacity,
+        working_days: workingDates.size,
+        leave_hours: round(leave),
+        available_hours: round(available),
+        logged_hours: round(logged),
+        utilization: memberUtilization,
+        status: allocationStatus(memberUtilization, overThreshold, underThreshold),
+        weekly,
+      });
+    }
+
+    // 5. 利用率高的排在前面（无可用工时的排最后）
+    members.sort((a, b) =>
+      (b.utilization ?? -1) - (a.utilization ?? -1) || a.user.name.localeCompare(b.user.name)
+    );
+
+    const weekly: WeekCapacity[] = Array.from(weekDates, ([week, dates]) => {
+      const team = teamWeeks.get(week) ?? { available: 0, leave: 0, logged: 0 };
+      return {
+        week,
+        start_date: dates[0],
+        end_date: dates[dates.length - 1],
+        working_days: dates.filter(d => workingDates.has(d)).length,
+        leave_hours: round(team.leave),
+        available_hours: round(team.available),
+        logged_hours: round(team.logged),
+        utilization: utilization(team.logged, team.available),
+      };
+    });
+
+    const totalAvailable = members.reduce((sum, m) => sum + m.available_hours, 0);
+    const totalLogged = members.reduce((sum, m) => sum + m.logged_hours, 0);
+
+    return {
+      summary: {
+        time_range: {
+          start_at: startAt,
+          end_at: endAt,
+        },
+        evaluated_range: evaluatedDates.length > 0
+          ? { start_date: evaluatedDates[0], end_date: evaluatedDates[evaluatedDates.length - 1] }
+          : null,
+        working_day_count: workingDates.size,
+        default_daily_capacity: this.plan.defaultDailyHours,
+        user_count: members.length,
+        leave_hours: round(members.reduce((sum, m) => sum + m.leave_hours, 0)),
+        available_hours: round(totalAvailable),
+        logged_hours: round(totalLogged),
+        utilization: utilization(totalLogged, totalAvailable),
+        over_allocated_count: members.filter(m => m.status === 'over').length,
+        under_allocated_count: members.filter(m => m.status === 'under').length,
+        thresholds: {
+          over: overThreshold,
+          under: underThreshold,
+        },
+      },
+      members,
+      weekly,
+      data_quality: {
+        workloads_count: workloadsCount,
+        unknown_user_matches: unknownUserMatches,
+        time_sliced: anyTimeSliced,
+        pagination_truncated: anyPaginationTruncated,
+        truncation_reasons: allTruncationReasons.size > 0 ? Array.from(allTruncationReasons) : undefined,
+      },
+    };
+  }
+}
+
+// Singleton instance
+export const capacityService = new CapacityService();
@@ -0,0 +1,199 @@
+import { listWorkloadsForUsers } from '../api/endpoints/workloads.js';
+import { config } from '../config/index.js';
+import { userService, type UserInfo } from './userService.js';
+import { formatTimestamp, getTodayDate, listDatesInRange } from '../utils/timeUtils.js';
+import { workCalendar } from '../utils/calendar.js';
+
+export interface UnderFilledDay {
+  date: string;
+  hours: number;
+  shortfall: number;
+}
+
+export interface UserCompliance {
+  user: UserInfo;
+  /** 评估期内应填报工时 */
+  expected_hours: number;
+  /** 评估期内工作日实际填报工时（非工作日填报不计入） */
+  logged_hours: number;
+  working_days: number;
+  compliant_days: number;
+  missing_days: string[];
+  under_filled_days: UnderFilledDay[];
+  /** 达标天数 / 工作日天数（0~1） */
+  compliance_rate: number;
+}
+
+export interface ComplianceSummary {
+  time_range: {
+    start_at: number;
+    end_at: number;
+  };
+  /** 实际评估的日期区间（今天及未来日期不参与评估） */
+  evaluated_range: {
+    start_date: string;
+    end_date: string;
+  } | null;
+  expected_daily_hours: number;
+  working_weekdays: number[];
+  working_day_count: number;
+  user_count: number;
+  fully_compliant_count: number;
+  average_compliance_rate: number;
+}
+
+export interface ComplianceResult {
+  summary: ComplianceSummary;
+  users: UserCompliance[];
+  data_quality: {
+    workloads_count: number;
+    unknown_user_matches: number;
+    time_sliced: boolean;
+    pagination_truncated: boolean;
+    truncation_reasons?: string[];
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 填报合规服务 - 检查成员是否按工作日足额填报工时
+ */
+export class ComplianceService {
+  /**
+   * 计算填报合规情况
+   */
+  async getTimesheetCompliance(
+    startAt: number,
+    endAt: number,
+    options: {
+      userIds?: string[];
+      expectedDailyHours?: number;
+      workingDays?: number[];
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<ComplianceResult> {
+    const {
+      userIds,
+      expectedDailyHours = config.timesheet.expectedDailyHours,
+      workingDays,
+      signal,
+    } = options;
+
+    // 1. 确定评估日期：范围内的工作日（含节假日/调休），排除今天及未来（当天可能尚未填报）
+    const calendar = workingDays ? workCalendar.withWorkingWeekdays(workingDays) : workCalendar;
+    const today = getTodayDate();
+    const evaluatedDates = listDatesInRange(startAt, endAt)
+      .filter(date => date < today && calendar.isWorkingDay(date));
+
+    // 2. 获取用户列表
+    let users: UserInfo[];
+    let unknownUserMatches = 0;
+    if (userIds && userIds.length > 0) {
+      const usersMap = await userService.getUsersMap(userIds, signal);
+      users = userIds
+        .map(id => usersMap.get(id))
+        .filter((u): u is UserInfo => u !== undefined);
+      unknownUserMatches = userIds.length - users.length;
+    } else {
+      users = await userService.getAllUsers(signal);
+    }
+
+    // 3. 批量获取工时数据
+    const workloadsMap = evaluatedDates.length > 0 && users.length > 0
+      ? await listWorkloadsForUsers(users.map(u => u.id), startAt, endAt, { signal })
+      : new Map();
+
+    // 4. 逐用户比对每个工作日的填报工时
+    const results: UserCompliance[] = [];
+    let workloadsCount = 0;
+    let anyTimeSliced = false;
+    let anyPaginationTruncated = false;
+    const allTruncationReasons = new Set<string>();
+
+    for (const user of users) {
+      const result = workloadsMap.get(user.id);
+      const dayMap = new Map<string, number>();
+
+      if (result) {
+        workloadsCount += result.workloads.length;
+        anyTimeSliced = anyTimeSliced || result.timeSliced;
+        anyPaginationTruncated = anyPaginationTruncated || result.paginationTruncated;
+        for (const reason of result.truncationReasons) {
+          allTruncationReasons.add(reason);
+        }
+        for (const w of result.workloads) {
+          const date = formatTimestamp(w.report_at);
+          dayMap.set(date, (dayMap.get(date) || 0) + w.duration);
+        }
+      }
+
+      const missingDays: string[] = [];
+      const underFilledDays: UnderFilledDay[] = [];
+      let loggedHours = 0;
+
+      for (const date of evaluatedDates) {
+        const hours = round(dayMap.get(date) || 0);
+        loggedHours += hours;
+        if (hours === 0) {
+          missingDays.push(date);
+        } else if (hours < expectedDailyHours) {
+          underFilledDays.push({ date, hours, shortfall: round(expectedDailyHours - hours) });
+        }
+      }
+
+      const compliantDays = evaluatedDates.length - missingDays.length - underFilledDays.length;
+
+      results.push({
+        user,
+        expected_hours: round(expectedDailyHours * evaluatedDates.length),
+        logged_hours: round(loggedHours),
+        working_days: evaluatedDates.length,
+        compliant_days: compliantDays,
+        missing_days: missingDays,
+        under_filled_days: underFilledDays,
+        compliance_rate: evaluatedDates.length > 0
+          ? round(compliantDays / evaluatedDates.length)
+          : 1,
+      });
+    }
+
+    // 5. 合规率低的排在前面
+    results.sort((a, b) => a.compliance_rate - b.compliance_rate || a.user.name.localeCompare(b.user.name));
+
+    const averageRate = results.length > 0
+      ? round(results.reduce((sum, r) => sum + r.compliance_rate, 0) / results.length)
+      : 1;
+
+    return {
+      summary: {
+        time_range: {
+          start_at: startAt,
+          end_at: endAt,
+        },
+        evaluated_range: evaluatedDates.length > 0
+          ? { start_date: evaluatedDates[0], end_date: evaluatedDates[evaluatedDates.length - 1] }
+          : null,
+        expected_daily_hours: expectedDailyHours,
+        working_weekdays: calendar.workingWeekdays,
+        working_day_count: evaluatedDates.length,
+        user_count: results.length,
+        fully_compliant_count: results.filter(r => r.compliance_rate === 1).length,
+        average_compliance_rate: averageRate,
+      },
+      users: results,
+      data_quality: {
+        workloads_count: workloadsCount,
+        unknown_user_matches: unknownUserMatches,
+        time_sliced: anyTimeSliced,
+        pagination_truncated: anyPaginationTruncated,
+        truncation_reasons: allTruncationReasons.size > 0 ? Array.from(allTruncationReasons) : undefined,
+      },
+    };
+  }
+}
+
+// Singleton instance
+export const complianceService = new ComplianceService();
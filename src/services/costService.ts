@@ -0,0 +1,182 @@
+import { workloadService, type TeamWorkResult, type TeamWorkloadDetail } from './workloadService.js';
+import type { ProjectInfo } from './workItemService.js';
+import type { UserInfo } from './userService.js';
+import { rateCard as defaultRateCard, type RateCard, type RateSource } from '../utils/rateCard.js';
+
+// 成本统计需要逐条明细计算，明细上限放宽到与单次拉取上限一致
+const COST_MAX_DETAILS = 50000;
+
+/** 金额按币种分别汇总（费率卡可能混用多种币种） */
+export type CostByCurrency = Record<string, number>;
+
+export interface CostBucket {
+  hours: number;
+  /** 没有适用费率、未计入成本的工时 */
+  unrated_hours: number;
+  cost: CostByCurrency;
+}
+
+export interface MemberCost extends CostBucket {
+  user: UserInfo;
+  /** 本期用到的费率（按首次出现顺序去重） */
+  rates: Array<{ rate: number; currency: string; source: RateSource }>;
+}
+
+export interface ProjectCost extends CostBucket {
+  project: ProjectInfo;
+}
+
+export interface MonthCost extends CostBucket {
+  month: string;
+}
+
+export interface UnratedEntry {
+  workload_id: string;
+  date: string;
+  hours: number;
+  user: UserInfo;
+  project: ProjectInfo | null;
+}
+
+export interface LaborCost {
+  total: CostBucket;
+  by_member: MemberCost[];
+  by_project: ProjectCost[];
+  by_month: MonthCost[];
+  unrated_entries: UnratedEntry[];
+}
+
+export interface CostReport {
+  cost: LaborCost;
+  result: TeamWorkResult;
+}
+
+const UNKNOWN_PROJECT: ProjectInfo = { id: null, identifier: null, name: 'Unknown' };
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyBucket(): CostBucket {
+  return { hours: 0, unrated_hours: 0, cost: {} };
+}
+
+function addToBucket(bucket: CostBucket, hours: number, rate: { rate: number; currency: string } | null): void {
+  bucket.hours += hours;
+  if (rate) {
+    bucket.cost[rate.currency] = (bucket.cost[rate.currency] ?? 0) + hours * rate.rate;
+  } else {
+    bucket.unrated_hours += hours;
+  }
+}
+
+function finalizeBucket<T extends CostBucket>(bucket: T): T {
+  bucket.hours = round(bucket.hours);
+  bucket.unrated_hours = round(bucket.unrated_hours);
+  for (const currency of Object.keys(bucket.cost)) {
+    bucket.cost[currency] = round(bucket.cost[currency]);
+  }
+  return bucket;
+}
+
+/**
+ * 按费率卡计算明细的人工成本（纯函数）
+ *
+ * 每条明细按填报日期匹配成员当日适用的费率；没有费率的明细计入 unrated_hours
+ * 并逐条列出。成员、项目按工时降序，月份按时间升序。
+ */
+export function computeLaborCost(details: TeamWorkloadDetail[], card: RateCard): LaborCost {
+  const total = emptyBucket();
+  const members = new Map<string, MemberCost>();
+  const projects = new Map<string, ProjectCost>();
+  const months = new Map<string, MonthCost>();
+  const unratedEntries: UnratedEntry[] = [];
+
+  for (const detail of details) {
+    const rate = card.findRate(detail.user, detail.date);
+
+    addToBucket(total, detail.hours, rate);
+
+    const member = members.get(detail.user.id) ?? { user: detail.user, rates: [], ...emptyBucket() };
+    addToBucket(member, detail.hours, rate);
+    if (rate && !member.rates.some(r => r.rate === rate.rate && r.currency === rate.currency && r.source === rate.source)) {
+      member.rates.push(rate);
+    }
+    members.set(detail.user.id, member);
+
+    const project = detail.project ?? UNKNOWN_PROJECT;
+    const projectKey = project.id ?? 'unknown';
+    const projectCost = projects.get(projectKey) ?? { project, ...emptyBucket() };
+    addToBucket(projectCost, detail.hours, rate);
+    projects.set(projectKey, projectCost);
+
+    const month = detail.date.slice(0, 7);
+    const monthCost = months.get(month) ?? { month, ...emptyBucket() };
+    addToBucket(monthCost, detail.hours, rate);
+    months.set(month, monthCost);
+
+    if (!rate) {
+      unratedEntries.push({
+        workload_id: detail.workload_id,
+        date: detail.date,
+        hours: detail.hours,
+        user: detail.user,
+        project: detail.project,
+      });
+    }
+  }
+
+  return {
+    total: finalizeBucket(total),
+    by_member: Array.from(members.values()).map(finalizeBucket).sort((a, b) => b.hours - a.hours),
+    by_project: Array.from(projects.values()).map(finalizeBucket).sort((a, b) => b.hours - a.hours),
+    by_month: Array.from(months.values()).map(finalizeBucket).sort((a, b) => a.month.localeCompare(b.month)),
+    unrated_entries: unratedEntries.sort((a, b) => a.date.localeCompare(b.date) || a.workload_id.localeCompare(b.workload_id)),
+  };
+}
+
+/**
+ * 成本服务 - 基于团队工时明细和费率卡统计人工成本
+ */
+export class CostService {
+  constructor(private readonly card: RateCard = defaultRateCard) {}
+
+  /**
+   * 是否配置了费率卡
+   */
+  get hasRateCard(): boolean {
+    return !this.card.isEmpty;
+  }
+
+  /**
+   * 统计时间范围内的人工成本
+   */
+  async getCostSummary(
+    startAt: number,
+    endAt: number,
+    options: {
+      userIds?: string[];
+      projectId?: string;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<CostReport> {
+    const { userIds, projectId, signal } = options;
+
+    const result = await workloadService.getTeamWorkSummary(startAt, endAt, {
+      userIds,
+      projectId,
+      groupBy: 'user',
+      includeZeroUsers: false,
+      maxDetails: COST_MAX_DETAILS,
+      signal,
+    });
+
+    return {
+      cost: computeLaborCost(result.details, this.card),
+      result,
+    };
+  }
+}
+
+// Singleton instance
+export const costService = new CostService();
@@ -0,0 +1,235 @@
+import { listWorkloads, createFetchBudget, type WorkloadsResult } from '../api/endpoints/workloads.js';
+import { workItemService, type WorkItemInfo, type ProjectInfo } from './workItemService.js';
+
+export interface WorkItemEstimate {
+  work_item: WorkItemInfo;
+  /** 预估工时（工作项字段，不受时间范围影响） */
+  estimated_hours: number | null;
+  remaining_hours: number | null;
+  /** 时间范围内实际登记的工时 */
+  actual_hours: number;
+  /** 实际 - 预估，未填写预估时为 null */
+  variance_hours: number | null;
+  /** 实际 / 预估，未填写预估时为 null */
+  overrun_ratio: number | null;
+  over_estimate: boolean;
+}
+
+export interface EstimateTotals {
+  item_count: number;
+  estimated_item_count: number;
+  over_estimate_count: number;
+  estimated_hours: number;
+  /** 已填写预估的工作项上的实际工时（overrun_ratio 的分子） */
+  actual_hours: number;
+  /** 未填写预估的工作项上的实际工时 */
+  unestimated_hours: number;
+  overrun_ratio: number | null;
+}
+
+export interface ProjectEstimate extends EstimateTotals {
+  project: ProjectInfo;
+}
+
+export interface EstimateResult {
+  summary: EstimateTotals & {
+    time_range: {
+      start_at: number;
+      end_at: number;
+    };
+  };
+  items: WorkItemEstimate[];
+  by_project: ProjectEstimate[];
+  data_quality: {
+    workloads_count: number;
+    missing_work_item_count: number;
+    time_sliced: boolean;
+    pagination_truncated: boolean;
+    truncation_reasons?: string[];
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 预估工时分析服务 - 对比工作项预估工时与实际登记工时
+ */
+export class EstimateService {
+  /**
+   * 计算时间范围内有工时记录的工作项的预估 vs 实际
+   *
+   * 实际工时只统计时间范围内的记录；预估工时取工作项当前字段值。
+   * 工时记录全部走服务端过滤：指定工作项时逐项按 principal 查询，否则按项目（pilot_id）查询，
+   * 二者都未指定时抛出异常（不做全企业工时的无过滤拉取）。
+   */
+  async getEstimateVsActual(
+    startAt: number,
+    endAt: number,
+    options: {
+      projectId?: string;
+      workItemIds?: string[];
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<EstimateResult> {
+    const { projectId, workItemIds, signal } = options;
+
+    // 1. 获取工时记录（服务端过滤）
+    const workloadsResult = await this.fetchWorkloads(startAt, endAt, { projectId, workItemIds, signal });
+    // 预估工时只存在于工作项（想法、测试用例的工时不参与对比）
+    const workloads = workloadsResult.workloads.filter(w => w.work_item?.principal_type === 'work_item');
+
+    // 2. 按工作项汇总实际工时
+    const actualByItem = new Map<string, number>();
+    for (const w of workloads) {
+      if (!w.work_item) continue;
+      const id = w.work_item.id;
+      actualByItem.set(id, (actualByItem.get(id) ?? 0) + w.duration);
+    }
+
+    // 3. 获取工作项详情（含预估/剩余工时）
+    const { workItems, missingCount } = await workItemService.enrichWorkloadsWithWorkItems(workloads, signal);
+
+    const items: WorkItemEstimate[] = [];
+    for (const [id, actual] of actualByItem) {
+      const workItem = workItems.get(id);
+      if (!workItem) continue;
+      items.push(this.buildItemEstimate(workItem, actual));
+    }
+
+    // 超支比例降序，未填写预估的排在最后（按实际工时降序）
+    items.sort((a, b) =>
+      (b.overrun_ratio ?? -1) - (a.overrun_ratio ?? -1) || b.actual_hours - a.actual_hours
+    );
+
+    // 4. 按项目汇总
+    const itemsByProject = new Map<string, { project: ProjectInfo; items: WorkItemEstimate[] }>();
+    for (const item of items) {
+      const key = item.work_item.project.id ?? item.work_item.project.name;
+      const group = itemsByProject.get(key);
+      if (group) {
+        group.items.push(item);
+      } else {
+        itemsByProject.set(key, { project: item.work_item.project, items: [item] });
+      }
+    }
+    const byProject = Array.from(itemsByProject.values())
+      .map(g => ({ project: g.project, ...this.computeTotals(g.items) }))
+      .sort((a, b) => (b.overrun_ratio ?? -1) - (a.overrun_ratio ?? -1));
+
+    return {
+      summary: {
+        time_range: { start_at: startAt, end_at: endAt },
+        ...this.computeTotals(items),
+      },
+      items,
+      by_project: byProject,
+      data_quality: {
+        workloads_count: workloads.length,
+        missing_work_item_count: missingCount,
+        time_sliced: workloadsResult.timeSliced,
+        pagination_truncated: workloadsResult.paginationTruncated,
+        truncation_reasons: workloadsResult.truncationReasons.length > 0
+          ? workloadsResult.truncationReasons
+          : undefined,
+      },
+    };
+  }
+
+  /**
+   * 获取工时记录：指定工作项时逐项按 principal_type=work_item 查询（共享熔断预算），否则按项目查询
+   */
+  private async fetchWorkloads(
+    startAt: number,
+    endAt: number,
+    options: { projectId?: string; workItemIds?: string[]; signal?: AbortSignal }
+  ): Promise<WorkloadsResult> {
+    const { projectId, workItemIds, signal } = options;
+
+    if (!workItemIds || workItemIds.length === 0) {
+      if (!projectId) {
+        throw new Error('estimate_vs_actual requires projectId or workItemIds');
+      }
+      return listWorkloads({ startAt, endAt, projectId, signal });
+    }
+
+    const merged: WorkloadsResult = {
+      workloads: [],
+      totalCount: 0,
+      timeSliced: false,
+      paginationTruncated: false,
+      truncationReasons: [],
+    };
+    const budget = createFetchBudget();
+    const seenIds = new Set<string>();
+
+    for (const workItemId of new Set(workItemIds)) {
+      if (budget.exhausted || signal?.aborted) {
+        merged.paginationTruncated = true;
+        merged.truncationReasons.push(budget.exhausted ? 'circuit_breaker' : 'signal_aborted');
+        break;
+      }
+      const result = await listWorkloads({
+        startAt,
+        endAt,
+        projectId,
+        principalType: 'work_item',
+        principalId: workItemId,
+        signal,
+        budget,
+      });
+      for (const w of result.workloads) {
+        if (seenIds.has(w.id)) continue;
+        seenIds.add(w.id);
+        merged.workloads.push(w);
+      }
+      merged.timeSliced = merged.timeSliced || result.timeSliced;
+      merged.paginationTruncated = merged.paginationTruncated || result.paginationTruncated;
+      merged.truncationReasons.push(...result.truncationReasons);
+    }
+
+    merged.totalCount = merged.workloads.length;
+    merged.truncationReasons = Array.from(new Set(merged.truncationReasons));
+    return merged;
+  }
+
+  private buildItemEstimate(workItem: WorkItemInfo, actual: number): WorkItemEstimate {
+    const estimated = workItem.estimated_workload && workItem.estimated_workload > 0
+      ? workItem.estimated_workload
+      : null;
+    const actualHours = round(actual);
+
+    return {
+      work_item: workItem,
+      estimated_hours: estimated,
+      remaining_hours: workItem.remaining_workload ?? null,
+      actual_hours: actualHours,
+      variance_hours: estimated !== null ? round(actualHours - estimated) : null,
+      overrun_ratio: estimated !== null ? round(actualHours / estimated) : null,
+      over_estimate: estimated !== null && actualHours > estimated,
+    };
+  }
+
+  private computeTotals(items: WorkItemEstimate[]): EstimateTotals {
+    const estimatedItems = items.filter(i => i.estimated_hours !== null);
+    const estimatedHours = round(estimatedItems.reduce((sum, i) => sum + (i.estimated_hours ?? 0), 0));
+    const actualHours = round(estimatedItems.reduce((sum, i) => sum + i.actual_hours, 0));
+    const unestimatedHours = round(
+      items.filter(i => i.estimated_hours === null).reduce((sum, i) => sum + i.actual_hours, 0)
+    );
+
+    return {
+      item_count: items.length,
+      estimated_item_count: estimatedItems.length,
+      over_estimate_count: items.filter(i => i.over_estimate).length,
+      estimated_hours: estimatedHours,
+      actual_hours: actualHours,
+      unestimated_hours: unestimatedHours,
+      overrun_ratio: estimatedHours > 0 ? round(actualHours / estimatedHours) : null,
+    };
+  }
+}
+
+// Singleton instance
+export const estimateService = new EstimateService();
@@ -1,3 +1,10 @@
 export * from './userService.js';
 export * from './workItemService.js';
 export * from './workloadService.js';
+export * from './projectService.js';
+export * from './complianceService.js';
+export * from './estimateService.js';
+export * from './anomalyService.js';
+export * from './reportService.js';
+export * from './costService.js';
+export * from './capacityService.js';
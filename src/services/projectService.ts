@@ -0,0 +1,149 @@
+import {
+  getProject,
+  getProjectByIdentifier,
+  listProjects,
+  matchProjectByName,
+} from '../api/endpoints/projects.js';
+import { PingCodeApiError } from '../api/client.js';
+import type { PingCodeProject } from '../api/types.js';
+import type { ProjectInfo } from './workItemService.js';
+import { config } from '../config/index.js';
+import { sanitizeName } from '../utils/sanitize.js';
+import { logger } from '../utils/logger.js';
+
+// 按 ID 查询项目时视同未命中的上游状态码
+const ID_MISS_STATUSES = new Set([400, 401, 403]);
+
+export interface ProjectMatchResult {
+  project: ProjectInfo | null;
+  candidates: Array<{
+    project: ProjectInfo;
+    matchType: 'exact' | 'contains' | 'fuzzy';
+  }>;
+  ambiguous: boolean;
+}
+
+/**
+ * 项目服务 - 封装项目相关业务逻辑
+ */
+export class ProjectService {
+  /**
+   * 获取所有项目
+   */
+  async getAllProjects(signal?: AbortSignal): Promise<ProjectInfo[]> {
+    const projects = await listProjects(signal);
+    return projects.map(p => this.toProjectInfo(p));
+  }
+
+  /**
+   * 根据 ID 获取项目
+   */
+  async getProject(projectId: string, signal?: AbortSignal): Promise<ProjectInfo | null> {
+    const project = await getProject(projectId, signal);
+    return project ? this.toProjectInfo(project) : null;
+  }
+
+  /**
+   * 根据项目名称或标识匹配项目
+   */
+  async matchProject(
+    name: string,
+    strategy?: 'strict' | 'best' | 'prompt',
+    signal?: AbortSignal
+  ): Promise<ProjectMatchResult> {
+    const result = await matchProjectByName(name, strategy, signal);
+
+    return {
+      project: result.matched ? this.toProjectInfo(result.matched) : null,
+      candidates: result.candidates.map(c => ({
+        project: this.toProjectInfo(c.project),
+        matchType: c.matchType,
+      })),
+      ambiguous: result.ambiguous,
+    };
+  }
+
+  /**
+   * 解析项目输入（支持 ID、标识如 "PROJ"、或项目名称）
+   */
+  async resolveProject(
+    input: { id?: string; identifier?: string; name?: string },
+    signal?: AbortSignal
+  ): Promise<ProjectMatchResult> {
+    if (input.id) {
+      return this.exactResult(await this.getProject(input.id, signal));
+    }
+
+    if (input.identifier) {
+      const project = await getProjectByIdentifier(input.identifier, signal);
+      return this.exactResult(project ? this.toProjectInfo(project) : null);
+    }
+
+    if (input.name) {
+      return this.matchProject(input.name, undefined, signal);
+    }
+
+    return this.exactResult(null);
+  }
+
+  /**
+   * 解析单个字符串形式的项目引用：先按 ID 直接查询，未命中再按标识/名称在项目目录中匹配
+   *
+   * 用于只接受一个 project_id 参数的工具，使 LLM 可以直接传入项目名称或标识。
+   * - 项目目录获取失败（如 user token 无列表权限）时按标识做服务端查询，不影响按 ID 过滤
+   * - user token 模式下不返回候选项目，避免借歧义结果枚举企业项目目录
+   */
+  async resolveProjectRef(ref: string, signal?: AbortSignal): Promise<ProjectMatchResult> {
+    // 名称、标识等非 ID 形式的引用可能被上游判为非法 ID（400），user token 无权读取时返回 401/403，
+    // 均视同未命中，继续按目录/标识匹配
+    const byId = await this.getProject(ref, signal).catch(error => {
+      if (error instanceof PingCodeApiError && ID_MISS_STATUSES.has(error.status)) return null;
+      throw error;
+    });
+    if (byId) {
+      return this.exactResult(byId);
+    }
+
+    let matched: ProjectMatchResult;
+    try {
+      matched = await this.matchProject(ref, undefined, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn({ error, ref }, 'Project directory unavailable, falling back to identifier lookup');
+      const byIdentifier = await getProjectByIdentifier(ref, signal).catch(() => null);
+      return this.exactResult(byIdentifier ? this.toProjectInfo(byIdentifier) : null);
+    }
+
+    if (config.pingcode.tokenMode === 'user') {
+      return {
+        project: matched.ambiguous ? null : matched.project,
+        candidates: matched.ambiguous ? [] : matched.candidates.filter(c => c.project.id === matched.project?.id),
+        ambiguous: matched.ambiguous,
+      };
+    }
+    return matched;
+  }
+
+  private exactResult(project: ProjectInfo | null): ProjectMatchResult {
+    return {
+      project,
+      candidates: project ? [{ project, matchType: 'exact' }] : [],
+      ambiguous: false,
+    };
+  }
+
+  /**
+   * 转换为 ProjectInfo 格式
+   */
+  private toProjectInfo(project: PingCodeProject): ProjectInfo {
+    return {
+      id: project.id,
+      identifier: project.identifier,
+      name: sanitizeName(project.name) ?? '',
+      type: project.type,
+    };
+  }
+}
+
+// Singleton instance
+export const projectService = new ProjectService();
@@ -0,0 +1,223 @@
+import { workloadService, type TeamWorkResult, type HoursByProject } from './workloadService.js';
+import { formatTimestamp } from '../utils/timeUtils.js';
+
+// 周报统计工作项描述时使用的明细上限（JSON 输出为 500 行）
+const REPORT_MAX_DETAILS = 20000;
+
+// 每个工作项在周报中最多展示的工作内容条数
+const MAX_DESCRIPTIONS_PER_ITEM = 3;
+
+export interface WeeklyReportScope {
+  /** 部门名称（用于报告标题下的范围说明） */
+  department?: string;
+  /** 项目名称（用于报告标题下的范围说明） */
+  project?: string;
+}
+
+export interface WeeklyReport {
+  markdown: string;
+  result: TeamWorkResult;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 1000) / 10}%` : '0%';
+}
+
+/**
+ * 转义 Markdown 表格单元格（竖线、换行）
+ */
+export function escapeMarkdownCell(text: string | null | undefined): string {
+  return (text ?? '').replace(/\|/g, '\\|').replace(/\s*[\r\n]+\s*/g, ' ').trim();
+}
+
+function table(header: string[], align: Array<'left' | 'right'>, rows: string[][]): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${align.map(a => (a === 'right' ? '---:' : '---')).join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ];
+}
+
+function projectLabel(p: HoursByProject): string {
+  const { identifier, name } = p.project;
+  return identifier ? `${name} (${identifier})` : name;
+}
+
+/**
+ * 将团队工时结果渲染为 Markdown 周报（纯函数，相同输入输出相同）
+ */
+export function renderWeeklyReport(result: TeamWorkResult, options: { topN: number; scope?: WeeklyReportScope }): string {
+  const { summary, details, data_quality: dataQuality } = result;
+  const { topN, scope = {} } = options;
+  const start = formatTimestamp(summary.time_range.start_at);
+  const end = formatTimestamp(summary.time_range.end_at);
+
+  const activeMembers = summary.members.filter(m => m.total_hours > 0);
+  const zeroMembers = summary.members.filter(m => m.total_hours === 0);
+  const lines: string[] = [`# 团队工时周报（${start} ~ ${end}）`, ''];
+
+  const scopeParts = [
+    scope.department ? `部门：${scope.department}` : null,
+    scope.project ? `项目：${scope.project}` : null,
+  ].filter((s): s is string => s !== null);
+  if (scopeParts.length > 0) {
+    lines.push(`> ${scopeParts.join('；')}`, '');
+  }
+
+  // 1. 概览
+  lines.push(
+    '## 概览',
+    '',
+    `- 总工时：${summary.total_hours} 小时`,
+    `- 成员数：${summary.user_count}（有工时 ${activeMembers.length}，零工时 ${zeroMembers.length}）`,
+    `- 人均工时：${summary.user_count > 0 ? round(summary.total_hours / summary.user_count) : 0} 小时`,
+    `- 工时记录：${dataQuality.workloads_count} 条`,
+  );
+  // 未启用工时审批时（全部为 none）不输出审批行
+  const review = summary.by_review_state;
+  if (review.approved + review.pending + review.rejected > 0) {
+    lines.push(`- 审批：已通过 ${round(review.approved)} 小时，待审批 ${round(review.pending)} 小时，已驳回 ${round(review.rejected)} 小时`);
+  }
+  lines.push('');
+
+  // 2. 成员工时
+  lines.push('## 成员工时', '');
+  if (activeMembers.length > 0) {
+    lines.push(...table(
+      ['成员', '部门', '工时', '占比', '主要项目'],
+      ['left', 'left', 'right', 'right', 'left'],
+      activeMembers.map(m => [
+        escapeMarkdownCell(m.user.display_name),
+        escapeMarkdownCell(m.user.department ?? '-'),
+        String(m.total_hours),
+        percent(m.total_hours, summary.total_hours),
+        escapeMarkdownCell((m.top_projects ?? []).slice(0, 3).map(p => `${p.project.name} ${p.hours}h`).join('、')),
+      ]),
+    ), '');
+  } else {
+    lines.push('本期没有成员填报工时。', '');
+  }
+
+  // 3. 项目投入
+  const projects = (summary.by_project ?? []).slice(0, topN);
+  if (projects.length > 0) {
+    lines.push(`## 项目投入 Top ${topN}`, '');
+    lines.push(...table(
+      ['项目', '工时', '占比'],
+      ['left', 'right', 'right'],
+      projects.map(p => [escapeMarkdownCell(projectLabel(p)), String(p.hours), percent(p.hours, summary.total_hours)]),
+    ), '');
+  }
+
+  // 4. 重点工作项（工作内容取自工时描述，按首次出现顺序去重）
+  const workItems = (summary.by_work_item ?? []).slice(0, topN);
+  if (workItems.length > 0) {
+    const notes = new Map<string, { members: Set<string>; descriptions: string[] }>();
+    for (const d of details) {
+      if (!d.work_item) continue;
+      const note = notes.get(d.work_item.id) ?? { members: new Set<string>(), descriptions: [] };
+      note.members.add(d.user.display_name);
+      const description = d.description?.trim();
+      if (description && !note.descriptions.includes(description)) {
+        note.descriptions.push(description);
+      }
+      notes.set(d.work_item.id, note);
+    }
+
+    lines.push(`## 重点工作项 Top ${topN}`, '');
+    lines.push(...table(
+      ['工作项', '标题', '工时', '成员', '工作内容'],
+      ['left', 'left', 'right', 'left', 'left'],
+      workItems.map(w => {
+        const note = notes.get(w.work_item.id);
+        return [
+          escapeMarkdownCell(w.work_item.identifier),
+          escapeMarkdownCell(w.work_item.title),
+          String(w.hours),
+          escapeMarkdownCell(note ? [...note.members].join('、') : '-'),
+          escapeMarkdownCell(note?.descriptions.slice(0, MAX_DESCRIPTIONS_PER_ITEM).join('；') || '-'),
+        ];
+      }),
+    ), '');
+  }
+
+  // 5. 零工时成员
+  lines.push('## 零工时成员', '');
+  if (zeroMembers.length > 0) {
+    lines.push(...zeroMembers.map(m => `- ${m.user.display_name}${m.user.department ? `（${m.user.department}）` : ''}`), '');
+  } else {
+    lines.push('无', '');
+  }
+
+  // 6. 数据说明
+  const caveats = dataQualityCaveats(dataQuality);
+  if (caveats.length > 0) {
+    lines.push('## 数据说明', '', ...caveats.map(c => `- ⚠️ ${c}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+function dataQualityCaveats(dataQuality: TeamWorkResult['data_quality']): string[] {
+  const caveats: string[] = [];
+  if (dataQuality.pagination_truncated) {
+    caveats.push(dataQuality.truncation_reasons?.includes('fetch_error')
+      ? '部分数据获取失败（上游 API 错误），以上工时为下限，结论仅供参考。'
+      : '工时记录分页被截断，以上工时可能偏少。');
+  }
+  if (dataQuality.details_truncated) {
+    caveats.push('工时明细超过上限，重点工作项的工作内容和成员可能不完整。');
+  }
+  if (dataQuality.missing_work_item_count > 0) {
+    caveats.push(`${dataQuality.missing_work_item_count} 个工作项详情获取失败，相关工时的项目归属可能不准确。`);
+  }
+  if (dataQuality.unknown_user_matches > 0) {
+    caveats.push(`${dataQuality.unknown_user_matches} 个指定的成员 ID 未找到，未计入报告。`);
+  }
+  return caveats;
+}
+
+/**
+ * 周报服务 - 基于团队工时汇总生成 Markdown 周报
+ */
+export class ReportService {
+  /**
+   * 生成团队周报
+   */
+  async generateWeeklyReport(
+    startAt: number,
+    endAt: number,
+    options: {
+      userIds?: string[];
+      projectId?: string;
+      topN?: number;
+      scope?: WeeklyReportScope;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<WeeklyReport> {
+    const { userIds, projectId, topN = 5, scope, signal } = options;
+
+    const result = await workloadService.getTeamWorkSummary(startAt, endAt, {
+      userIds,
+      projectId,
+      groupBy: 'user',
+      topN,
+      extraGroupBy: ['project', 'work_item'],
+      includeZeroUsers: true,
+      maxDetails: REPORT_MAX_DETAILS,
+      signal,
+    });
+
+    return {
+      markdown: renderWeeklyReport(result, { topN, scope }),
+      result,
+    };
+  }
+}
+
+// Singleton instance
+export const reportService = new ReportService();
@@ -87,6 +87,15 @@ export class UserService {
     };
   }
 
+  /**
+   * 获取指定部门的用户（部门名称忽略大小写和首尾空格）
+   */
+  async getUsersByDepartment(department: string, signal?: AbortSignal): Promise<UserInfo[]> {
+    const target = department.trim().toLowerCase();
+    const users = await this.getAllUsers(signal);
+    return users.filter(u => u.department?.trim().toLowerCase() === target);
+  }
+
   /**
    * 批量获取用户信息
    */
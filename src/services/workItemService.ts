@@ -1,15 +1,23 @@
 import {
   getWorkItem,
+  getWorkItemByIdentifier,
   getWorkItemsBatch,
   getWorkItemsFromWorkloads,
+  listWorkItems,
+  type ListWorkItemsParams,
 } from '../api/endpoints/workItems.js';
-import type { PingCodeWorkItem, PingCodeWorkload } from '../api/types.js';
+import { getIdea } from '../api/endpoints/ideas.js';
+import { getTestCase } from '../api/endpoints/testCases.js';
+import type { PingCodeWorkItem, PingCodeWorkload, PingCodeIdea, PingCodeTestCase, PingCodeProject, WorkloadPrincipalType } from '../api/types.js';
+import { logger } from '../utils/logger.js';
 import { sanitizeTitle, sanitizeName } from '../utils/sanitize.js';
 
 export interface WorkItemInfo {
   id: string;
   identifier: string;
   title: string;
+  /** 工时主体类型：想法的 project 为所属产品，测试用例的 project 为所属测试库；未设置时为工作项 */
+  principal_type?: WorkloadPrincipalType;
   project: {
     id: string | null;
     identifier: string | null;
@@ -23,6 +31,10 @@ export interface WorkItemInfo {
     name: string;
     display_name: string;
   };
+  /** 预估工时（小时），未填写时为 null */
+  estimated_workload?: number | null;
+  /** 剩余工时（小时），未填写时为 null */
+  remaining_workload?: number | null;
 }
 
 export interface ProjectInfo {
@@ -32,6 +44,18 @@ export interface ProjectInfo {
   type?: string;
 }
 
+const WORK_ITEM_IDENTIFIER_PATTERN = /^[A-Za-z][A-Za-z0-9_]*-\d+$/;
+
+// 想法 / 测试用例逐个获取时的并发数（与工作项批量获取一致）
+const PRINCIPAL_FETCH_CONCURRENCY = 10;
+
+/**
+ * 是否为工作项编号格式（如 "PROJ-101"），用于区分编号与内部 ID
+ */
+export function isWorkItemIdentifier(value: string): boolean {
+  return WORK_ITEM_IDENTIFIER_PATTERN.test(value.trim());
+}
+
 /**
  * 工作项服务 - 封装工作项相关业务逻辑
  */
@@ -44,6 +68,53 @@ export class WorkItemService {
     return item ? this.toWorkItemInfo(item) : null;
   }
 
+  /**
+   * 解析工作项输入（支持 ID 或编号，如 "PROJ-101"）
+   */
+  async resolveWorkItem(
+    input: { id?: string; identifier?: string },
+    signal?: AbortSignal
+  ): Promise<WorkItemInfo | null> {
+    if (input.id) {
+      return this.getWorkItem(input.id, signal);
+    }
+
+    if (input.identifier) {
+      const item = await getWorkItemByIdentifier(input.identifier, signal);
+      return item ? this.toWorkItemInfo(item) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * 解析单个字符串形式的工作项引用：编号格式（如 "PROJ-101"）先按编号查找，未命中或非编号格式时按 ID 查询
+   */
+  async resolveWorkItemRef(ref: string, signal?: AbortSignal): Promise<WorkItemInfo | null> {
+    const value = ref.trim();
+    if (isWorkItemIdentifier(value)) {
+      const item = await this.resolveWorkItem({ identifier: value }, signal);
+      if (item) {
+        return item;
+      }
+    }
+    return this.getWorkItem(value, signal);
+  }
+
+  /**
+   * 按条件分页搜索工作项
+   */
+  async searchWorkItems(
+    params: ListWorkItemsParams,
+    signal?: AbortSignal
+  ): Promise<{ items: WorkItemInfo[]; total: number }> {
+    const response = await listWorkItems(params, signal);
+    return {
+      items: response.values.map(item => this.toWorkItemInfo(item)),
+      total: response.total,
+    };
+  }
+
   /**
    * 批量获取工作项
    */
@@ -62,7 +133,10 @@ export class WorkItemService {
   }
 
   /**
-   * 从工时记录中提取并获取所有关联的工作项
+   * 从工时记录中提取并获取所有关联的主体（工作项、想法、测试用例）
+   *
+   * 想法和测试用例通过各自的接口获取，转换为 WorkItemInfo 后与工作项放在同一个 Map 中，
+   * 使按工作项/项目聚合时不会丢失这部分工时。
    */
   async enrichWorkloadsWithWorkItems(
     workloads: PingCodeWorkload[],
@@ -78,7 +152,16 @@ export class WorkItemService {
       result.set(id, this.toWorkItemInfo(item));
     }
 
-    return { workItems: result, missingCount };
+    const principalIds = (type: WorkloadPrincipalType) => workloads
+      .flatMap(w => (w.work_item?.principal_type === type ? [w.work_item.id] : []));
+
+    const ideas = await this.fetchPrincipals(principalIds('idea'), getIdea, idea => this.toIdeaInfo(idea), signal);
+    const testCases = await this.fetchPrincipals(principalIds('test_case'), getTestCase, testCase => this.toTestCaseInfo(testCase), signal);
+    for (const [id, info] of [...ideas.items, ...testCases.items]) {
+      result.set(id, info);
+    }
+
+    return { workItems: result, missingCount: missingCount + ideas.missingCount + testCases.missingCount };
   }
 
   /**
@@ -97,13 +180,58 @@ export class WorkItemService {
   }
 
   /**
-   * 转换为 WorkItemInfo 格式
+   * 想法 → WorkItemInfo（所属产品作为 project）
+   */
+  toIdeaInfo(idea: PingCodeIdea): WorkItemInfo {
+    return {
+      id: idea.id,
+      identifier: idea.identifier,
+      title: sanitizeTitle(idea.title) ?? '',
+      principal_type: 'idea',
+      project: this.toContainerInfo(idea.product, 'product'),
+      state: idea.state,
+      type: 'idea',
+      assignee: idea.assignee ? {
+        id: idea.assignee.id,
+        name: sanitizeName(idea.assignee.name) ?? '',
+        display_name: sanitizeName(idea.assignee.display_name) ?? '',
+      } : undefined,
+      estimated_workload: null,
+      remaining_workload: null,
+    };
+  }
+
+  /**
+   * 测试用例 → WorkItemInfo（所属测试库作为 project）
+   */
+  toTestCaseInfo(testCase: PingCodeTestCase): WorkItemInfo {
+    return {
+      id: testCase.id,
+      identifier: testCase.identifier,
+      title: sanitizeTitle(testCase.title) ?? '',
+      principal_type: 'test_case',
+      project: this.toContainerInfo(testCase.library, 'test_library'),
+      state: testCase.state,
+      type: 'test_case',
+      assignee: testCase.maintenance ? {
+        id: testCase.maintenance.id,
+        name: sanitizeName(testCase.maintenance.name) ?? '',
+        display_name: sanitizeName(testCase.maintenance.display_name) ?? '',
+      } : undefined,
+      estimated_workload: null,
+      remaining_workload: null,
+    };
+  }
+
+  /**
+   * 转换为 WorkItemInfo 格式（标题、名称经过清洗）
    */
-  private toWorkItemInfo(item: PingCodeWorkItem): WorkItemInfo {
+  toWorkItemInfo(item: PingCodeWorkItem): WorkItemInfo {
     return {
       id: item.id,
       identifier: item.identifier,
       title: sanitizeTitle(item.title) ?? '',
+      principal_type: 'work_item',
       project: {
         id: item.project.id,
         identifier: item.project.identifier,
@@ -117,8 +245,58 @@ export class WorkItemService {
         name: sanitizeName(item.assignee.name) ?? '',
         display_name: sanitizeName(item.assignee.display_name) ?? '',
       } : undefined,
+      estimated_workload: item.estimated_workload ?? null,
+      remaining_workload: item.remaining_workload ?? null,
     };
   }
+
+  /**
+   * 产品 / 测试库 → ProjectInfo（缺失时归为 Unknown）
+   */
+  private toContainerInfo(container: PingCodeProject | undefined, type: string): ProjectInfo {
+    return container ? {
+      id: container.id,
+      identifier: container.identifier,
+      name: sanitizeName(container.name) ?? '',
+      type,
+    } : { id: null, identifier: null, name: 'Unknown' };
+  }
+
+  /**
+   * 按 ID 去重后并发获取想法 / 测试用例，获取失败或不存在的计入 missingCount
+   */
+  private async fetchPrincipals<T>(
+    ids: string[],
+    fetchOne: (id: string, signal?: AbortSignal) => Promise<T | null>,
+    toInfo: (item: T) => WorkItemInfo,
+    signal?: AbortSignal
+  ): Promise<{ items: Map<string, WorkItemInfo>; missingCount: number }> {
+    const uniqueIds = [...new Set(ids)];
+    const items = new Map<string, WorkItemInfo>();
+    let missingCount = 0;
+
+    for (let i = 0; i < uniqueIds.length; i += PRINCIPAL_FETCH_CONCURRENCY) {
+      const batch = uniqueIds.slice(i, i + PRINCIPAL_FETCH_CONCURRENCY);
+      const results = await Promise.all(batch.map(async id => {
+        try {
+          return { id, item: await fetchOne(id, signal) };
+        } catch (error) {
+          logger.error({ principalId: id, error }, 'Failed to fetch workload principal');
+          return { id, item: null };
+        }
+      }));
+
+      for (const { id, item } of results) {
+        if (item) {
+          items.set(id, toInfo(item));
+        } else {
+          missingCount++;
+        }
+      }
+    }
+
+    return { items, missingCount };
+  }
 }
 
 // Singleton instance
@@ -1,17 +1,23 @@
 import {
+    listWorkloads,
     listUserWorkloads,
+    listProjectWorkloads,
     listWorkloadsForUsers,
     type WorkloadsResult,
 } from '../api/endpoints/index.js';
 import { userService, type UserInfo } from './userService.js';
 import { workItemService, type WorkItemInfo, type ProjectInfo } from './workItemService.js';
 import { formatTimestamp } from '../utils/timeUtils.js';
-import type { PingCodeWorkload } from '../api/types.js';
+import { workCalendar } from '../utils/calendar.js';
+import type { PingCodeWorkload, WorkloadReviewState } from '../api/types.js';
 
 // ============ 常量 ============
 
 const MAX_DETAILS_LIMIT = 500;
 
+// 未设置部门的成员在部门聚合中的归类名称
+const UNASSIGNED_DEPARTMENT = '未设置部门';
+
 // ============ 输出类型定义 ============
 
 export interface WorkloadDetail {
@@ -20,6 +26,7 @@ export interface WorkloadDetail {
     hours: number;
     work_item: WorkItemInfo | null;
     description?: string;
+    review_state: WorkloadReviewState | null;
 }
 
 export interface HoursByProject {
@@ -52,6 +59,16 @@ export interface HoursByType {
     hours: number;
 }
 
+/**
+ * 按审批状态的工时（none：未启用审批或状态未知）
+ */
+export interface HoursByReviewState {
+    approved: number;
+    pending: number;
+    rejected: number;
+    none: number;
+}
+
 export interface DataQuality {
     workloads_count: number;
     missing_work_item_count: number;
@@ -75,6 +92,7 @@ export interface UserWorkSummary {
     by_week?: HoursByWeek[];
     by_month?: HoursByMonth[];
     by_type?: HoursByType[];
+    by_review_state: HoursByReviewState;
 }
 
 export interface UserWorkResult {
@@ -86,6 +104,7 @@ export interface UserWorkResult {
 export interface TeamMemberSummary {
     user: UserInfo;
     total_hours: number;
+    by_review_state: HoursByReviewState;
     // 默认输出（group_by=user 时）
     top_projects?: HoursByProject[];
     top_work_items?: HoursByWorkItem[];
@@ -107,6 +126,7 @@ export interface TeamWorkSummary {
     };
     total_hours: number;
     user_count: number;
+    by_review_state: HoursByReviewState;
     members: TeamMemberSummary[];
     // 按时间维度聚合（当 group_by 为 day/week/month 时）
     by_day?: HoursByDay[];
@@ -117,9 +137,18 @@ export interface TeamWorkSummary {
     by_work_item?: HoursByWorkItem[];
     // 按类型聚合（当 group_by 为 type 时）
     by_type?: HoursByType[];
+    // 按部门聚合（当 group_by 为 department 时）
+    by_department?: HoursByDepartment[];
+}
+
+export interface HoursByDepartment {
+    department: string;
+    hours: number;
+    member_count: number;
+    top_projects: HoursByProject[];
 }
 
-export type TeamGroupBy = 'user' | 'project' | 'work_item' | 'day' | 'week' | 'month' | 'type';
+export type TeamGroupBy = 'user' | 'project' | 'work_item' | 'day' | 'week' | 'month' | 'type' | 'department';
 
 export interface DayMatrixRow {
     user: UserInfo;
@@ -141,6 +170,8 @@ export interface TeamWorkloadDetail {
     work_item: WorkItemInfo | null;
     project: ProjectInfo | null;
     description?: string;
+    type?: string;
+    review_state: WorkloadReviewState | null;
 }
 
 export interface TeamWorkResult {
@@ -148,10 +179,14 @@ export interface TeamWorkResult {
     details: TeamWorkloadDetail[];
     by_day_matrix?: {
         dates: string[];
+        /** 与 dates 一一对应：是否为工作日（含节假日/调休） */
+        working_days: boolean[];
         rows: DayMatrixRow[];
     };
     by_week_matrix?: {
         weeks: string[];
+        /** 与 weeks 一一对应：该周在查询范围内的工作日天数 */
+        working_days: number[];
         rows: WeekMatrixRow[];
     };
     data_quality: {
@@ -168,6 +203,86 @@ export interface TeamWorkResult {
 
 export type GroupBy = 'day' | 'week' | 'month' | 'work_item' | 'project' | 'type';
 
+export interface ProjectMemberSummary {
+    user: UserInfo;
+    total_hours: number;
+    by_review_state: HoursByReviewState;
+    top_work_items: HoursByWorkItem[];
+}
+
+export interface ProjectWorkSummary {
+    project: ProjectInfo;
+    time_range: {
+        start_at: number;
+        end_at: number;
+    };
+    total_hours: number;
+    user_count: number;
+    by_member: ProjectMemberSummary[];
+    by_work_item: HoursByWorkItem[];
+    by_type: HoursByType[];
+    by_week: HoursByWeek[];
+    by_review_state: HoursByReviewState;
+}
+
+export interface ProjectWorkResult {
+    summary: ProjectWorkSummary;
+    details: TeamWorkloadDetail[];
+    data_quality: TeamWorkResult['data_quality'];
+}
+
+export interface WorkItemReporterSummary {
+    user: UserInfo;
+    total_hours: number;
+    workloads_count: number;
+    first_logged_date: string;
+    last_logged_date: string;
+    by_review_state: HoursByReviewState;
+}
+
+export interface WorkItemWorkSummary {
+    work_item: WorkItemInfo;
+    time_range: {
+        start_at: number;
+        end_at: number;
+    };
+    total_hours: number;
+    user_count: number;
+    first_logged_date: string | null;
+    last_logged_date: string | null;
+    by_reporter: WorkItemReporterSummary[];
+    by_day: HoursByDay[];
+    by_type: HoursByType[];
+    by_review_state: HoursByReviewState;
+}
+
+export interface WorkItemWorkResult {
+    summary: WorkItemWorkSummary;
+    details: TeamWorkloadDetail[];
+    data_quality: TeamWorkResult['data_quality'];
+}
+
+// ============ 辅助函数 ============
+
+function emptyReviewStateHours(): HoursByReviewState {
+    return { approved: 0, pending: 0, rejected: 0, none: 0 };
+}
+
+/**
+ * 按审批状态过滤每位成员的工时记录
+ */
+function filterByReviewState(
+    workloadsMap: Map<string, WorkloadsResult>,
+    reviewState: WorkloadReviewState
+): Map<string, WorkloadsResult> {
+    const filtered = new Map<string, WorkloadsResult>();
+    for (const [userId, result] of workloadsMap) {
+        const workloads = result.workloads.filter(w => w.review_state === reviewState);
+        filtered.set(userId, { ...result, workloads, totalCount: workloads.length });
+    }
+    return filtered;
+}
+
 // ============ 工时服务 ============
 
 export class WorkloadService {
@@ -214,6 +329,7 @@ export class WorkloadService {
             total_hours: aggregated.totalHours,
             by_project: aggregated.byProject.slice(0, topN),
             by_work_item: aggregated.byWorkItem.slice(0, topN),
+            by_review_state: aggregated.byReviewState,
         };
 
         // 添加时间/类型维度分组
@@ -256,10 +372,16 @@ export class WorkloadService {
             includeMatrix?: boolean;
             matrixType?: MatrixType;
             includeZeroUsers?: boolean;
+            /** 额外输出的团队级聚合维度（成员级输出仍只由 groupBy 决定） */
+            extraGroupBy?: TeamGroupBy[];
+            /** 明细行上限（默认 500，导出场景可放宽） */
+            maxDetails?: number;
+            /** 只统计该审批状态的工时 */
+            reviewState?: WorkloadReviewState;
             signal?: AbortSignal;
         } = {}
     ): Promise<TeamWorkResult> {
-        const { userIds, projectId, groupBy = 'user', topN = 5, includeMatrix = false, matrixType = 'day', includeZeroUsers = true, signal } = options;
+        const { userIds, projectId, groupBy = 'user', topN = 5, includeMatrix = false, matrixType = 'day', includeZeroUsers = true, extraGroupBy = [], maxDetails = MAX_DETAILS_LIMIT, reviewState, signal } = options;
 
         // 1. 获取用户列表
         let targetUserIds: string[];
@@ -270,8 +392,9 @@ export class WorkloadService {
             targetUserIds = allUsers.map(u => u.id);
         }
 
-        // 2. 批量获取工时数据（projectId 由 API 服务端 pilot_id 过滤）
-        const workloadsMap = await listWorkloadsForUsers(targetUserIds, startAt, endAt, { projectId, signal });
+        // 2. 批量获取工时数据（projectId 由 API 服务端 pilot_id 过滤，审批状态在本地过滤）
+        const fetchedMap = await listWorkloadsForUsers(targetUserIds, startAt, endAt, { projectId, signal });
+        const workloadsMap = reviewState ? filterByReviewState(fetchedMap, reviewState) : fetchedMap;
 
         // 3. 获取用户信息
         const usersMap = await userService.getUsersMap(targetUserIds, signal);
@@ -316,6 +439,7 @@ export class WorkloadService {
             const memberSummary: TeamMemberSummary = {
                 user,
                 total_hours: aggregated.totalHours,
+                by_review_state: aggregated.byReviewState,
             };
 
             // 根据 groupBy 决定成员层级的输出字段
@@ -339,6 +463,7 @@ export class WorkloadService {
                     memberSummary.by_type = aggregated.byType;
                     break;
                 case 'user':
+                case 'department':
                 default:
                     // 默认：同时输出 top_projects 和 top_work_items
                     memberSummary.top_projects = aggregated.byProject.slice(0, topN);
@@ -351,36 +476,7 @@ export class WorkloadService {
 
             // 构建该用户的明细
             for (const w of result.workloads) {
-                // 使用 workload 中嵌入的 work_item 信息，或尝试从缓存获取更详细的信息
-                const embeddedWorkItem = w.work_item;
-                let workItem: WorkItemInfo | null = null;
-                let project: ProjectInfo | null = null;
-
-                if (embeddedWorkItem) {
-                    const cachedWorkItem = workItems.get(embeddedWorkItem.id);
-                    if (cachedWorkItem) {
-                        workItem = cachedWorkItem;
-                        project = cachedWorkItem.project;
-                    } else {
-                        // 没有缓存的工作项信息，使用嵌入的基本信息
-                        workItem = {
-                            id: embeddedWorkItem.id,
-                            identifier: embeddedWorkItem.identifier,
-                            title: embeddedWorkItem.title,
-                            type: embeddedWorkItem.type,
-                            project: { id: null, identifier: null, name: 'Unknown' },
-                        };
-                    }
-                }
-                allDetails.push({
-                    date: formatTimestamp(w.report_at),
-                    workload_id: w.id,
-                    hours: w.duration,
-                    user,
-                    work_item: workItem,
-                    project,
-                    description: w.description,
-                });
+                allDetails.push(this.buildTeamDetail(w, user, workItems));
             }
 
             totalWorkloadsCount += result.workloads.length;
@@ -400,6 +496,7 @@ export class WorkloadService {
                 const memberSummary: TeamMemberSummary = {
                     user,
                     total_hours: 0,
+                    by_review_state: emptyReviewStateHours(),
                 };
                 switch (groupBy) {
                     case 'day':
@@ -421,6 +518,7 @@ export class WorkloadService {
                         memberSummary.by_type = [];
                         break;
                     case 'user':
+                    case 'department':
                     default:
                         memberSummary.top_projects = [];
                         memberSummary.top_work_items = [];
@@ -437,8 +535,8 @@ export class WorkloadService {
         allDetails.sort((a, b) => b.date.localeCompare(a.date));
 
         // 限制明细数量
-        const detailsTruncated = allDetails.length > MAX_DETAILS_LIMIT;
-        const truncatedDetails = allDetails.slice(0, MAX_DETAILS_LIMIT);
+        const detailsTruncated = allDetails.length > maxDetails;
+        const truncatedDetails = allDetails.slice(0, maxDetails);
 
         // 9. 根据 groupBy 计算额外聚合维度
         const allFilteredWorkloads: PingCodeWorkload[] = [];
@@ -453,6 +551,7 @@ export class WorkloadService {
                 time_range: { start_at: startAt, end_at: endAt },
                 total_hours: totalHours,
                 user_count: members.length,
+                by_review_state: teamAggregated.byReviewState,
                 members,
             },
             details: truncatedDetails,
@@ -467,19 +566,23 @@ export class WorkloadService {
             },
         };
 
-        // 根据 groupBy 添加对应的聚合维度
-        if (groupBy === 'day') {
-            teamResult.summary.by_day = teamAggregated.byDay;
-        } else if (groupBy === 'week') {
-            teamResult.summary.by_week = teamAggregated.byWeek;
-        } else if (groupBy === 'month') {
-            teamResult.summary.by_month = teamAggregated.byMonth;
-        } else if (groupBy === 'project') {
-            teamResult.summary.by_project = teamAggregated.byProject.slice(0, topN);
-        } else if (groupBy === 'work_item') {
-            teamResult.summary.by_work_item = teamAggregated.byWorkItem.slice(0, topN);
-        } else if (groupBy === 'type') {
-            teamResult.summary.by_type = teamAggregated.byType;
+        // 根据 groupBy（及额外维度）添加对应的聚合维度
+        for (const dimension of new Set([groupBy, ...extraGroupBy])) {
+            if (dimension === 'day') {
+                teamResult.summary.by_day = teamAggregated.byDay;
+            } else if (dimension === 'week') {
+                teamResult.summary.by_week = teamAggregated.byWeek;
+            } else if (dimension === 'month') {
+                teamResult.summary.by_month = teamAggregated.byMonth;
+            } else if (dimension === 'project') {
+                teamResult.summary.by_project = teamAggregated.byProject.slice(0, topN);
+            } else if (dimension === 'work_item') {
+                teamResult.summary.by_work_item = teamAggregated.byWorkItem.slice(0, topN);
+            } else if (dimension === 'type') {
+                teamResult.summary.by_type = teamAggregated.byType;
+            } else if (dimension === 'department') {
+                teamResult.summary.by_department = this.aggregateByDepartment(members, filteredWorkloadsMap, workItems, topN);
+            }
         }
 
         // 11. 构建矩阵（如果需要）
@@ -494,6 +597,194 @@ export class WorkloadService {
         return teamResult;
     }
 
+    /**
+     * 获取项目工时汇总
+     *
+     * 工时按 pilot_id 在服务端过滤，成员来自实际填报人（而非预先指定的用户列表）。
+     */
+    async getProjectWorkSummary(
+        project: ProjectInfo,
+        startAt: number,
+        endAt: number,
+        options: {
+            topN?: number;
+            signal?: AbortSignal;
+        } = {}
+    ): Promise<ProjectWorkResult> {
+        const { topN = 10, signal } = options;
+
+        if (!project.id) {
+            throw new Error('Project id is required');
+        }
+
+        // 1. 获取项目工时数据（服务端 pilot_id 过滤）
+        const workloadsResult = await listProjectWorkloads(project.id, startAt, endAt, signal);
+        const { workloads, timeSliced, paginationTruncated, truncationReasons } = workloadsResult;
+
+        // 2. 获取工作项详情
+        const { workItems, missingCount } = await workItemService.enrichWorkloadsWithWorkItems(workloads, signal);
+
+        // 3. 按填报人分组，并获取用户信息
+        const workloadsByUser = new Map<string, PingCodeWorkload[]>();
+        for (const w of workloads) {
+            const userWorkloads = workloadsByUser.get(w.report_by.id);
+            if (userWorkloads) {
+                userWorkloads.push(w);
+            } else {
+                workloadsByUser.set(w.report_by.id, [w]);
+            }
+        }
+        const usersMap = await userService.getUsersMap([...workloadsByUser.keys()], signal);
+
+        // 4. 聚合每个成员的数据
+        const members: ProjectMemberSummary[] = [];
+        const allDetails: TeamWorkloadDetail[] = [];
+        for (const [userId, userWorkloads] of workloadsByUser) {
+            // 目录中查不到的填报人（如已离职）回退到工时记录中的填报人信息
+            const user: UserInfo = usersMap.get(userId) ?? { ...userWorkloads[0].report_by };
+            const aggregated = this.aggregateWorkloads(userWorkloads, workItems, 'work_item', topN);
+
+            members.push({
+                user,
+                total_hours: aggregated.totalHours,
+                by_review_state: aggregated.byReviewState,
+                top_work_items: aggregated.byWorkItem.slice(0, topN),
+            });
+
+            for (const w of userWorkloads) {
+                allDetails.push(this.buildTeamDetail(w, user, workItems));
+            }
+        }
+
+        members.sort((a, b) => b.total_hours - a.total_hours);
+        allDetails.sort((a, b) => b.date.localeCompare(a.date));
+
+        const detailsTruncated = allDetails.length > MAX_DETAILS_LIMIT;
+        const details = allDetails.slice(0, MAX_DETAILS_LIMIT);
+
+        // 5. 项目级聚合
+        const aggregated = this.aggregateWorkloads(workloads, workItems, 'work_item', topN);
+
+        return {
+            summary: {
+                project,
+                time_range: { start_at: startAt, end_at: endAt },
+                total_hours: aggregated.totalHours,
+                user_count: members.length,
+                by_member: members,
+                by_work_item: aggregated.byWorkItem.slice(0, topN),
+                by_type: aggregated.byType,
+                by_week: aggregated.byWeek,
+                by_review_state: aggregated.byReviewState,
+            },
+            details,
+            data_quality: {
+                workloads_count: workloads.length,
+                missing_work_item_count: missingCount,
+                unknown_user_matches: workloadsByUser.size - usersMap.size,
+                time_sliced: timeSliced,
+                pagination_truncated: paginationTruncated,
+                details_truncated: detailsTruncated,
+                truncation_reasons: truncationReasons.length > 0 ? truncationReasons : undefined,
+            },
+        };
+    }
+
+    /**
+     * 获取工作项工时汇总
+     *
+     * 工时通过 API 原生 principal_type=work_item + principal_id 过滤。
+     */
+    async getWorkItemWorkSummary(
+        workItem: WorkItemInfo,
+        startAt: number,
+        endAt: number,
+        options: {
+            signal?: AbortSignal;
+        } = {}
+    ): Promise<WorkItemWorkResult> {
+        const { signal } = options;
+
+        // 1. 获取工作项的工时数据
+        const workloadsResult = await listWorkloads({
+            startAt,
+            endAt,
+            principalType: 'work_item',
+            principalId: workItem.id,
+            signal,
+        });
+        const { workloads, timeSliced, paginationTruncated, truncationReasons } = workloadsResult;
+        const workItems = new Map([[workItem.id, workItem]]);
+
+        // 2. 按填报人分组，并获取用户信息
+        const workloadsByUser = new Map<string, PingCodeWorkload[]>();
+        for (const w of workloads) {
+            const userWorkloads = workloadsByUser.get(w.report_by.id);
+            if (userWorkloads) {
+                userWorkloads.push(w);
+            } else {
+                workloadsByUser.set(w.report_by.id, [w]);
+            }
+        }
+        const usersMap = await userService.getUsersMap([...workloadsByUser.keys()], signal);
+
+        // 3. 聚合每个填报人的数据
+        const reporters: WorkItemReporterSummary[] = [];
+        const allDetails: TeamWorkloadDetail[] = [];
+        for (const [userId, userWorkloads] of workloadsByUser) {
+            const user: UserInfo = usersMap.get(userId) ?? { ...userWorkloads[0].report_by };
+            const dates = userWorkloads.map(w => formatTimestamp(w.report_at)).sort();
+            const userAggregated = this.aggregateWorkloads(userWorkloads, workItems, 'day', 1);
+
+            reporters.push({
+                user,
+                total_hours: userAggregated.totalHours,
+                workloads_count: userWorkloads.length,
+                first_logged_date: dates[0],
+                last_logged_date: dates[dates.length - 1],
+                by_review_state: userAggregated.byReviewState,
+            });
+
+            for (const w of userWorkloads) {
+                allDetails.push(this.buildTeamDetail(w, user, workItems));
+            }
+        }
+
+        reporters.sort((a, b) => b.total_hours - a.total_hours);
+        allDetails.sort((a, b) => b.date.localeCompare(a.date));
+
+        const detailsTruncated = allDetails.length > MAX_DETAILS_LIMIT;
+        const details = allDetails.slice(0, MAX_DETAILS_LIMIT);
+
+        // 4. 工作项级聚合（by_day 即日时间线）
+        const aggregated = this.aggregateWorkloads(workloads, workItems, 'day', 1);
+
+        return {
+            summary: {
+                work_item: workItem,
+                time_range: { start_at: startAt, end_at: endAt },
+                total_hours: aggregated.totalHours,
+                user_count: reporters.length,
+                first_logged_date: aggregated.byDay.length > 0 ? aggregated.byDay[0].date : null,
+                last_logged_date: aggregated.byDay.length > 0 ? aggregated.byDay[aggregated.byDay.length - 1].date : null,
+                by_reporter: reporters,
+                by_day: aggregated.byDay,
+                by_type: aggregated.byType,
+                by_review_state: aggregated.byReviewState,
+            },
+            details,
+            data_quality: {
+                workloads_count: workloads.length,
+                missing_work_item_count: 0,
+                unknown_user_matches: workloadsByUser.size - usersMap.size,
+                time_sliced: timeSliced,
+                pagination_truncated: paginationTruncated,
+                details_truncated: detailsTruncated,
+                truncation_reasons: truncationReasons.length > 0 ? truncationReasons : undefined,
+            },
+        };
+    }
+
     // ============ 私有方法 ============
 
     /**
@@ -512,8 +803,10 @@ export class WorkloadService {
         byWeek: HoursByWeek[];
         byMonth: HoursByMonth[];
         byType: HoursByType[];
+        byReviewState: HoursByReviewState;
     } {
         let totalHours = 0;
+        const byReviewState = emptyReviewStateHours();
         const projectHours = new Map<string, { project: ProjectInfo; hours: number }>();
         const workItemHours = new Map<string, { workItem: WorkItemInfo; hours: number }>();
         const dayHours = new Map<string, number>();
@@ -541,6 +834,9 @@ export class WorkloadService {
             const workloadType = workload.type || 'unknown';
             typeHours.set(workloadType, (typeHours.get(workloadType) || 0) + hours);
 
+            // 按审批状态
+            byReviewState[workload.review_state ?? 'none'] += hours;
+
             // 按项目（通过 work_item 获取 project 信息）
             let project: ProjectInfo | undefined;
             if (workload.work_item) {
@@ -567,6 +863,7 @@ export class WorkloadService {
                     identifier: embeddedWorkItem.identifier,
                     title: embeddedWorkItem.title,
                     type: embeddedWorkItem.type,
+                    principal_type: embeddedWorkItem.principal_type,
                     project: project || { id: null, identifier: null, name: 'Unknown' },
                 };
 
@@ -604,7 +901,7 @@ export class WorkloadService {
             .sort((a, b) => b[1] - a[1])
             .map(([type, hours]) => ({ type, hours }));
 
-        return { totalHours, byProject, byWorkItem, byDay, byWeek, byMonth, byType };
+        return { totalHours, byProject, byWorkItem, byDay, byWeek, byMonth, byType, byReviewState };
     }
 
     /**
@@ -627,6 +924,7 @@ export class WorkloadService {
                             identifier: w.work_item.identifier,
                             title: w.work_item.title,
                             type: w.work_item.type,
+                            principal_type: w.work_item.principal_type,
                             project: { id: null, identifier: null, name: 'Unknown' },
                         };
                     }
@@ -637,11 +935,86 @@ export class WorkloadService {
                     hours: w.duration,
                     work_item: workItem,
                     description: w.description,
+                    review_state: w.review_state ?? null,
                 };
             })
             .sort((a, b) => b.date.localeCompare(a.date));  // 按日期倒序
     }
 
+    /**
+     * 构建团队/项目明细行
+     */
+    private buildTeamDetail(
+        w: PingCodeWorkload,
+        user: UserInfo,
+        workItems: Map<string, WorkItemInfo>
+    ): TeamWorkloadDetail {
+        // 使用 workload 中嵌入的 work_item 信息，或尝试从缓存获取更详细的信息
+        const embeddedWorkItem = w.work_item;
+        let workItem: WorkItemInfo | null = null;
+        let project: ProjectInfo | null = null;
+
+        if (embeddedWorkItem) {
+            const cachedWorkItem = workItems.get(embeddedWorkItem.id);
+            if (cachedWorkItem) {
+                workItem = cachedWorkItem;
+                project = cachedWorkItem.project;
+            } else {
+                // 没有缓存的工作项信息，使用嵌入的基本信息
+                workItem = {
+                    id: embeddedWorkItem.id,
+                    identifier: embeddedWorkItem.identifier,
+                    title: embeddedWorkItem.title,
+                    type: embeddedWorkItem.type,
+                    principal_type: embeddedWorkItem.principal_type,
+                    project: { id: null, identifier: null, name: 'Unknown' },
+                };
+            }
+        }
+
+        return {
+            date: formatTimestamp(w.report_at),
+            workload_id: w.id,
+            hours: w.duration,
+            user,
+            work_item: workItem,
+            project,
+            description: w.description,
+            type: w.type,
+            review_state: w.review_state ?? null,
+        };
+    }
+
+    /**
+     * 按部门聚合（成员数包含 0 工时成员，部门为空的成员归入"未设置部门"）
+     */
+    private aggregateByDepartment(
+        members: TeamMemberSummary[],
+        workloadsMap: Map<string, WorkloadsResult>,
+        workItems: Map<string, WorkItemInfo>,
+        topN: number
+    ): HoursByDepartment[] {
+        const departments = new Map<string, { hours: number; memberCount: number; workloads: PingCodeWorkload[] }>();
+
+        for (const member of members) {
+            const name = member.user.department?.trim() || UNASSIGNED_DEPARTMENT;
+            const entry = departments.get(name) || { hours: 0, memberCount: 0, workloads: [] };
+            entry.hours += member.total_hours;
+            entry.memberCount += 1;
+            entry.workloads.push(...(workloadsMap.get(member.user.id)?.workloads ?? []));
+            departments.set(name, entry);
+        }
+
+        return Array.from(departments.entries())
+            .map(([department, entry]) => ({
+                department,
+                hours: entry.hours,
+                member_count: entry.memberCount,
+                top_projects: this.aggregateWorkloads(entry.workloads, workItems, 'project', topN).byProject.slice(0, topN),
+            }))
+            .sort((a, b) => b.hours - a.hours);
+    }
+
     /**
      * 构建人天矩阵
      */
@@ -650,7 +1023,7 @@ export class WorkloadService {
         usersMap: Map<string, UserInfo>,
         startAt: number,
         endAt: number
-    ): { dates: string[]; rows: DayMatrixRow[] } {
+    ): { dates: string[]; working_days: boolean[]; rows: DayMatrixRow[] } {
         // 生成日期列表（使用配置时区，与 formatTimestamp 一致）
         const dates: string[] = [];
         const DAY_SECONDS = 86400;
@@ -687,7 +1060,7 @@ export class WorkloadService {
             return totalB - totalA;
         });
 
-        return { dates, rows };
+        return { dates, working_days: dates.map(d => workCalendar.isWorkingDay(d)), rows };
     }
 
     /**
@@ -698,14 +1071,16 @@ export class WorkloadService {
         usersMap: Map<string, UserInfo>,
         startAt: number,
         endAt: number
-    ): { weeks: string[]; rows: WeekMatrixRow[] } {
-        // 生成周列表：收集范围内所有 ISO 周 key
-        const weekSet = new Set<string>();
+    ): { weeks: string[]; working_days: number[]; rows: WeekMatrixRow[] } {
+        // 生成周列表：收集范围内所有 ISO 周 key，同时统计每周工作日天数
+        const weekWorkingDays = new Map<string, number>();
         const DAY_SECONDS = 86400;
         for (let ts = startAt; ts < endAt; ts += DAY_SECONDS) {
-            weekSet.add(this.getWeekKey(ts));
+            const week = this.getWeekKey(ts);
+            const working = workCalendar.isWorkingDay(formatTimestamp(ts)) ? 1 : 0;
+            weekWorkingDays.set(week, (weekWorkingDays.get(week) || 0) + working);
         }
-        const weeks = Array.from(weekSet).sort();
+        const weeks = Array.from(weekWorkingDays.keys()).sort();
 
         // 构建 week→index 映射
         const weekIndex = new Map<string, number>();
@@ -740,7 +1115,7 @@ export class WorkloadService {
             return totalB - totalA;
         });
 
-        return { weeks, rows };
+        return { weeks, working_days: weeks.map(wk => weekWorkingDays.get(wk) || 0), rows };
     }
 
     /**
@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import {
+  capacityService,
+  DEFAULT_OVER_THRESHOLD,
+  DEFAULT_UNDER_THRESHOLD,
+  type AllocationStatus,
+  type CapacityResult,
+  type MemberCapacity,
+} from '../services/capacityService.js';
+import { userService } from '../services/userService.js';
+import { parseTimeRange } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const CapacityUtilizationInputSchema = z.object({
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  user_ids: z.array(z.string()).optional(),
+  department: z.string().optional(),
+  // 利用率阈值（百分比），默认高于 110% 为超负荷、低于 80% 为不饱和
+  over_threshold: z.number().positive().optional().default(DEFAULT_OVER_THRESHOLD),
+  under_threshold: z.number().nonnegative().optional().default(DEFAULT_UNDER_THRESHOLD),
+  include_weekly_by_member: z.boolean().optional().default(false),
+});
+
+export type CapacityUtilizationInput = z.infer<typeof CapacityUtilizationInputSchema>;
+
+// ============ 输出类型 ============
+
+interface CapacityUser {
+  id: string;
+  name: string;
+  display_name: string;
+  department?: string;
+}
+
+export interface CapacityUtilizationOutput {
+  summary: CapacityResult['summary'];
+  members: Array<{
+    user: CapacityUser;
+    daily_capacity: number;
+    working_days: number;
+    leave_hours: number;
+    available_hours: number;
+    logged_hours: number;
+    utilization: number | null;
+    status: AllocationStatus;
+    /** 仅 include_weekly_by_member 为 true 时返回 */
+    weekly?: MemberCapacity['weekly'];
+  }>;
+  /** 超负荷成员（超出可用工时的部分为 excess_hours），按利用率降序 */
+  over_allocated: Array<{ user: CapacityUser; utilization: number | null; excess_hours: number }>;
+  /** 不饱和成员（低于阈值的空闲工时为 idle_hours），按利用率升序 */
+  under_allocated: Array<{ user: CapacityUser; utilization: number | null; idle_hours: number }>;
+  weekly: CapacityResult['weekly'];
+  data_quality: CapacityResult['data_quality'];
+}
+
+export interface CapacityUtilizationError {
+  error: string;
+  code: 'INVALID_PARAMS' | 'INVALID_TIME_RANGE' | 'NO_USERS' | 'NO_WORKING_DAYS' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+}
+
+export type CapacityUtilizationResult = CapacityUtilizationOutput | CapacityUtilizationError;
+
+// ============ Tool 实现 ============
+
+export async function capacityUtilization(input: CapacityUtilizationInput, signal?: AbortSignal): Promise<CapacityUtilizationResult> {
+  logger.info({ input }, 'capacity_utilization called');
+
+  try {
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to include all users.',
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    if (input.under_threshold > input.over_threshold) {
+      return {
+        error: `under_threshold (${input.under_threshold}) must not be greater than over_threshold (${input.over_threshold}).`,
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    // 1. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 按部门过滤用户（与 user_ids 取交集）
+    let userIds = input.user_ids;
+    if (input.department) {
+      const departmentUserIds = new Set(
+        (await userService.getUsersByDepartment(input.department, signal)).map(u => u.id)
+      );
+      userIds = input.user_ids
+        ? input.user_ids.filter(id => departmentUserIds.has(id))
+        : Array.from(departmentUserIds);
+      if (userIds.length === 0) {
+        return {
+          error: `No users found in department "${input.department}"${input.user_ids ? ' among the given user_ids' : ''}. Use list_users to check department names.`,
+          code: 'NO_USERS',
+        };
+      }
+    }
+
+    // 3. 计算产能利用率
+    const result = await capacityService.getCapacityUtilization(timeRange.start, timeRange.end, {
+      userIds,
+      overThreshold: input.over_threshold,
+      underThreshold: input.under_threshold,
+      signal,
+    });
+
+    // 4. 没有可评估的工作日（范围全部为今天/未来或非工作日）
+    if (result.summary.working_day_count === 0) {
+      return {
+        error: '时间范围内没有可评估的工作日（今天及未来日期、非工作日不参与评估）。请调整时间范围。',
+        code: 'NO_WORKING_DAYS',
+      };
+    }
+
+    // 5. 上游请求失败时不输出"全员不饱和"的误导性结果
+    if (result.data_quality.workloads_count === 0
+        && result.data_quality.pagination_truncated
+        && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+      return {
+        error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    // 6. 格式化输出
+    return formatOutput(result, input.include_weekly_by_member);
+  } catch (error) {
+    logger.error({ error, input }, 'capacity_utilization failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toCapacityUser(member: MemberCapacity): CapacityUser {
+  return {
+    id: member.user.id,
+    name: member.user.name,
+    display_name: member.user.display_name,
+    department: member.user.department,
+  };
+}
+
+function formatOutput(result: CapacityResult, includeWeeklyByMember: boolean): CapacityUtilizationOutput {
+  const { over, under } = result.summary.thresholds;
+  const overAllocated = result.members.filter(m => m.status === 'over');
+  const underAllocated = result.members.filter(m => m.status === 'under').reverse();
+
+  return {
+    summary: result.summary,
+    members: result.members.map(m => ({
+      user: toCapacityUser(m),
+      daily_capacity: m.daily_capacity,
+      working_days: m.working_days,
+      leave_hours: m.leave_hours,
+      available_hours: m.available_hours,
+      logged_hours: m.logged_hours,
+      utilization: m.utilization,
+      status: m.status,
+      ...(includeWeeklyByMember ? { weekly: m.weekly } : {}),
+    })),
+    over_allocated: overAllocated.map(m => ({
+      user: toCapacityUser(m),
+      utilization: m.utilization,
+      excess_hours: round(Math.max(0, m.logged_hours - m.available_hours * over / 100)),
+    })),
+    under_allocated: underAllocated.map(m => ({
+      user: toCapacityUser(m),
+      utilization: m.utilization,
+      idle_hours: round(Math.max(0, m.available_hours * under / 100 - m.logged_hours)),
+    })),
+    weekly: result.weekly,
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const capacityUtilizationToolDefinition = {
+  name: 'capacity_utilization',
+  ...createToolDefinition(
+    `对比成员可用工时与实际填报工时，计算产能利用率，找出超负荷和不饱和的成员。
+
+可用工时 = 工作日天数 × 每日产能 − 请假工时：
+- 每日产能和请假安排由服务端配置（CAPACITY_FILE），未配置时全员按 EXPECTED_DAILY_HOURS（默认 8 小时）计算
+- 工作日按 WORKING_DAYS 和日历文件（CALENDAR_FILE，节假日 / 调休补班日）计算
+- 非工作日填报的工时（加班）计入填报工时
+- 今天及未来日期不参与评估
+
+支持：
+- 指定 user_ids、部门（department），或省略以统计全部成员
+- over_threshold / under_threshold: 利用率阈值（百分比，默认 110 / 80）
+- include_weekly_by_member: 返回每个成员的按周利用率
+
+返回：
+- summary: 团队可用工时、请假工时、填报工时、利用率（百分比）、超负荷 / 不饱和人数
+- members: 每人的可用工时、填报工时、利用率和状态（over / under / normal / no_capacity），按利用率降序
+- over_allocated: 超负荷成员及超出阈值的工时（excess_hours）
+- under_allocated: 不饱和成员及距阈值的空闲工时（idle_hours）
+- weekly: 团队按 ISO 周的利用率序列
+- data_quality: 数据质量指标`,
+    CapacityUtilizationInputSchema,
+  ),
+};
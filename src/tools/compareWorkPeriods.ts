@@ -0,0 +1,409 @@
+import { z } from 'zod';
+import { userService, type UserInfo } from '../services/userService.js';
+import { projectService } from '../services/projectService.js';
+import type { ProjectInfo } from '../services/workItemService.js';
+import { workloadService } from '../services/workloadService.js';
+import { parseTimeRange, type TimeRange } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+const TimeRangeSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+});
+
+export const CompareWorkPeriodsInputSchema = z.object({
+  // 个人对比：指定 user；团队对比：省略 user，可选 user_ids / project_id
+  user: z.object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+  }).refine(data => data.id || data.name, {
+    message: 'Either user.id or user.name is required',
+  }).optional(),
+  user_ids: z.array(z.string()).optional(),
+  project_id: z.string().optional(),
+  current: TimeRangeSchema,
+  previous: TimeRangeSchema,
+});
+
+export type CompareWorkPeriodsInput = z.infer<typeof CompareWorkPeriodsInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface HoursDelta {
+  current_hours: number;
+  previous_hours: number;
+  delta_hours: number;
+  /** 相对上一周期的变化百分比；上一周期为 0 时为 null */
+  delta_percent: number | null;
+}
+
+type ProjectOutput = { id: string | null; identifier: string | null; name: string; type?: string };
+
+interface PeriodDataQuality {
+  workloads_count: number;
+  missing_work_item_count: number;
+  time_sliced: boolean;
+  pagination_truncated: boolean;
+  details_truncated: boolean;
+  truncation_reasons?: string[];
+}
+
+export interface CompareWorkPeriodsOutput {
+  scope: 'user' | 'team';
+  current: { time_range: { start_at: number; end_at: number }; total_hours: number; user_count: number };
+  previous: { time_range: { start_at: number; end_at: number }; total_hours: number; user_count: number };
+  total: HoursDelta;
+  by_member: Array<{ user: { id: string; name: string; display_name: string } } & HoursDelta>;
+  by_project: Array<{ project: ProjectOutput } & HoursDelta>;
+  by_type: Array<{ type: string } & HoursDelta>;
+  new_projects: ProjectOutput[];
+  dropped_projects: ProjectOutput[];
+  data_quality: PeriodDataQuality & {
+    periods: {
+      current: PeriodDataQuality;
+      previous: PeriodDataQuality;
+    };
+  };
+}
+
+export interface CompareWorkPeriodsError {
+  error: string;
+  code: 'INVALID_PARAMS' | 'USER_NOT_FOUND' | 'USER_AMBIGUOUS' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'INVALID_TIME_RANGE' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?:
+    | Array<{ id: string; name: string; display_name: string; match_type: string }>
+    | Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
+}
+
+export type CompareWorkPeriodsResult = CompareWorkPeriodsOutput | CompareWorkPeriodsError;
+
+/** 单个周期的标准化快照（个人/团队汇总统一到同一结构后再做差） */
+interface PeriodSnapshot {
+  timeRange: TimeRange;
+  totalHours: number;
+  members: Array<{ user: UserInfo; hours: number }>;
+  projects: Array<{ project: ProjectInfo; hours: number }>;
+  types: Array<{ type: string; hours: number }>;
+  dataQuality: PeriodDataQuality;
+}
+
+// 全量输出项目/类型分布，不做 Top N 截断
+const ALL = Number.MAX_SAFE_INTEGER;
+
+// ============ Tool 实现 ============
+
+export async function compareWorkPeriods(input: CompareWorkPeriodsInput, signal?: AbortSignal): Promise<CompareWorkPeriodsResult> {
+  logger.info({ input }, 'compare_work_periods called');
+
+  try {
+    if (input.user && input.user_ids) {
+      return {
+        error: 'user and user_ids cannot be used together. Use user for a personal comparison, or user_ids for a team comparison.',
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to query all users.',
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    // 1. 解析两个时间范围
+    let currentRange: TimeRange;
+    let previousRange: TimeRange;
+    try {
+      currentRange = parseTimeRange(input.current.start, input.current.end);
+      previousRange = parseTimeRange(input.previous.start, input.previous.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 获取两个周期的汇总
+    let current: PeriodSnapshot;
+    let previous: PeriodSnapshot;
+
+    if (input.user) {
+      const userResult = await userService.resolveUser(input.user, signal);
+
+      if (userResult.ambiguous) {
+        return {
+          error: `Multiple users match "${input.user.name}". Please specify user.id or provide a more specific name.`,
+          code: 'USER_AMBIGUOUS',
+          candidates: userResult.candidates.map(c => ({
+            id: c.user.id,
+            name: c.user.name,
+            display_name: c.user.display_name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+
+      if (!userResult.user) {
+        return {
+          error: `User not found: ${input.user.id || input.user.name}`,
+          code: 'USER_NOT_FOUND',
+        };
+      }
+
+      const userId = userResult.user.id;
+      [current, previous] = await Promise.all(
+        [currentRange, previousRange].map(range => fetchUserSnapshot(userId, range, signal))
+      );
+    } else {
+      let projectId: string | undefined;
+      if (input.project_id) {
+        const projectResult = await projectService.resolveProjectRef(input.project_id, signal);
+        if (projectResult.ambiguous) {
+          return {
+            error: `Multiple projects match "${input.project_id}". Please specify the project ID or identifier.`,
+            code: 'AMBIGUOUS_PROJECT',
+            candidates: projectResult.candidates.map(c => ({
+              id: c.project.id,
+              identifier: c.project.identifier,
+              name: c.project.name,
+              match_type: c.matchType,
+            })),
+          };
+        }
+        if (!projectResult.project?.id) {
+          return {
+            error: `Project not found: ${input.project_id}. Use list_projects to look up projects.`,
+            code: 'PROJECT_NOT_FOUND',
+          };
+        }
+        projectId = projectResult.project.id;
+      }
+
+      [current, previous] = await Promise.all(
+        [currentRange, previousRange].map(range => fetchTeamSnapshot(range, input.user_ids, projectId, signal))
+      );
+    }
+
+    // 3. 检查是否有数据
+    const totalWorkloads = current.dataQuality.workloads_count + previous.dataQuality.workloads_count;
+    if (totalWorkloads === 0) {
+      const reasons = [
+        ...(current.dataQuality.truncation_reasons ?? []),
+        ...(previous.dataQuality.truncation_reasons ?? []),
+      ];
+      if (reasons.includes('fetch_error')) {
+        return {
+          error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+          code: 'UPSTREAM_API_ERROR',
+        };
+      }
+      return {
+        error: '两个对比周期内都没有找到任何工时记录。请确认时间范围是否正确。',
+        code: 'NO_DATA',
+      };
+    }
+
+    // 4. 计算差异
+    return buildComparison(input.user ? 'user' : 'team', current, previous);
+  } catch (error) {
+    logger.error({ error, input }, 'compare_work_periods failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+async function fetchUserSnapshot(userId: string, range: TimeRange, signal?: AbortSignal): Promise<PeriodSnapshot> {
+  const result = await workloadService.getUserWorkSummary(userId, range.start, range.end, {
+    groupBy: 'type',
+    topN: ALL,
+    signal,
+  });
+
+  return {
+    timeRange: range,
+    totalHours: result.summary.total_hours,
+    members: result.summary.total_hours > 0
+      ? [{ user: result.summary.user, hours: result.summary.total_hours }]
+      : [],
+    projects: result.summary.by_project,
+    types: result.summary.by_type ?? [],
+    dataQuality: {
+      workloads_count: result.data_quality.workloads_count,
+      missing_work_item_count: result.data_quality.missing_work_item_count,
+      time_sliced: result.data_quality.time_sliced,
+      pagination_truncated: result.data_quality.pagination_truncated,
+      details_truncated: result.data_quality.details_truncated,
+      truncation_reasons: result.data_quality.truncation_reasons,
+    },
+  };
+}
+
+async function fetchTeamSnapshot(
+  range: TimeRange,
+  userIds: string[] | undefined,
+  projectId: string | undefined,
+  signal?: AbortSignal
+): Promise<PeriodSnapshot> {
+  const result = await workloadService.getTeamWorkSummary(range.start, range.end, {
+    userIds,
+    projectId,
+    groupBy: 'user',
+    topN: ALL,
+    includeZeroUsers: false,
+    extraGroupBy: ['project', 'type'],
+    signal,
+  });
+
+  return {
+    timeRange: range,
+    totalHours: result.summary.total_hours,
+    members: result.summary.members.map(m => ({ user: m.user, hours: m.total_hours })),
+    projects: result.summary.by_project ?? [],
+    types: result.summary.by_type ?? [],
+    dataQuality: {
+      workloads_count: result.data_quality.workloads_count,
+      missing_work_item_count: result.data_quality.missing_work_item_count,
+      time_sliced: result.data_quality.time_sliced,
+      pagination_truncated: result.data_quality.pagination_truncated,
+      details_truncated: result.data_quality.details_truncated,
+      truncation_reasons: result.data_quality.truncation_reasons,
+    },
+  };
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function computeDelta(currentHours: number, previousHours: number): HoursDelta {
+  return {
+    current_hours: currentHours,
+    previous_hours: previousHours,
+    delta_hours: round(currentHours - previousHours, 2),
+    delta_percent: previousHours > 0
+      ? round(((currentHours - previousHours) / previousHours) * 100, 1)
+      : null,
+  };
+}
+
+/**
+ * 按 key 合并两个周期的分布，输出按变化量绝对值降序排列
+ */
+function diffByKey<E extends { hours: number }, T>(
+  currentEntries: E[],
+  previousEntries: E[],
+  keyOf: (entry: E) => string,
+  valueOf: (entry: E) => T,
+): Array<{ value: T; delta: HoursDelta; inCurrent: boolean; inPrevious: boolean }> {
+  const merged = new Map<string, { value: T; current: number; previous: number }>();
+
+  for (const entry of currentEntries) {
+    merged.set(keyOf(entry), { value: valueOf(entry), current: entry.hours, previous: 0 });
+  }
+  for (const entry of previousEntries) {
+    const existing = merged.get(keyOf(entry));
+    if (existing) {
+      existing.previous = entry.hours;
+    } else {
+      merged.set(keyOf(entry), { value: valueOf(entry), current: 0, previous: entry.hours });
+    }
+  }
+
+  return Array.from(merged.values())
+    .map(m => ({
+      value: m.value,
+      delta: computeDelta(m.current, m.previous),
+      inCurrent: m.current > 0,
+      inPrevious: m.previous > 0,
+    }))
+    .sort((a, b) => Math.abs(b.delta.delta_hours) - Math.abs(a.delta.delta_hours));
+}
+
+function toProjectOutput(project: ProjectInfo): ProjectOutput {
+  return {
+    id: project.id,
+    identifier: project.identifier,
+    name: project.name,
+    type: project.type,
+  };
+}
+
+function combineDataQuality(current: PeriodDataQuality, previous: PeriodDataQuality): CompareWorkPeriodsOutput['data_quality'] {
+  const reasons = new Set([...(current.truncation_reasons ?? []), ...(previous.truncation_reasons ?? [])]);
+  return {
+    workloads_count: current.workloads_count + previous.workloads_count,
+    missing_work_item_count: current.missing_work_item_count + previous.missing_work_item_count,
+    time_sliced: current.time_sliced || previous.time_sliced,
+    pagination_truncated: current.pagination_truncated || previous.pagination_truncated,
+    details_truncated: current.details_truncated || previous.details_truncated,
+    truncation_reasons: reasons.size > 0 ? [...reasons] : undefined,
+    periods: { current, previous },
+  };
+}
+
+function buildComparison(scope: 'user' | 'team', current: PeriodSnapshot, previous: PeriodSnapshot): CompareWorkPeriodsOutput {
+  const memberDiff = diffByKey(current.members, previous.members, m => m.user.id, m => m.user);
+  const projectDiff = diffByKey(current.projects, previous.projects, p => p.project.id ?? p.project.name, p => p.project);
+  const typeDiff = diffByKey(current.types, previous.types, t => t.type, t => t.type);
+
+  return {
+    scope,
+    current: {
+      time_range: { start_at: current.timeRange.start, end_at: current.timeRange.end },
+      total_hours: current.totalHours,
+      user_count: current.members.length,
+    },
+    previous: {
+      time_range: { start_at: previous.timeRange.start, end_at: previous.timeRange.end },
+      total_hours: previous.totalHours,
+      user_count: previous.members.length,
+    },
+    total: computeDelta(current.totalHours, previous.totalHours),
+    by_member: memberDiff.map(m => ({
+      user: { id: m.value.id, name: m.value.name, display_name: m.value.display_name },
+      ...m.delta,
+    })),
+    by_project: projectDiff.map(p => ({ project: toProjectOutput(p.value), ...p.delta })),
+    by_type: typeDiff.map(t => ({ type: t.value, ...t.delta })),
+    new_projects: projectDiff.filter(p => p.inCurrent && !p.inPrevious).map(p => toProjectOutput(p.value)),
+    dropped_projects: projectDiff.filter(p => !p.inCurrent && p.inPrevious).map(p => toProjectOutput(p.value)),
+    data_quality: combineDataQuality(current.dataQuality, previous.dataQuality),
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const compareWorkPeriodsToolDefinition = {
+  name: 'compare_work_periods',
+  ...createToolDefinition(
+    `对比两个时间段的工时投入（如本迭代 vs 上迭代、本周 vs 上周）。
+
+支持：
+- 个人对比：指定 user（ID 或姓名）
+- 团队对比：省略 user，可选 user_ids（默认全员）和 project_id（支持项目 ID、标识或名称）
+- current / previous 时间范围支持日期格式或别名（如 "this_week" / "last_week"）
+
+返回：
+- total: 总工时变化（绝对值与百分比；上一周期为 0 时百分比为 null）
+- by_member / by_project / by_type: 按成员、项目、工时类型的变化，按变化量降序
+- new_projects / dropped_projects: 新增投入与停止投入的项目
+- data_quality: 两个周期合并后的数据质量指标（periods 中为各周期明细）`,
+    CompareWorkPeriodsInputSchema,
+  ),
+};
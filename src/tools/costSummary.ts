@@ -0,0 +1,286 @@
+import { z } from 'zod';
+import { costService, type CostReport, type CostBucket, type CostByCurrency } from '../services/costService.js';
+import { userService } from '../services/userService.js';
+import { projectService } from '../services/projectService.js';
+import type { UserInfo } from '../services/userService.js';
+import type { ProjectInfo } from '../services/workItemService.js';
+import type { RateSource } from '../utils/rateCard.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// 无费率明细最多列出的条数
+const MAX_UNRATED_ENTRIES = 200;
+
+// ============ Schema 定义 ============
+
+export const CostSummaryInputSchema = z.object({
+  // 默认上月
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }).optional().default({ start: 'last_month', end: 'last_month' }),
+  user_ids: z.array(z.string()).optional(),
+  project_id: z.string().optional(),
+  department: z.string().optional(),
+});
+
+export type CostSummaryInput = z.infer<typeof CostSummaryInputSchema>;
+
+// ============ 输出类型 ============
+
+interface CostUser {
+  id: string;
+  name: string;
+  display_name: string;
+  department?: string;
+  job?: string;
+}
+
+interface CostProject {
+  id: string | null;
+  identifier: string | null;
+  name: string;
+}
+
+export interface CostSummaryOutput {
+  summary: {
+    time_range: {
+      start: string;
+      end: string;
+    };
+    total_hours: number;
+    unrated_hours: number;
+    /** 按币种汇总的成本 */
+    cost: CostByCurrency;
+    user_count: number;
+  };
+  by_member: Array<{
+    user: CostUser;
+    hours: number;
+    unrated_hours: number;
+    cost: CostByCurrency;
+    rates: Array<{ rate: number; currency: string; source: RateSource }>;
+  }>;
+  by_project: Array<{ project: CostProject; hours: number; unrated_hours: number; cost: CostByCurrency }>;
+  by_month: Array<{ month: string; hours: number; unrated_hours: number; cost: CostByCurrency }>;
+  /** 没有适用费率的工时明细（最多 200 条，按日期升序） */
+  unrated_entries: Array<{
+    workload_id: string;
+    date: string;
+    hours: number;
+    user: CostUser;
+    project: CostProject | null;
+  }>;
+  unrated_entry_count: number;
+  data_quality: CostReport['result']['data_quality'];
+}
+
+export interface CostSummaryError {
+  error: string;
+  code: 'RATE_CARD_NOT_CONFIGURED' | 'INVALID_TIME_RANGE' | 'NO_USERS' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
+}
+
+export type CostSummaryResult = CostSummaryOutput | CostSummaryError;
+
+// ============ Tool 实现 ============
+
+export async function costSummary(input: CostSummaryInput, signal?: AbortSignal): Promise<CostSummaryResult> {
+  logger.info({ input }, 'cost_summary called');
+
+  try {
+    // 1. 检查费率卡
+    if (!costService.hasRateCard) {
+      return {
+        error: 'No rate card configured. Set RATE_CARD_FILE to a rate card JSON file to enable cost reporting.',
+        code: 'RATE_CARD_NOT_CONFIGURED',
+      };
+    }
+
+    // 2. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 3. 验证用户列表（如果指定）
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to include all users.',
+        code: 'NO_USERS',
+      };
+    }
+
+    // 4. 解析项目（支持项目 ID、标识或名称）
+    let projectId: string | undefined;
+    if (input.project_id) {
+      const projectResult = await projectService.resolveProjectRef(input.project_id, signal);
+      if (projectResult.ambiguous) {
+        return {
+          error: `Multiple projects match "${input.project_id}". Please specify the project ID or identifier.`,
+          code: 'AMBIGUOUS_PROJECT',
+          candidates: projectResult.candidates.map(c => ({
+            id: c.project.id,
+            identifier: c.project.identifier,
+            name: c.project.name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!projectResult.project?.id) {
+        return {
+          error: `Project not found: ${input.project_id}. Use list_projects to look up projects.`,
+          code: 'PROJECT_NOT_FOUND',
+        };
+      }
+      projectId = projectResult.project.id;
+    }
+
+    // 5. 按部门过滤用户（与 user_ids 取交集）
+    let userIds = input.user_ids;
+    if (input.department) {
+      const departmentUserIds = new Set(
+        (await userService.getUsersByDepartment(input.department, signal)).map(u => u.id)
+      );
+      userIds = input.user_ids
+        ? input.user_ids.filter(id => departmentUserIds.has(id))
+        : Array.from(departmentUserIds);
+      if (userIds.length === 0) {
+        return {
+          error: `No users found in department "${input.department}"${input.user_ids ? ' among the given user_ids' : ''}. Use list_users to check department names.`,
+          code: 'NO_USERS',
+        };
+      }
+    }
+
+    // 6. 统计成本
+    const report = await costService.getCostSummary(timeRange.start, timeRange.end, {
+      userIds,
+      projectId,
+      signal,
+    });
+
+    // 7. 上游请求失败时不输出"零成本"的误导性结果
+    const dataQuality = report.result.data_quality;
+    if (dataQuality.workloads_count === 0
+        && dataQuality.pagination_truncated
+        && dataQuality.truncation_reasons?.includes('fetch_error')) {
+      return {
+        error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    // 8. 格式化输出
+    return formatOutput(report);
+  } catch (error) {
+    logger.error({ error, input }, 'cost_summary failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function toCostUser(user: UserInfo): CostUser {
+  return {
+    id: user.id,
+    name: user.name,
+    display_name: user.display_name,
+    department: user.department,
+    job: user.job,
+  };
+}
+
+function toCostProject(project: ProjectInfo): CostProject {
+  return {
+    id: project.id,
+    identifier: project.identifier,
+    name: project.name,
+  };
+}
+
+function bucketFields(bucket: CostBucket): { hours: number; unrated_hours: number; cost: CostByCurrency } {
+  return {
+    hours: bucket.hours,
+    unrated_hours: bucket.unrated_hours,
+    cost: bucket.cost,
+  };
+}
+
+function formatOutput({ cost, result }: CostReport): CostSummaryOutput {
+  return {
+    summary: {
+      time_range: {
+        start: formatTimestamp(result.summary.time_range.start_at),
+        end: formatTimestamp(result.summary.time_range.end_at),
+      },
+      total_hours: cost.total.hours,
+      unrated_hours: cost.total.unrated_hours,
+      cost: cost.total.cost,
+      user_count: cost.by_member.length,
+    },
+    by_member: cost.by_member.map(m => ({
+      user: toCostUser(m.user),
+      ...bucketFields(m),
+      rates: m.rates,
+    })),
+    by_project: cost.by_project.map(p => ({
+      project: toCostProject(p.project),
+      ...bucketFields(p),
+    })),
+    by_month: cost.by_month.map(m => ({
+      month: m.month,
+      ...bucketFields(m),
+    })),
+    unrated_entries: cost.unrated_entries.slice(0, MAX_UNRATED_ENTRIES).map(e => ({
+      workload_id: e.workload_id,
+      date: e.date,
+      hours: e.hours,
+      user: toCostUser(e.user),
+      project: e.project ? toCostProject(e.project) : null,
+    })),
+    unrated_entry_count: cost.unrated_entries.length,
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const costSummaryToolDefinition = {
+  name: 'cost_summary',
+  ...createToolDefinition(
+    `按费率卡将工时换算为人工成本，按项目、成员、月份汇总。
+
+费率卡由服务端配置（RATE_CARD_FILE），可按成员、职位、部门设置每小时费率、币种和生效日期；
+优先级为成员 > 职位 > 部门，每条工时按填报日期匹配当日生效的费率。
+
+支持：
+- time_range 默认上月（last_month），支持日期或别名
+- 按 user_ids、项目（project_id，支持 ID、标识或名称）、部门（department）过滤
+
+返回：
+- summary: 总工时、无费率工时（unrated_hours）、按币种汇总的成本（cost）
+- by_member / by_project / by_month: 各维度的工时和成本（by_member 含用到的费率及来源）
+- unrated_entries: 没有适用费率的工时明细（最多 200 条），unrated_entry_count 为总条数
+- data_quality: 数据质量指标（details_truncated 为 true 时成本不完整）`,
+    CostSummaryInputSchema,
+  ),
+};
@@ -0,0 +1,226 @@
+import { z } from 'zod';
+import { userService } from '../services/userService.js';
+import { workItemService } from '../services/workItemService.js';
+import { createWorkload as createWorkloadApi } from '../api/endpoints/workloads.js';
+import { parseDateInput, dateToTimestamp, getTodayDate } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// 单条工时上限（小时）
+const MAX_HOURS_PER_ENTRY = 24;
+
+// ============ Schema 定义 ============
+
+export const CreateWorkloadInputSchema = z.object({
+  user: z.object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+  }).refine(data => data.id || data.name, {
+    message: 'Either user.id or user.name is required',
+  }),
+  work_item: z.string(),
+  date: z.string().optional().default('today'),
+  hours: z.number(),
+  description: z.string().optional(),
+  type_id: z.string().optional(),
+  dry_run: z.boolean().optional().default(false),
+});
+
+export type CreateWorkloadInput = z.infer<typeof CreateWorkloadInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface CreateWorkloadOutput {
+  dry_run: boolean;
+  workload: {
+    /** dry_run 时为 null */
+    id: string | null;
+    date: string;
+    hours: number;
+    user: {
+      id: string;
+      name: string;
+      display_name: string;
+    };
+    work_item: {
+      id: string;
+      identifier: string;
+      title: string;
+      project: { id: string | null; identifier: string | null; name: string };
+    };
+    description: string | null;
+    type_id: string | null;
+  };
+  message: string;
+}
+
+export interface CreateWorkloadError {
+  error: string;
+  code: 'INVALID_PARAMS' | 'INVALID_DATE' | 'USER_NOT_FOUND' | 'USER_AMBIGUOUS' | 'WORK_ITEM_NOT_FOUND' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{
+    id: string;
+    name: string;
+    display_name: string;
+    match_type: string;
+  }>;
+}
+
+export type CreateWorkloadResult = CreateWorkloadOutput | CreateWorkloadError;
+
+// ============ Tool 实现 ============
+
+export async function createWorkload(input: CreateWorkloadInput, signal?: AbortSignal): Promise<CreateWorkloadResult> {
+  logger.info({ input }, 'create_workload called');
+
+  try {
+    // 1. 校验工时
+    if (!Number.isFinite(input.hours) || input.hours <= 0 || input.hours > MAX_HOURS_PER_ENTRY) {
+      return {
+        error: `hours must be greater than 0 and at most ${MAX_HOURS_PER_ENTRY}, got ${input.hours}`,
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    // 2. 校验日期（不允许登记未来日期）
+    let date: string;
+    try {
+      date = parseDateInput(input.date);
+    } catch (error) {
+      return {
+        error: (error as Error).message,
+        code: 'INVALID_DATE',
+      };
+    }
+    if (date > getTodayDate()) {
+      return {
+        error: `Cannot log hours for a future date: ${date}`,
+        code: 'INVALID_DATE',
+      };
+    }
+
+    // 3. 解析用户
+    const userResult = await userService.resolveUser(input.user, signal);
+
+    if (userResult.ambiguous) {
+      return {
+        error: `Multiple users match "${input.user.name}". Please specify user.id or provide a more specific name.`,
+        code: 'USER_AMBIGUOUS',
+        candidates: userResult.candidates.map(c => ({
+          id: c.user.id,
+          name: c.user.name,
+          display_name: c.user.display_name,
+          match_type: c.matchType,
+        })),
+      };
+    }
+
+    if (!userResult.user) {
+      return {
+        error: `User not found: ${input.user.id || input.user.name}`,
+        code: 'USER_NOT_FOUND',
+      };
+    }
+
+    // 4. 解析工作项
+    const workItem = await workItemService.resolveWorkItemRef(input.work_item, signal);
+    if (!workItem) {
+      return {
+        error: `Work item not found: ${input.work_item}`,
+        code: 'WORK_ITEM_NOT_FOUND',
+      };
+    }
+
+    const user = userResult.user;
+    const description = input.description?.trim() || null;
+    const preview: CreateWorkloadOutput['workload'] = {
+      id: null,
+      date,
+      hours: input.hours,
+      user: {
+        id: user.id,
+        name: user.name,
+        display_name: user.display_name,
+      },
+      work_item: {
+        id: workItem.id,
+        identifier: workItem.identifier,
+        title: workItem.title,
+        project: {
+          id: workItem.project.id,
+          identifier: workItem.project.identifier,
+          name: workItem.project.name,
+        },
+      },
+      description,
+      type_id: input.type_id ?? null,
+    };
+
+    // 5. dry_run：只返回预览
+    if (input.dry_run) {
+      return {
+        dry_run: true,
+        workload: preview,
+        message: `预览：将为 ${user.display_name} 在 ${date} 登记 ${input.hours} 小时到 ${workItem.identifier}，未写入 PingCode。`,
+      };
+    }
+
+    // 6. 写入
+    const created = await createWorkloadApi({
+      workItemId: workItem.id,
+      duration: input.hours,
+      reportAt: dateToTimestamp(date),
+      reportById: user.id,
+      description: description ?? undefined,
+      typeId: input.type_id,
+      signal,
+    });
+
+    logger.info({ workloadId: created.id, userId: user.id, workItemId: workItem.id }, 'Workload created');
+
+    return {
+      dry_run: false,
+      workload: { ...preview, id: created.id, hours: created.duration },
+      message: `已为 ${user.display_name} 在 ${date} 登记 ${created.duration} 小时到 ${workItem.identifier}。`,
+    };
+  } catch (error) {
+    logger.error({ error, input }, 'create_workload failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ MCP Tool 定义 ============
+
+export const createWorkloadToolDefinition = {
+  name: 'create_workload',
+  ...createToolDefinition(
+    `为成员登记一条工时（写入 PingCode）。
+
+参数：
+- user: 填报人（id 或 name）
+- work_item: 工作项 ID 或编号（如 "PROJ-101"）
+- date: 填报日期，支持 yyyy-MM-dd、today/yesterday、今天/昨天，默认今天，不能是未来日期
+- hours: 工时（小时），大于 0 且不超过 24
+- description / type_id: 工作内容和工时类型（可选）
+- dry_run: 为 true 时只校验并返回预览，不写入
+
+建议先以 dry_run=true 预览并与用户确认，再正式登记。user 模式下只能为本人登记。
+
+返回：
+- dry_run: 是否为预览
+- workload: 登记内容（dry_run 时 id 为 null）
+- message: 结果说明`,
+    CreateWorkloadInputSchema,
+  ),
+};
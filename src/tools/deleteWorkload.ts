@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { getWorkload, deleteWorkload as deleteWorkloadApi } from '../api/endpoints/workloads.js';
+import { issueConfirmToken, verifyConfirmToken } from '../utils/confirmToken.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { toWorkloadView, workloadFingerprint, type WorkloadView } from './workloadView.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const DeleteWorkloadInputSchema = z.object({
+  workload_id: z.string(),
+  // 预览时返回的确认令牌；不传时只预览
+  confirm_token: z.string().optional(),
+  // Internal: set by scopeEnforcer in user mode to restrict to the user's own entries
+  _restrict_to_user_id: z.string().optional(),
+});
+
+export type DeleteWorkloadInput = z.infer<typeof DeleteWorkloadInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface DeleteWorkloadPreview {
+  status: 'preview';
+  workload: WorkloadView;
+  confirm_token: string;
+  expires_at: string;
+  message: string;
+}
+
+export interface DeleteWorkloadOutput {
+  status: 'deleted';
+  workload: WorkloadView;
+  message: string;
+}
+
+export interface DeleteWorkloadError {
+  error: string;
+  code: 'WORKLOAD_NOT_FOUND' | 'FORBIDDEN' | 'CONFIRM_TOKEN_INVALID' | 'CONFIRM_TOKEN_EXPIRED' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+}
+
+export type DeleteWorkloadResult = DeleteWorkloadPreview | DeleteWorkloadOutput | DeleteWorkloadError;
+
+// ============ Tool 实现 ============
+
+export async function deleteWorkload(input: DeleteWorkloadInput, signal?: AbortSignal): Promise<DeleteWorkloadResult> {
+  logger.info({ input }, 'delete_workload called');
+
+  try {
+    // 1. 获取当前记录并校验归属
+    const current = await getWorkload(input.workload_id, signal);
+    if (!current) {
+      return {
+        error: `Workload not found: ${input.workload_id}`,
+        code: 'WORKLOAD_NOT_FOUND',
+      };
+    }
+
+    if (input._restrict_to_user_id && current.report_by.id !== input._restrict_to_user_id) {
+      return {
+        error: `Workload ${input.workload_id} belongs to another user and cannot be deleted`,
+        code: 'FORBIDDEN',
+      };
+    }
+
+    const view = toWorkloadView(current);
+    const tokenPayload = { current: workloadFingerprint(current) };
+
+    // 2. 未携带令牌：返回预览和确认令牌
+    if (!input.confirm_token) {
+      const { token, expiresAt } = issueConfirmToken('delete_workload', tokenPayload);
+      return {
+        status: 'preview',
+        workload: view,
+        confirm_token: token,
+        expires_at: new Date(expiresAt).toISOString(),
+        message: `预览：将删除 ${view.user.display_name} 在 ${view.date} 的 ${view.hours} 小时工时记录，尚未删除。请与用户确认后携带 confirm_token 再次调用。`,
+      };
+    }
+
+    // 3. 校验令牌后执行
+    const tokenStatus = verifyConfirmToken(input.confirm_token, 'delete_workload', tokenPayload);
+    if (tokenStatus === 'expired') {
+      return {
+        error: 'Confirm token expired. Call delete_workload without confirm_token to preview again.',
+        code: 'CONFIRM_TOKEN_EXPIRED',
+      };
+    }
+    if (tokenStatus === 'invalid') {
+      return {
+        error: 'Confirm token does not match this workload (it may have changed since the preview). Call delete_workload without confirm_token to preview again.',
+        code: 'CONFIRM_TOKEN_INVALID',
+      };
+    }
+
+    await deleteWorkloadApi(current.id, signal);
+
+    logger.info({ workloadId: current.id, userId: current.report_by.id }, 'Workload deleted');
+
+    return {
+      status: 'deleted',
+      workload: view,
+      message: `已删除 ${view.user.display_name} 在 ${view.date} 的 ${view.hours} 小时工时记录。`,
+    };
+  } catch (error) {
+    logger.error({ error, input }, 'delete_workload failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ MCP Tool 定义 ============
+
+export const deleteWorkloadToolDefinition = {
+  name: 'delete_workload',
+  ...createToolDefinition(
+    `删除一条工时记录（写入 PingCode，不可恢复），采用两步确认。
+
+参数：
+- workload_id: 工时记录 ID（可从 list_workloads 获取）
+- confirm_token: 确认令牌
+
+流程：
+1. 不传 confirm_token 调用，返回将被删除的记录和 confirm_token，不会删除
+2. 与用户确认后携带 confirm_token 再次调用，才会真正删除
+令牌 5 分钟内有效，记录在此期间被修改则失效。user 模式下只能删除本人的记录。
+
+返回：
+- status: preview / deleted
+- workload: 被删除（或将被删除）的记录`,
+    DeleteWorkloadInputSchema,
+  ),
+};
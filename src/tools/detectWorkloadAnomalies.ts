@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import { anomalyService, ANOMALY_RULES, type AnomalyResult } from '../services/anomalyService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const DetectWorkloadAnomaliesInputSchema = z.object({
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  user_ids: z.array(z.string()).optional(),
+  // 要执行的规则，省略时执行全部
+  rules: z.array(z.enum(ANOMALY_RULES)).min(1).optional(),
+  // 未指定时使用 ANOMALY_* 配置
+  max_entry_hours: z.number().positive().optional(),
+  max_daily_hours: z.number().positive().optional(),
+  future_days: z.number().int().min(0).optional(),
+});
+
+export type DetectWorkloadAnomaliesInput = z.infer<typeof DetectWorkloadAnomaliesInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface DetectWorkloadAnomaliesOutput {
+  summary: Omit<AnomalyResult['summary'], 'time_range'> & {
+    time_range: {
+      start: string;
+      end: string;
+    };
+  };
+  users: Array<{
+    user: {
+      id: string;
+      name: string;
+      display_name: string;
+      department?: string;
+    };
+    findings: AnomalyResult['users'][0]['findings'];
+  }>;
+  data_quality: AnomalyResult['data_quality'];
+}
+
+export interface DetectWorkloadAnomaliesError {
+  error: string;
+  code: 'INVALID_PARAMS' | 'INVALID_TIME_RANGE' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+}
+
+export type DetectWorkloadAnomaliesResult = DetectWorkloadAnomaliesOutput | DetectWorkloadAnomaliesError;
+
+// ============ Tool 实现 ============
+
+export async function detectWorkloadAnomalies(input: DetectWorkloadAnomaliesInput, signal?: AbortSignal): Promise<DetectWorkloadAnomaliesResult> {
+  logger.info({ input }, 'detect_workload_anomalies called');
+
+  try {
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to check all users.',
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    // 1. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 执行异常检测
+    const result = await anomalyService.detectAnomalies(
+      timeRange.start,
+      timeRange.end,
+      {
+        userIds: input.user_ids,
+        rules: input.rules,
+        thresholds: {
+          maxEntryHours: input.max_entry_hours,
+          maxDailyHours: input.max_daily_hours,
+          futureDays: input.future_days,
+        },
+        signal,
+      }
+    );
+
+    // 3. 上游请求失败时不输出"无异常"的误导性结果
+    if (result.data_quality.workloads_count === 0
+        && result.data_quality.pagination_truncated
+        && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+      return {
+        error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    // 4. 格式化输出
+    return formatOutput(result);
+  } catch (error) {
+    logger.error({ error, input }, 'detect_workload_anomalies failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatOutput(result: AnomalyResult): DetectWorkloadAnomaliesOutput {
+  const { time_range: timeRange, ...summary } = result.summary;
+
+  return {
+    summary: {
+      time_range: {
+        start: formatTimestamp(timeRange.start_at),
+        end: formatTimestamp(timeRange.end_at),
+      },
+      ...summary,
+    },
+    users: result.users.map(u => ({
+      user: {
+        id: u.user.id,
+        name: u.user.name,
+        display_name: u.user.display_name,
+        department: u.user.department,
+      },
+      findings: u.findings,
+    })),
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const detectWorkloadAnomaliesToolDefinition = {
+  name: 'detect_workload_anomalies',
+  ...createToolDefinition(
+    `检测可疑的工时填报，按成员返回命中的规则及对应的工时记录 ID。
+
+规则（rules，省略时全部执行）：
+- entry_over_hours: 单条记录超过 max_entry_hours（默认 12 小时）
+- daily_over_hours: 单人单日合计超过 max_daily_hours（默认 16 小时）
+- weekend_only: 区间内只在非工作日填报（已配置日历时按节假日/调休判断）
+- duplicate_entry: 同一天、同工作项、同工时、同类型、同描述的重复记录
+- future_entry: 填报日期晚于今天 future_days 天以上（默认 1 天；除 time_range 外还会检查截止日之后 90 天内的记录）
+
+支持：
+- 指定 user_ids，或省略以检查全部成员
+- 阈值参数未指定时取 ANOMALY_* 配置
+
+返回：
+- summary: 执行的规则与阈值、检查人数、命中人数、各规则命中次数
+- users: 有异常的成员及其 findings（rule、message、date、hours、workload_ids），按异常数降序
+- data_quality: 数据质量指标`,
+    DetectWorkloadAnomaliesInputSchema,
+  ),
+};
@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import {
+  estimateService,
+  type EstimateResult,
+  type EstimateTotals,
+  type WorkItemEstimate,
+} from '../services/estimateService.js';
+import { projectService } from '../services/projectService.js';
+import { workItemService } from '../services/workItemService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const EstimateVsActualInputSchema = z.object({
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  // 项目 ID、标识（如 "PROJ"）或名称
+  project: z.string().optional(),
+  // 工作项 ID 或编号（如 "PROJ-101"）
+  work_items: z.array(z.string()).optional(),
+  top_n: z.number().int().min(1).max(100).optional().default(20),
+});
+
+export type EstimateVsActualInput = z.infer<typeof EstimateVsActualInputSchema>;
+
+// ============ 输出类型 ============
+
+interface EstimateItemOutput {
+  work_item: {
+    id: string;
+    identifier: string;
+    title: string;
+    state?: string;
+    type?: string;
+  };
+  project: {
+    id: string | null;
+    identifier: string | null;
+    name: string;
+  };
+  estimated_hours: number | null;
+  remaining_hours: number | null;
+  actual_hours: number;
+  variance_hours: number | null;
+  overrun_ratio: number | null;
+}
+
+export interface EstimateVsActualOutput {
+  summary: EstimateTotals & {
+    time_range: {
+      start: string;
+      end: string;
+    };
+  };
+  over_estimate_items: EstimateItemOutput[];
+  by_project: Array<EstimateTotals & {
+    project: {
+      id: string | null;
+      identifier: string | null;
+      name: string;
+    };
+  }>;
+  data_quality: EstimateResult['data_quality'];
+}
+
+export interface EstimateVsActualError {
+  error: string;
+  code: 'INVALID_PARAMS' | 'INVALID_TIME_RANGE' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'WORK_ITEM_NOT_FOUND' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{
+    id: string | null;
+    identifier: string | null;
+    name: string;
+    match_type: string;
+  }>;
+}
+
+export type EstimateVsActualResult = EstimateVsActualOutput | EstimateVsActualError;
+
+// ============ Tool 实现 ============
+
+export async function estimateVsActual(input: EstimateVsActualInput, signal?: AbortSignal): Promise<EstimateVsActualResult> {
+  logger.info({ input }, 'estimate_vs_actual called');
+
+  try {
+    // 工时记录只走服务端过滤：必须指定项目或工作项，不做全企业工时的无过滤拉取
+    if (!input.project && !(input.work_items && input.work_items.length > 0)) {
+      return {
+        error: 'Either project or work_items is required. Use list_projects to look up projects.',
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    // 1. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 解析项目（支持项目 ID、标识或名称）
+    let projectId: string | undefined;
+    if (input.project) {
+      const projectResult = await projectService.resolveProjectRef(input.project, signal);
+      if (projectResult.ambiguous) {
+        return {
+          error: `Multiple projects match "${input.project}". Please specify the project ID or identifier.`,
+          code: 'AMBIGUOUS_PROJECT',
+          candidates: projectResult.candidates.map(c => ({
+            id: c.project.id,
+            identifier: c.project.identifier,
+            name: c.project.name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!projectResult.project?.id) {
+        return {
+          error: `Project not found: ${input.project}. Use list_projects to look up projects.`,
+          code: 'PROJECT_NOT_FOUND',
+        };
+      }
+      projectId = projectResult.project.id;
+    }
+
+    // 3. 解析工作项（支持 ID 或编号）
+    let workItemIds: string[] | undefined;
+    if (input.work_items && input.work_items.length > 0) {
+      workItemIds = [];
+      for (const ref of input.work_items) {
+        const workItem = await workItemService.resolveWorkItemRef(ref, signal);
+        if (!workItem) {
+          return {
+            error: `Work item not found: ${ref}`,
+            code: 'WORK_ITEM_NOT_FOUND',
+          };
+        }
+        workItemIds.push(workItem.id);
+      }
+    }
+
+    // 4. 计算预估 vs 实际
+    const result = await estimateService.getEstimateVsActual(
+      timeRange.start,
+      timeRange.end,
+      { projectId, workItemIds, signal }
+    );
+
+    // 5. 检查是否有数据
+    if (result.data_quality.workloads_count === 0) {
+      if (result.data_quality.pagination_truncated
+          && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+        return {
+          error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+          code: 'UPSTREAM_API_ERROR',
+        };
+      }
+      const startDate = formatTimestamp(timeRange.start);
+      const endDate = formatTimestamp(timeRange.end);
+      const truncatedNote = result.data_quality.pagination_truncated ? '（工时记录获取被截断，结果可能不完整）' : '';
+      return {
+        error: `在 ${startDate} 至 ${endDate} 期间没有找到关联工作项的工时记录${truncatedNote}。`,
+        code: 'NO_DATA',
+      };
+    }
+
+    // 6. 格式化输出
+    return formatOutput(result, input.top_n);
+  } catch (error) {
+    logger.error({ error, input }, 'estimate_vs_actual failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatOutput(result: EstimateResult, topN: number): EstimateVsActualOutput {
+  const { time_range: timeRange, ...totals } = result.summary;
+
+  return {
+    summary: {
+      time_range: {
+        start: formatTimestamp(timeRange.start_at),
+        end: formatTimestamp(timeRange.end_at),
+      },
+      ...totals,
+    },
+    over_estimate_items: result.items
+      .filter(i => i.over_estimate)
+      .slice(0, topN)
+      .map(formatItem),
+    by_project: result.by_project.map(({ project, ...projectTotals }) => ({
+      project: {
+        id: project.id,
+        identifier: project.identifier,
+        name: project.name,
+      },
+      ...projectTotals,
+    })),
+    data_quality: result.data_quality,
+  };
+}
+
+function formatItem(item: WorkItemEstimate): EstimateItemOutput {
+  return {
+    work_item: {
+      id: item.work_item.id,
+      identifier: item.work_item.identifier,
+      title: item.work_item.title,
+      state: item.work_item.state,
+      type: item.work_item.type,
+    },
+    project: {
+      id: item.work_item.project.id,
+      identifier: item.work_item.project.identifier,
+      name: item.work_item.project.name,
+    },
+    estimated_hours: item.estimated_hours,
+    remaining_hours: item.remaining_hours,
+    actual_hours: item.actual_hours,
+    variance_hours: item.variance_hours,
+    overrun_ratio: item.overrun_ratio,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const estimateVsActualToolDefinition = {
+  name: 'estimate_vs_actual',
+  ...createToolDefinition(
+    `对比工作项的预估工时与实际登记工时，找出超出预估的工作项。
+
+支持：
+- 统计时间范围内有工时记录的工作项（实际工时只计该范围内的记录，预估工时取工作项当前值）
+- project: 按项目过滤（项目 ID、标识如 "PROJ" 或名称）
+- work_items: 只分析指定工作项（ID 或编号如 "PROJ-101"）
+- project 与 work_items 至少指定一个
+- top_n: 返回超支工作项数量（默认 20）
+
+返回：
+- summary: 工作项数、已填预估数、超支数、预估/实际工时合计、整体超支比例（实际/预估，仅统计已填预估的工作项）
+- over_estimate_items: 超出预估的工作项，按超支比例降序（含剩余工时、差额）
+- by_project: 按项目汇总的预估/实际工时与超支比例
+- data_quality: 数据质量指标（pagination_truncated 为 true 时实际工时可能偏少）`,
+    EstimateVsActualInputSchema,
+  ),
+};
@@ -0,0 +1,134 @@
+import type { TeamMemberSummary, TeamWorkloadDetail, TeamWorkResult, HoursByProject } from '../services/workloadService.js';
+import type { ExportTable } from '../utils/export.js';
+
+// 导出明细行上限（JSON 输出为 500 行）
+export const EXPORT_MAX_DETAILS = 20000;
+
+/**
+ * 工时明细 → 导出表格（一条工时记录一行）
+ */
+export function workloadDetailsTable(details: TeamWorkloadDetail[]): ExportTable {
+  return {
+    header: [
+      'date', 'user_id', 'user_name', 'display_name', 'department', 'hours', 'type', 'review_state',
+      'work_item_identifier', 'work_item_title', 'project_identifier', 'project_name',
+      'description', 'workload_id',
+    ],
+    rows: details.map(d => [
+      d.date,
+      d.user.id,
+      d.user.name,
+      d.user.display_name,
+      d.user.department,
+      d.hours,
+      d.type,
+      d.review_state,
+      d.work_item?.identifier,
+      d.work_item?.title,
+      d.project?.identifier,
+      d.project?.name,
+      d.description,
+      d.workload_id,
+    ]),
+  };
+}
+
+/**
+ * 成员汇总 → 导出表格（一位成员一行）
+ *
+ * 成员的分组聚合（top_projects / by_day 等）按 "名称: 工时" 以分号拼接到最后一列。
+ */
+export function memberSummaryTable(members: TeamMemberSummary[]): ExportTable {
+  const breakdownColumn = BREAKDOWN_FIELDS.find(f => members.some(m => m[f.key]))
+    ?? BREAKDOWN_FIELDS[0];
+
+  return {
+    header: [
+      'user_id', 'user_name', 'display_name', 'department', 'total_hours',
+      'approved_hours', 'pending_hours', 'rejected_hours', breakdownColumn.key,
+    ],
+    rows: members.map(m => [
+      m.user.id,
+      m.user.name,
+      m.user.display_name,
+      m.user.department,
+      m.total_hours,
+      m.by_review_state.approved,
+      m.by_review_state.pending,
+      m.by_review_state.rejected,
+      breakdownColumn.format(m),
+    ]),
+  };
+}
+
+/**
+ * 项目工时 → 导出表格（一个项目一行）
+ */
+export function projectHoursTable(projects: HoursByProject[], totalHours: number): ExportTable {
+  return {
+    header: ['project_id', 'project_identifier', 'project_name', 'hours', 'share'],
+    rows: projects.map(p => [
+      p.project.id,
+      p.project.identifier,
+      p.project.name,
+      p.hours,
+      totalHours > 0 ? Math.round((p.hours / totalHours) * 10000) / 10000 : 0,
+    ]),
+  };
+}
+
+/**
+ * 人天 / 人周矩阵 → 导出表格（一位成员一行，每个日期或周一列，末列为合计）
+ */
+export function matrixTable(result: Pick<TeamWorkResult, 'by_day_matrix' | 'by_week_matrix'>): ExportTable | null {
+  const userColumns = ['user_id', 'user_name', 'display_name', 'department'];
+
+  if (result.by_day_matrix) {
+    const { dates, rows } = result.by_day_matrix;
+    return {
+      header: [...userColumns, ...dates, 'total_hours'],
+      rows: rows.map(r => [
+        r.user.id, r.user.name, r.user.display_name, r.user.department,
+        ...r.hours_per_day,
+        sumHours(r.hours_per_day),
+      ]),
+    };
+  }
+
+  if (result.by_week_matrix) {
+    const { weeks, rows } = result.by_week_matrix;
+    return {
+      header: [...userColumns, ...weeks, 'total_hours'],
+      rows: rows.map(r => [
+        r.user.id, r.user.name, r.user.display_name, r.user.department,
+        ...r.hours_per_week,
+        sumHours(r.hours_per_week),
+      ]),
+    };
+  }
+
+  return null;
+}
+
+// ============ 辅助函数 ============
+
+function sumHours(hours: number[]): number {
+  return Math.round(hours.reduce((sum, h) => sum + h, 0) * 100) / 100;
+}
+
+type BreakdownKey = Exclude<keyof TeamMemberSummary, 'user' | 'total_hours'>;
+
+function joinHours(entries: Array<{ label: string; hours: number }> | undefined): string {
+  return (entries ?? []).map(e => `${e.label}: ${e.hours}`).join('; ');
+}
+
+const BREAKDOWN_FIELDS: Array<{ key: BreakdownKey; format: (m: TeamMemberSummary) => string }> = [
+  { key: 'top_projects', format: m => joinHours(m.top_projects?.map(p => ({ label: p.project.name, hours: p.hours }))) },
+  { key: 'top_work_items', format: m => joinHours(m.top_work_items?.map(w => ({ label: w.work_item.identifier, hours: w.hours }))) },
+  { key: 'by_project', format: m => joinHours(m.by_project?.map(p => ({ label: p.project.name, hours: p.hours }))) },
+  { key: 'by_work_item', format: m => joinHours(m.by_work_item?.map(w => ({ label: w.work_item.identifier, hours: w.hours }))) },
+  { key: 'by_type', format: m => joinHours(m.by_type?.map(t => ({ label: t.type, hours: t.hours }))) },
+  { key: 'by_day', format: m => joinHours(m.by_day?.map(d => ({ label: d.date, hours: d.hours }))) },
+  { key: 'by_week', format: m => joinHours(m.by_week?.map(w => ({ label: w.week, hours: w.hours }))) },
+  { key: 'by_month', format: m => joinHours(m.by_month?.map(mo => ({ label: mo.month, hours: mo.hours }))) },
+];
@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import { workloadService, type TeamWorkResult } from '../services/workloadService.js';
+import { userService } from '../services/userService.js';
+import { projectService } from '../services/projectService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import {
+  memberSummaryTable,
+  workloadDetailsTable,
+  projectHoursTable,
+  matrixTable,
+  EXPORT_MAX_DETAILS,
+} from './exportTables.js';
+import type { ExportFile } from '../utils/export.js';
+import { buildXlsxExportFile, type XlsxSheet } from '../utils/xlsx.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ 常量 ============
+
+// 工作簿中的项目表及成员 Top 项目不做截断
+const WORKBOOK_TOP_N = 1000;
+
+// ============ Schema 定义 ============
+
+export const ExportTeamWorkbookInputSchema = z.object({
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  user_ids: z.array(z.string()).optional(),
+  project_id: z.string().optional(),
+  department: z.string().optional(),
+  // 矩阵工作表按天还是按周
+  matrix_type: z.enum(['day', 'week']).optional().default('day'),
+  include_details: z.boolean().optional().default(true),
+});
+
+export type ExportTeamWorkbookInput = z.infer<typeof ExportTeamWorkbookInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface ExportTeamWorkbookOutput {
+  summary: {
+    time_range: {
+      start_at: number;
+      end_at: number;
+    };
+    total_hours: number;
+    user_count: number;
+  };
+  export: ExportFile & {
+    sheets: Array<{ name: string; row_count: number }>;
+  };
+  data_quality: TeamWorkResult['data_quality'];
+}
+
+export interface ExportTeamWorkbookError {
+  error: string;
+  code: 'INVALID_TIME_RANGE' | 'NO_USERS' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
+}
+
+export type ExportTeamWorkbookResult = ExportTeamWorkbookOutput | ExportTeamWorkbookError;
+
+// ============ Tool 实现 ============
+
+export async function exportTeamWorkbook(input: ExportTeamWorkbookInput, signal?: AbortSignal): Promise<ExportTeamWorkbookResult> {
+  logger.info({ input }, 'export_team_workbook called');
+
+  try {
+    // 1. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 验证用户列表（如果指定）
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to export all users.',
+        code: 'NO_USERS',
+      };
+    }
+
+    // 3. 解析项目（支持项目 ID、标识或名称）
+    let projectId: string | undefined;
+    if (input.project_id) {
+      const projectResult = await projectService.resolveProjectRef(input.project_id, signal);
+      if (projectResult.ambiguous) {
+        return {
+          error: `Multiple projects match "${input.project_id}". Please specify the project ID or identifier.`,
+          code: 'AMBIGUOUS_PROJECT',
+          candidates: projectResult.candidates.map(c => ({
+            id: c.project.id,
+            identifier: c.project.identifier,
+            name: c.project.name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!projectResult.project?.id) {
+        return {
+          error: `Project not found: ${input.project_id}. Use list_projects to look up projects.`,
+          code: 'PROJECT_NOT_FOUND',
+        };
+      }
+      projectId = projectResult.project.id;
+    }
+
+    // 4. 按部门过滤用户（与 user_ids 取交集）
+    let userIds = input.user_ids;
+    if (input.department) {
+      const departmentUserIds = new Set(
+        (await userService.getUsersByDepartment(input.department, signal)).map(u => u.id)
+      );
+      userIds = input.user_ids
+        ? input.user_ids.filter(id => departmentUserIds.has(id))
+        : Array.from(departmentUserIds);
+      if (userIds.length === 0) {
+        return {
+          error: `No users found in department "${input.department}"${input.user_ids ? ' among the given user_ids' : ''}. Use list_users to check department names.`,
+          code: 'NO_USERS',
+        };
+      }
+    }
+
+    // 5. 获取团队工时（含项目聚合与矩阵）
+    const result = await workloadService.getTeamWorkSummary(
+      timeRange.start,
+      timeRange.end,
+      {
+        userIds,
+        projectId,
+        topN: WORKBOOK_TOP_N,
+        extraGroupBy: ['project'],
+        includeMatrix: true,
+        matrixType: input.matrix_type,
+        includeZeroUsers: true,
+        maxDetails: EXPORT_MAX_DETAILS,
+        signal,
+      }
+    );
+
+    // 6. 检查是否有数据
+    if (result.data_quality.workloads_count === 0) {
+      if (result.data_quality.pagination_truncated
+          && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+        return {
+          error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+          code: 'UPSTREAM_API_ERROR',
+        };
+      }
+      return {
+        error: `在 ${formatTimestamp(timeRange.start)} 至 ${formatTimestamp(timeRange.end)} 期间没有找到工时记录。`,
+        code: 'NO_DATA',
+      };
+    }
+
+    // 7. 生成工作簿
+    return formatOutput(result, input.include_details);
+  } catch (error) {
+    logger.error({ error, input }, 'export_team_workbook failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function buildSheets(result: TeamWorkResult, includeDetails: boolean): XlsxSheet[] {
+  const { summary, data_quality: dataQuality } = result;
+
+  const sheets: XlsxSheet[] = [
+    {
+      name: 'Summary',
+      table: {
+        header: ['field', 'value'],
+        rows: [
+          ['start_date', formatTimestamp(summary.time_range.start_at)],
+          ['end_date', formatTimestamp(summary.time_range.end_at)],
+          ['total_hours', summary.total_hours],
+          ['user_count', summary.user_count],
+          ['project_count', summary.by_project?.length ?? 0],
+          ['workloads_count', dataQuality.workloads_count],
+          ['missing_work_item_count', dataQuality.missing_work_item_count],
+          ['time_sliced', dataQuality.time_sliced],
+          ['pagination_truncated', dataQuality.pagination_truncated],
+          ['details_truncated', dataQuality.details_truncated],
+        ],
+      },
+    },
+    { name: 'Members', table: memberSummaryTable(summary.members) },
+    { name: 'Projects', table: projectHoursTable(summary.by_project ?? [], summary.total_hours) },
+  ];
+
+  const matrix = matrixTable(result);
+  if (matrix) {
+    sheets.push({ name: result.by_week_matrix ? 'Week Matrix' : 'Day Matrix', table: matrix });
+  }
+
+  if (includeDetails) {
+    sheets.push({ name: 'Details', table: workloadDetailsTable(result.details) });
+  }
+
+  return sheets;
+}
+
+function formatOutput(result: TeamWorkResult, includeDetails: boolean): ExportTeamWorkbookOutput {
+  const { time_range: timeRange } = result.summary;
+  const baseName = `team-workbook_${formatTimestamp(timeRange.start_at)}_${formatTimestamp(timeRange.end_at)}`;
+  const sheets = buildSheets(result, includeDetails);
+
+  return {
+    summary: {
+      time_range: timeRange,
+      total_hours: result.summary.total_hours,
+      user_count: result.summary.user_count,
+    },
+    export: {
+      ...buildXlsxExportFile(baseName, sheets),
+      sheets: sheets.map(s => ({ name: s.name, row_count: s.table.rows.length })),
+    },
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const exportTeamWorkbookToolDefinition = {
+  name: 'export_team_workbook',
+  ...createToolDefinition(
+    `导出团队工时为 Excel 工作簿（.xlsx），文件以 base64 blob 的 embedded resource 返回。
+
+工作表：
+- Summary: 时间范围、总工时、成员数、项目数及数据质量指标
+- Members: 每位成员一行（总工时及各项目工时）
+- Projects: 每个项目一行（工时及占比）
+- Day Matrix / Week Matrix: 人天或人周矩阵（matrix_type=day/week，末列为合计）
+- Details: 工时明细（include_details=false 时省略），最多 ${EXPORT_MAX_DETAILS} 行
+
+支持：
+- 按 user_ids、项目（project_id，支持 ID、标识或名称）、部门（department）过滤
+
+返回：
+- summary: 时间范围、总工时、成员数
+- export: 文件信息（filename、mime_type、row_count、sheets、uri），文件内容在 resource 中
+- data_quality: 数据质量指标`,
+    ExportTeamWorkbookInputSchema,
+  ),
+};
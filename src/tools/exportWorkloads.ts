@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { workloadService, type TeamWorkResult } from '../services/workloadService.js';
+import { userService } from '../services/userService.js';
+import { projectService } from '../services/projectService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { memberSummaryTable, workloadDetailsTable, EXPORT_MAX_DETAILS } from './exportTables.js';
+import { buildExportFile, type ExportFile } from '../utils/export.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const ExportWorkloadsInputSchema = z.object({
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  user_ids: z.array(z.string()).optional(),
+  project_id: z.string().optional(),
+  department: z.string().optional(),
+  // details: 每条工时记录一行；members: 每位成员一行（含 Top 项目）
+  content: z.enum(['details', 'members']).optional().default('details'),
+  format: z.enum(['csv', 'tsv']).optional().default('csv'),
+});
+
+export type ExportWorkloadsInput = z.infer<typeof ExportWorkloadsInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface ExportWorkloadsOutput {
+  summary: {
+    time_range: {
+      start_at: number;
+      end_at: number;
+    };
+    total_hours: number;
+    user_count: number;
+  };
+  export: ExportFile;
+  data_quality: TeamWorkResult['data_quality'];
+}
+
+export interface ExportWorkloadsError {
+  error: string;
+  code: 'INVALID_TIME_RANGE' | 'NO_USERS' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
+}
+
+export type ExportWorkloadsResult = ExportWorkloadsOutput | ExportWorkloadsError;
+
+// ============ Tool 实现 ============
+
+export async function exportWorkloads(input: ExportWorkloadsInput, signal?: AbortSignal): Promise<ExportWorkloadsResult> {
+  logger.info({ input }, 'export_workloads called');
+
+  try {
+    // 1. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 验证用户列表（如果指定）
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to export all users.',
+        code: 'NO_USERS',
+      };
+    }
+
+    // 3. 解析项目（支持项目 ID、标识或名称）
+    let projectId: string | undefined;
+    if (input.project_id) {
+      const projectResult = await projectService.resolveProjectRef(input.project_id, signal);
+      if (projectResult.ambiguous) {
+        return {
+          error: `Multiple projects match "${input.project_id}". Please specify the project ID or identifier.`,
+          code: 'AMBIGUOUS_PROJECT',
+          candidates: projectResult.candidates.map(c => ({
+            id: c.project.id,
+            identifier: c.project.identifier,
+            name: c.project.name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!projectResult.project?.id) {
+        return {
+          error: `Project not found: ${input.project_id}. Use list_projects to look up projects.`,
+          code: 'PROJECT_NOT_FOUND',
+        };
+      }
+      projectId = projectResult.project.id;
+    }
+
+    // 4. 按部门过滤用户（与 user_ids 取交集）
+    let userIds = input.user_ids;
+    if (input.department) {
+      const departmentUserIds = new Set(
+        (await userService.getUsersByDepartment(input.department, signal)).map(u => u.id)
+      );
+      userIds = input.user_ids
+        ? input.user_ids.filter(id => departmentUserIds.has(id))
+        : Array.from(departmentUserIds);
+      if (userIds.length === 0) {
+        return {
+          error: `No users found in department "${input.department}"${input.user_ids ? ' among the given user_ids' : ''}. Use list_users to check department names.`,
+          code: 'NO_USERS',
+        };
+      }
+    }
+
+    // 5. 获取团队工时（放宽明细上限）
+    const result = await workloadService.getTeamWorkSummary(
+      timeRange.start,
+      timeRange.end,
+      {
+        userIds,
+        projectId,
+        includeZeroUsers: input.content === 'members',
+        maxDetails: EXPORT_MAX_DETAILS,
+        signal,
+      }
+    );
+
+    // 6. 检查是否有数据
+    if (result.data_quality.workloads_count === 0) {
+      if (result.data_quality.pagination_truncated
+          && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+        return {
+          error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+          code: 'UPSTREAM_API_ERROR',
+        };
+      }
+      return {
+        error: `在 ${formatTimestamp(timeRange.start)} 至 ${formatTimestamp(timeRange.end)} 期间没有找到工时记录。`,
+        code: 'NO_DATA',
+      };
+    }
+
+    // 7. 生成导出文件
+    return formatOutput(result, input.content, input.format);
+  } catch (error) {
+    logger.error({ error, input }, 'export_workloads failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatOutput(
+  result: TeamWorkResult,
+  content: 'details' | 'members',
+  format: 'csv' | 'tsv'
+): ExportWorkloadsOutput {
+  const { time_range: timeRange } = result.summary;
+  const baseName = `workloads-${content}_${formatTimestamp(timeRange.start_at)}_${formatTimestamp(timeRange.end_at)}`;
+  const table = content === 'members'
+    ? memberSummaryTable(result.summary.members)
+    : workloadDetailsTable(result.details);
+
+  return {
+    summary: {
+      time_range: timeRange,
+      total_hours: result.summary.total_hours,
+      user_count: result.summary.user_count,
+    },
+    export: buildExportFile(baseName, table, format),
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const exportWorkloadsToolDefinition = {
+  name: 'export_workloads',
+  ...createToolDefinition(
+    `导出团队工时为 CSV / TSV 表格文件（UTF-8 BOM，Excel 可直接打开），文件以 embedded resource 返回。
+
+支持：
+- content=details: 每条工时记录一行（日期、成员、部门、工时、类型、工作项、项目、描述），最多 ${EXPORT_MAX_DETAILS} 行
+- content=members: 每位成员一行（总工时及 Top 项目）
+- 按 user_ids、项目（project_id，支持 ID、标识或名称）、部门（department）过滤
+- format: csv（默认）或 tsv
+
+返回：
+- summary: 时间范围、总工时、成员数
+- export: 文件信息（filename、mime_type、row_count、uri），文件内容在 resource 中
+- data_quality: 数据质量指标（details_truncated 表示明细超出导出上限）`,
+    ExportWorkloadsInputSchema,
+  ),
+};
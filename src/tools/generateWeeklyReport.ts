@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import { reportService, type WeeklyReport } from '../services/reportService.js';
+import { userService } from '../services/userService.js';
+import { projectService } from '../services/projectService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const GenerateWeeklyReportInputSchema = z.object({
+  // 默认上周
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }).optional().default({ start: 'last_week', end: 'last_week' }),
+  user_ids: z.array(z.string()).optional(),
+  project_id: z.string().optional(),
+  department: z.string().optional(),
+  // 项目 / 工作项排行数量
+  top_n: z.number().int().min(1).max(50).optional().default(5),
+});
+
+export type GenerateWeeklyReportInput = z.infer<typeof GenerateWeeklyReportInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface GenerateWeeklyReportOutput {
+  summary: {
+    time_range: {
+      start: string;
+      end: string;
+    };
+    total_hours: number;
+    user_count: number;
+    zero_hour_user_count: number;
+  };
+  markdown: string;
+  data_quality: WeeklyReport['result']['data_quality'];
+}
+
+export interface GenerateWeeklyReportError {
+  error: string;
+  code: 'INVALID_TIME_RANGE' | 'NO_USERS' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
+}
+
+export type GenerateWeeklyReportResult = GenerateWeeklyReportOutput | GenerateWeeklyReportError;
+
+// ============ Tool 实现 ============
+
+export async function generateWeeklyReport(input: GenerateWeeklyReportInput, signal?: AbortSignal): Promise<GenerateWeeklyReportResult> {
+  logger.info({ input }, 'generate_weekly_report called');
+
+  try {
+    // 1. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 验证用户列表（如果指定）
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to report on all users.',
+        code: 'NO_USERS',
+      };
+    }
+
+    // 3. 解析项目（支持项目 ID、标识或名称）
+    let projectId: string | undefined;
+    let projectName: string | undefined;
+    if (input.project_id) {
+      const projectResult = await projectService.resolveProjectRef(input.project_id, signal);
+      if (projectResult.ambiguous) {
+        return {
+          error: `Multiple projects match "${input.project_id}". Please specify the project ID or identifier.`,
+          code: 'AMBIGUOUS_PROJECT',
+          candidates: projectResult.candidates.map(c => ({
+            id: c.project.id,
+            identifier: c.project.identifier,
+            name: c.project.name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!projectResult.project?.id) {
+        return {
+          error: `Project not found: ${input.project_id}. Use list_projects to look up projects.`,
+          code: 'PROJECT_NOT_FOUND',
+        };
+      }
+      projectId = projectResult.project.id;
+      projectName = projectResult.project.name;
+    }
+
+    // 4. 按部门过滤用户（与 user_ids 取交集）
+    let userIds = input.user_ids;
+    if (input.department) {
+      const departmentUserIds = new Set(
+        (await userService.getUsersByDepartment(input.department, signal)).map(u => u.id)
+      );
+      userIds = input.user_ids
+        ? input.user_ids.filter(id => departmentUserIds.has(id))
+        : Array.from(departmentUserIds);
+      if (userIds.length === 0) {
+        return {
+          error: `No users found in department "${input.department}"${input.user_ids ? ' among the given user_ids' : ''}. Use list_users to check department names.`,
+          code: 'NO_USERS',
+        };
+      }
+    }
+
+    // 5. 生成周报（无工时时仍输出报告，列出全部零工时成员）
+    const report = await reportService.generateWeeklyReport(
+      timeRange.start,
+      timeRange.end,
+      {
+        userIds,
+        projectId,
+        topN: input.top_n,
+        scope: { department: input.department, project: projectName },
+        signal,
+      }
+    );
+
+    // 6. 上游请求失败时不输出"全员零工时"的误导性报告
+    const dataQuality = report.result.data_quality;
+    if (dataQuality.workloads_count === 0
+        && dataQuality.pagination_truncated
+        && dataQuality.truncation_reasons?.includes('fetch_error')) {
+      return {
+        error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    // 7. 格式化输出
+    return formatOutput(report);
+  } catch (error) {
+    logger.error({ error, input }, 'generate_weekly_report failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatOutput(report: WeeklyReport): GenerateWeeklyReportOutput {
+  const { summary, data_quality: dataQuality } = report.result;
+
+  return {
+    summary: {
+      time_range: {
+        start: formatTimestamp(summary.time_range.start_at),
+        end: formatTimestamp(summary.time_range.end_at),
+      },
+      total_hours: summary.total_hours,
+      user_count: summary.user_count,
+      zero_hour_user_count: summary.members.filter(m => m.total_hours === 0).length,
+    },
+    markdown: report.markdown,
+    data_quality: dataQuality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const generateWeeklyReportToolDefinition = {
+  name: 'generate_weekly_report',
+  ...createToolDefinition(
+    `生成可直接粘贴到 Wiki 的 Markdown 团队工时周报（确定性输出，相同数据生成相同报告）。
+
+报告内容：
+- 概览：总工时、成员数（有工时 / 零工时）、人均工时、记录数
+- 成员工时表：工时、占比、主要项目
+- 项目投入 Top N、重点工作项 Top N（含参与成员和工时描述中的工作内容）
+- 零工时成员列表
+- 数据说明：数据截断、上游失败等注意事项（仅在存在时输出）
+
+支持：
+- time_range 默认上周（last_week），支持日期或别名
+- 按 user_ids、项目（project_id，支持 ID、标识或名称）、部门（department）过滤
+
+返回：
+- summary: 时间范围、总工时、成员数、零工时成员数
+- markdown: 报告正文
+- data_quality: 数据质量指标`,
+    GenerateWeeklyReportInputSchema,
+  ),
+};
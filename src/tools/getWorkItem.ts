@@ -31,6 +31,8 @@ export interface GetWorkItemOutput {
       name: string;
       type?: string;
     };
+    estimated_workload: number | null;
+    remaining_workload: number | null;
   };
 }
 
@@ -47,7 +49,7 @@ export async function getWorkItem(input: GetWorkItemInput, signal?: AbortSignal)
   logger.info({ input }, 'get_work_item called');
 
   try {
-    const workItem = await workItemService.getWorkItem(input.id, signal);
+    const workItem = await workItemService.resolveWorkItemRef(input.id, signal);
 
     if (!workItem) {
       return {
@@ -74,6 +76,8 @@ export async function getWorkItem(input: GetWorkItemInput, signal?: AbortSignal)
           name: workItem.project.name,
           type: workItem.project.type,
         },
+        estimated_workload: workItem.estimated_workload ?? null,
+        remaining_workload: workItem.remaining_workload ?? null,
       },
     };
   } catch (error) {
@@ -93,10 +97,10 @@ export const getWorkItemToolDefinition = {
     `获取单个工作项的详情。
 
 参数：
-- id: 工作项 ID
+- id: 工作项 ID 或编号（如 "PROJ-101"）
 
 返回：
-- work_item: 工作项详情（含项目信息）`,
+- work_item: 工作项详情（含项目信息、预估/剩余工时）`,
     GetWorkItemInputSchema,
   ),
 };
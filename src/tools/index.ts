@@ -3,3 +3,19 @@ export * from './teamWorkSummary.js';
 export * from './listUsers.js';
 export * from './listWorkloads.js';
 export * from './getWorkItem.js';
+export * from './projectWorkSummary.js';
+export * from './workItemWorkSummary.js';
+export * from './compareWorkPeriods.js';
+export * from './timesheetCompliance.js';
+export * from './listProjects.js';
+export * from './searchWorkItems.js';
+export * from './estimateVsActual.js';
+export * from './detectWorkloadAnomalies.js';
+export * from './exportWorkloads.js';
+export * from './exportTeamWorkbook.js';
+export * from './generateWeeklyReport.js';
+export * from './createWorkload.js';
+export * from './updateWorkload.js';
+export * from './deleteWorkload.js';
+export * from './costSummary.js';
+export * from './capacityUtilization.js';
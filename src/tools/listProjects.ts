@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { projectService } from '../services/projectService.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ 常量 ============
+
+const MAX_PAGE_SIZE = 500;
+const DEFAULT_PAGE_SIZE = 100;
+
+// ============ Schema 定义 ============
+
+export const ListProjectsInputSchema = z.object({
+  keyword: z.string().optional(),
+  type: z.string().optional(),
+  page_size: z.number().min(1).optional(),
+  page_index: z.number().min(1).optional().default(1),
+});
+
+export type ListProjectsInput = z.infer<typeof ListProjectsInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface ListProjectsOutput {
+  projects: Array<{
+    id: string | null;
+    identifier: string | null;
+    name: string;
+    type?: string;
+  }>;
+  total: number;
+  page_index: number;
+  page_size: number;
+  has_more: boolean;
+}
+
+export interface ListProjectsError {
+  error: string;
+  code: 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+}
+
+export type ListProjectsResult = ListProjectsOutput | ListProjectsError;
+
+// ============ Tool 实现 ============
+
+export async function listProjects(input: ListProjectsInput, signal?: AbortSignal): Promise<ListProjectsResult> {
+  logger.info({ input }, 'list_projects called');
+
+  try {
+    const allProjects = await projectService.getAllProjects(signal);
+
+    let filteredProjects = allProjects;
+
+    // 按关键词过滤（项目名称、标识）
+    if (input.keyword) {
+      const keyword = input.keyword.toLowerCase();
+      filteredProjects = filteredProjects.filter(p =>
+        p.name.toLowerCase().includes(keyword) ||
+        (p.identifier && p.identifier.toLowerCase().includes(keyword))
+      );
+    }
+
+    // 按项目类型过滤
+    if (input.type) {
+      const type = input.type.toLowerCase();
+      filteredProjects = filteredProjects.filter(p => p.type?.toLowerCase() === type);
+    }
+
+    const total = filteredProjects.length;
+
+    // 计算分页参数
+    const pageSize = Math.min(input.page_size ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const pageIndex = input.page_index ?? 1;
+
+    const offset = (pageIndex - 1) * pageSize;
+    const pagedProjects = filteredProjects.slice(offset, offset + pageSize);
+    const hasMore = offset + pagedProjects.length < total;
+
+    return {
+      projects: pagedProjects.map(p => ({
+        id: p.id,
+        identifier: p.identifier,
+        name: p.name,
+        type: p.type,
+      })),
+      total,
+      page_index: pageIndex,
+      page_size: pageSize,
+      has_more: hasMore,
+    };
+  } catch (error) {
+    logger.error({ error, input }, 'list_projects failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ MCP Tool 定义 ============
+
+export const listProjectsToolDefinition = {
+  name: 'list_projects',
+  ...createToolDefinition(
+    `获取项目列表，用于查找项目 ID / 标识（供 team_work_summary、project_work_summary 等工具使用）。
+
+支持：
+- 按关键词搜索（项目名称、项目标识）
+- 按项目类型过滤（如 "scrum"、"kanban"）
+- 分页查询
+
+返回：
+- projects: 项目列表（id、identifier、name、type）
+- total: 匹配的总数
+- page_index/page_size: 分页信息
+- has_more: 是否有更多数据`,
+    ListProjectsInputSchema,
+  ),
+};
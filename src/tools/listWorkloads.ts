@@ -1,12 +1,17 @@
 import { z } from 'zod';
-import { listWorkloads as apiListWorkloads } from '../api/endpoints/workloads.js';
+import { listWorkloadsPage, type WorkloadsPosition } from '../api/endpoints/workloads.js';
 import { PingCodeApiError } from '../api/client.js';
 import { userService } from '../services/index.js';
-import { workItemService } from '../services/index.js';
+import { workItemService, isWorkItemIdentifier } from '../services/index.js';
+import { projectService } from '../services/index.js';
 import { parseTimeRange } from '../utils/timeUtils.js';
 import { formatTimestamp } from '../utils/timeUtils.js';
 import { logger } from '../utils/logger.js';
 import { createToolDefinition } from './schemaUtils.js';
+import { buildExportFile, type ExportFile, type ExportTable } from '../utils/export.js';
+import { pageQueryKey, encodePageCursor, decodePageCursor, type PageCursor } from '../utils/pageCursor.js';
+import type { PingCodeWorkload, WorkloadPrincipalType } from '../api/types.js';
+import type { WorkItemInfo } from '../services/workItemService.js';
 
 // ============ 常量 ============
 
@@ -20,7 +25,8 @@ export const ListWorkloadsInputSchema = z.object({
     // - user: 按用户查询（转换为 report_by_id）
     // - project: 按项目查询（转换为 pilot_id）
     // - work_item: 按工作项查询（使用 API 原生 principal_type + principal_id）
-    principal_type: z.enum(['user', 'project', 'work_item']).optional(),
+    // - idea / test_case: 按想法、测试用例查询（API 原生参数，principal_id 为 ID）
+    principal_type: z.enum(['user', 'project', 'work_item', 'idea', 'test_case']).optional(),
     principal_id: z.string().optional(),
     // 兼容参数：直接使用 report_by_id（按填报人查询）
     report_by_id: z.string().optional(),
@@ -37,7 +43,22 @@ export const ListWorkloadsInputSchema = z.object({
     // 本地过滤参数
     filter_project_id: z.string().optional(),
     filter_work_item_id: z.string().optional(),
+    review_state: z.enum(['pending', 'approved', 'rejected']).optional(),
+    min_hours: z.number().optional(),
+    max_hours: z.number().optional(),
+    // 工时类型名称（不区分大小写）
+    type: z.string().optional(),
+    // 工作内容关键词（不区分大小写和全/半角）
+    description_keyword: z.string().optional(),
+    has_work_item: z.boolean().optional(),
+    // 排序（不传时保持上游返回顺序）；sort_order 默认 date/hours 降序、user/project 升序
+    sort_by: z.enum(['date', 'hours', 'user', 'project']).optional(),
+    sort_order: z.enum(['asc', 'desc']).optional(),
     limit: z.number().optional().default(DEFAULT_LIMIT),
+    // 上一次返回的 next_cursor，其余参数需与上一次相同
+    cursor: z.string().optional(),
+    // csv / tsv 时以表格文件（embedded resource）返回，同样受 limit 限制
+    format: z.enum(['json', 'csv', 'tsv']).optional().default('json'),
 });
 
 export type ListWorkloadsInput = z.infer<typeof ListWorkloadsInputSchema>;
@@ -58,6 +79,8 @@ export interface WorkloadRecord {
         id: string;
         identifier: string;
         title: string;
+        // 工时主体类型（想法、测试用例同样放在 work_item 中）
+        principal_type: WorkloadPrincipalType;
         project: { id: string | null; name: string } | null;
     } | null;
     project: {
@@ -66,6 +89,7 @@ export interface WorkloadRecord {
         name: string;
     } | null;
     description?: string;
+    review_state: 'pending' | 'approved' | 'rejected' | null;
     // 原始字段
     user_id: string;
     project_id: string | null;
@@ -79,6 +103,8 @@ export interface ListWorkloadsOutput {
     workloads: WorkloadRecord[];
     total: number;
     returned: number;
+    // 下一页游标，没有更多记录时为 null
+    next_cursor: string | null;
     data_quality: {
         time_sliced: boolean;
         pagination_truncated: boolean;
@@ -87,13 +113,23 @@ export interface ListWorkloadsOutput {
     };
 }
 
+export interface ListWorkloadsExportOutput {
+    total: number;
+    returned: number;
+    next_cursor: string | null;
+    export: ExportFile;
+    data_quality: ListWorkloadsOutput['data_quality'];
+}
+
 export interface ListWorkloadsError {
     error: string;
-    code: 'INVALID_TIME_RANGE' | 'INVALID_PARAMS' | 'USER_NOT_FOUND' | 'AMBIGUOUS_USER' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
-    candidates?: Array<{ id: string; name: string; display_name: string }>;
+    code: 'INVALID_TIME_RANGE' | 'INVALID_PARAMS' | 'INVALID_CURSOR' | 'USER_NOT_FOUND' | 'AMBIGUOUS_USER' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'WORK_ITEM_NOT_FOUND' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+    candidates?:
+        | Array<{ id: string; name: string; display_name: string }>
+        | Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
 }
 
-export type ListWorkloadsResult = ListWorkloadsOutput | ListWorkloadsError;
+export type ListWorkloadsResult = ListWorkloadsOutput | ListWorkloadsExportOutput | ListWorkloadsError;
 
 // ============ Tool 实现 ============
 
@@ -109,10 +145,17 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
             };
         }
 
+        if (input.min_hours !== undefined && input.max_hours !== undefined && input.min_hours > input.max_hours) {
+            return {
+                error: `min_hours (${input.min_hours}) must not be greater than max_hours (${input.max_hours})`,
+                code: 'INVALID_PARAMS',
+            };
+        }
+
         // 1. 处理 PRD 中的 principal_type 语义转换
         let filterUserId: string | undefined = input.report_by_id;
         let filterProjectId: string | undefined = input.filter_project_id;
-        let apiPrincipalType: 'work_item' | undefined;
+        let apiPrincipalType: WorkloadPrincipalType | undefined;
         let apiPrincipalId: string | undefined;
 
         if (input.principal_type && input.principal_id) {
@@ -130,6 +173,12 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
                     apiPrincipalType = 'work_item';
                     apiPrincipalId = input.principal_id;
                     break;
+                case 'idea':
+                case 'test_case':
+                    // principal_type=idea / test_case → 使用 API 原生参数（ID 原样透传）
+                    apiPrincipalType = input.principal_type;
+                    apiPrincipalId = input.principal_id;
+                    break;
             }
         }
 
@@ -167,7 +216,56 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
             }
         }
 
-        // 3. 解析时间范围
+        // 3. 解析项目与工作项参数（支持项目标识/名称、工作项编号）
+        if (filterProjectId) {
+            const projectRef = filterProjectId;
+            const resolved = await projectService.resolveProjectRef(projectRef, signal);
+            if (resolved.ambiguous) {
+                return {
+                    error: `Multiple projects match "${projectRef}". Please specify the project ID or identifier.`,
+                    code: 'AMBIGUOUS_PROJECT',
+                    candidates: resolved.candidates.map(c => ({
+                        id: c.project.id,
+                        identifier: c.project.identifier,
+                        name: c.project.name,
+                        match_type: c.matchType,
+                    })),
+                };
+            }
+            if (!resolved.project?.id) {
+                return {
+                    error: `Project not found: ${projectRef}. Use list_projects to look up projects.`,
+                    code: 'PROJECT_NOT_FOUND',
+                };
+            }
+            filterProjectId = resolved.project.id;
+        }
+
+        // 工作项编号（如 "PROJ-101"）→ 工作项 ID；内部 ID 原样透传
+        if (apiPrincipalType === 'work_item' && apiPrincipalId) {
+            const workItemId = await resolveWorkItemId(apiPrincipalId, signal);
+            if (!workItemId) {
+                return {
+                    error: `Work item not found: ${apiPrincipalId}`,
+                    code: 'WORK_ITEM_NOT_FOUND',
+                };
+            }
+            apiPrincipalId = workItemId;
+        }
+
+        let filterWorkItemId = input.filter_work_item_id;
+        if (filterWorkItemId) {
+            const workItemId = await resolveWorkItemId(filterWorkItemId, signal);
+            if (!workItemId) {
+                return {
+                    error: `Work item not found: ${filterWorkItemId}`,
+                    code: 'WORK_ITEM_NOT_FOUND',
+                };
+            }
+            filterWorkItemId = workItemId;
+        }
+
+        // 4. 解析时间范围
         let timeRange;
         try {
             timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
@@ -178,30 +276,57 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
             };
         }
 
-        // 4. 获取工时数据
-        const result = await apiListWorkloads({
+        // 5. 解析分页游标（绑定查询条件，换了条件的游标视为无效）
+        const queryKey = pageQueryKey({
+            start: timeRange.start,
+            end: timeRange.end,
+            user: filterUserId ?? null,
+            project: filterProjectId ?? null,
+            principal_type: apiPrincipalType ?? null,
+            principal_id: apiPrincipalId ?? null,
+            work_item: filterWorkItemId ?? null,
+            review_state: input.review_state ?? null,
+            min_hours: input.min_hours ?? null,
+            max_hours: input.max_hours ?? null,
+            type: input.type ?? null,
+            description_keyword: input.description_keyword ?? null,
+            has_work_item: input.has_work_item ?? null,
+            sort_by: input.sort_by ?? null,
+            sort_order: input.sort_order ?? null,
+        });
+        let cursor: PageCursor | null = null;
+        if (input.cursor) {
+            cursor = decodePageCursor(input.cursor, queryKey);
+            if (!cursor) {
+                return {
+                    error: 'Invalid cursor: it is malformed or was issued for different parameters. Repeat the original query without cursor.',
+                    code: 'INVALID_CURSOR',
+                };
+            }
+        }
+
+        // 6. 获取工时数据（本地过滤见 buildWorkloadFilter）
+        // 首次查询拉取全部以给出匹配总数；携带游标时只拉取到本页满为止。
+        // 指定 sort_by 时需要全部记录才能排序，每次都拉取全部，游标改为排序结果中的偏移
+        const effectiveLimit = Math.max(1, Math.min(input.limit ?? DEFAULT_LIMIT, MAX_LIMIT));
+        const sortBy = input.sort_by;
+        const from = !sortBy && cursor ? cursor : undefined;
+        const result = await listWorkloadsPage({
             startAt: timeRange.start,
             endAt: timeRange.end,
             userId: filterUserId,
             projectId: filterProjectId,
             principalType: apiPrincipalType,
             principalId: apiPrincipalId,
+            from,
+            accept: buildWorkloadFilter(input, filterWorkItemId),
+            limit: from ? effectiveLimit : undefined,
+            pageSize: from?.pageSize,
             signal,
         });
 
-        // 5. 获取工作项详情（可选增强）
-        const { workItems } = await workItemService.enrichWorkloadsWithWorkItems(result.workloads, signal);
-
-        // 6. 过滤
-        let workloads = result.workloads;
-
-        // 按工作项过滤（本地）
-        if (input.filter_work_item_id) {
-            workloads = workloads.filter(w => w.work_item?.id === input.filter_work_item_id);
-        }
-
-        // 7. 检查是否有数据
-        if (workloads.length === 0) {
+        // 7. 检查是否有数据（翻页到末尾时返回空列表而不是报错）
+        if (result.entries.length === 0 && !cursor) {
             // Distinguish "API failed so we got nothing" from "genuinely no data"
             if (result.paginationTruncated
                 && result.truncationReasons.includes('fetch_error')) {
@@ -218,13 +343,40 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
             };
         }
 
-        // 8. 应用硬上限
-        const total = workloads.length;
-        const effectiveLimit = Math.min(input.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
-        const resultTruncated = workloads.length > effectiveLimit;
-        workloads = workloads.slice(0, effectiveLimit);
+        // 8. 排序、截取本页并生成下一页游标
+        const total = cursor ? cursor.total : result.entries.length;
+        let workloads: PingCodeWorkload[];
+        let nextCursor: string | null;
+        let workItems: Map<string, WorkItemInfo> | undefined;
+
+        if (sortBy) {
+            // 按项目排序需要全部记录的项目归属，先补全再排序
+            let matched = result.entries.map(e => e.workload);
+            if (sortBy === 'project') {
+                workItems = (await workItemService.enrichWorkloadsWithWorkItems(matched, signal)).workItems;
+            }
+            matched = sortWorkloads(matched, sortBy, input.sort_order ?? DEFAULT_SORT_ORDER[sortBy], workItems ?? new Map());
+
+            const skip = cursor?.skip ?? 0;
+            workloads = matched.slice(skip, skip + effectiveLimit);
+            nextCursor = skip + effectiveLimit < matched.length
+                ? encodePageCursor({ chunk: 0, page: 0, offset: 0, pageSize: result.pageSize, total, skip: skip + effectiveLimit }, queryKey)
+                : null;
+        } else {
+            const pageEntries = result.entries.slice(0, effectiveLimit);
+            const nextPosition: WorkloadsPosition | null = result.entries.length > effectiveLimit
+                ? pageEntries[pageEntries.length - 1].next
+                : result.resumeAt;
+            nextCursor = nextPosition
+                ? encodePageCursor({ ...nextPosition, pageSize: result.pageSize, total }, queryKey)
+                : null;
+            workloads = pageEntries.map(e => e.workload);
+        }
 
-        // 9. 格式化输出
+        // 9. 获取工作项详情（可选增强，只补全本页记录；按项目排序时已补全）
+        workItems ??= (await workItemService.enrichWorkloadsWithWorkItems(workloads, signal)).workItems;
+
+        // 10. 格式化输出
         const formattedWorkloads: WorkloadRecord[] = workloads.map(w => {
             // 获取工作项详情（优先使用缓存的详细信息）
             let workItem = null;
@@ -238,6 +390,7 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
                         id: w.work_item.id,
                         identifier: w.work_item.identifier,
                         title: cachedWorkItem.title,
+                        principal_type: w.work_item.principal_type,
                         project: {
                             id: cachedWorkItem.project.id,
                             name: cachedWorkItem.project.name,
@@ -248,6 +401,7 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
                         id: w.work_item.id,
                         identifier: w.work_item.identifier,
                         title: w.work_item.title,
+                        principal_type: w.work_item.principal_type,
                         project: null,
                     };
                 }
@@ -270,6 +424,7 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
                     name: projectInfo.name,
                 } : null,
                 description: w.description,
+                review_state: w.review_state ?? null,
                 // 原始字段
                 user_id: w.report_by.id,
                 project_id: projectInfo?.id ?? null,
@@ -280,16 +435,30 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
             };
         });
 
+        const dataQuality = {
+            time_sliced: result.timeSliced,
+            pagination_truncated: result.paginationTruncated,
+            result_truncated: nextCursor !== null,
+            truncation_reasons: result.truncationReasons.length > 0 ? result.truncationReasons : undefined,
+        };
+
+        if (input.format === 'csv' || input.format === 'tsv') {
+            const baseName = `workloads_${formatTimestamp(timeRange.start)}_${formatTimestamp(timeRange.end)}`;
+            return {
+                total,
+                returned: formattedWorkloads.length,
+                next_cursor: nextCursor,
+                export: buildExportFile(baseName, workloadRecordsTable(formattedWorkloads), input.format),
+                data_quality: dataQuality,
+            };
+        }
+
         return {
             workloads: formattedWorkloads,
             total,
             returned: formattedWorkloads.length,
-            data_quality: {
-                time_sliced: result.timeSliced,
-                pagination_truncated: result.paginationTruncated,
-                result_truncated: resultTruncated,
-                truncation_reasons: result.truncationReasons.length > 0 ? result.truncationReasons : undefined,
-            },
+            next_cursor: nextCursor,
+            data_quality: dataQuality,
         };
     } catch (error) {
         logger.error({ error, input }, 'list_workloads failed');
@@ -308,6 +477,123 @@ export async function listWorkloads(input: ListWorkloadsInput, signal?: AbortSig
     }
 }
 
+// ============ 辅助函数 ============
+
+const DEFAULT_SORT_ORDER: Record<WorkloadSortBy, 'asc' | 'desc'> = {
+    date: 'desc',
+    hours: 'desc',
+    user: 'asc',
+    project: 'asc',
+};
+
+type WorkloadSortBy = NonNullable<ListWorkloadsInput['sort_by']>;
+
+/**
+ * 关键词匹配用的文本归一化：NFKC 统一全/半角（如 "ｒｅｖｉｅｗ"、全角数字），忽略大小写和多余空白
+ */
+function normalizeSearchText(text: string): string {
+    return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 本地过滤条件（在项目/工作项、审批状态过滤之后依次应用工时、类型、关键词、是否关联工作项）
+ */
+function buildWorkloadFilter(input: ListWorkloadsInput, filterWorkItemId: string | undefined): (w: PingCodeWorkload) => boolean {
+    const type = input.type ? normalizeSearchText(input.type) : undefined;
+    const keyword = input.description_keyword ? normalizeSearchText(input.description_keyword) : undefined;
+
+    return w => {
+        if (filterWorkItemId && w.work_item?.id !== filterWorkItemId) return false;
+        if (input.review_state && w.review_state !== input.review_state) return false;
+        if (input.min_hours !== undefined && w.duration < input.min_hours) return false;
+        if (input.max_hours !== undefined && w.duration > input.max_hours) return false;
+        if (type && normalizeSearchText(w.type ?? '') !== type) return false;
+        // 中文没有词边界，按子串匹配
+        if (keyword && !normalizeSearchText(w.description ?? '').includes(keyword)) return false;
+        // work_item 也承载想法、测试用例，只有 principal_type=work_item 才算关联工作项
+        if (input.has_work_item !== undefined
+            && (w.work_item?.principal_type === 'work_item') !== input.has_work_item) return false;
+        return true;
+    };
+}
+
+/**
+ * 排序（稳定：相同键按日期倒序、再按 ID，保证翻页结果确定）；
+ * 用户、项目按中文拼音顺序比较，项目未知的记录始终排在最后
+ */
+function sortWorkloads(
+    workloads: PingCodeWorkload[],
+    sortBy: WorkloadSortBy,
+    order: 'asc' | 'desc',
+    workItems: Map<string, WorkItemInfo>
+): PingCodeWorkload[] {
+    const direction = order === 'asc' ? 1 : -1;
+    const projectName = (w: PingCodeWorkload): string | null => {
+        const project = w.work_item ? workItems.get(w.work_item.id)?.project : undefined;
+        return project?.id ? project.name : null;
+    };
+
+    const compare = (a: PingCodeWorkload, b: PingCodeWorkload): number => {
+        switch (sortBy) {
+            case 'date':
+                return (a.report_at - b.report_at) * direction;
+            case 'hours':
+                return (a.duration - b.duration) * direction;
+            case 'user':
+                return a.report_by.display_name.localeCompare(b.report_by.display_name, 'zh-CN') * direction;
+            case 'project': {
+                const pa = projectName(a);
+                const pb = projectName(b);
+                if (pa === null || pb === null) {
+                    return pa === pb ? 0 : pa === null ? 1 : -1;
+                }
+                return pa.localeCompare(pb, 'zh-CN') * direction;
+            }
+        }
+    };
+
+    return [...workloads].sort((a, b) => compare(a, b) || b.report_at - a.report_at || a.id.localeCompare(b.id));
+}
+
+/**
+ * 将工作项编号解析为 ID；非编号格式视为内部 ID 原样返回，编号不存在时返回 null
+ */
+async function resolveWorkItemId(ref: string, signal?: AbortSignal): Promise<string | null> {
+    if (!isWorkItemIdentifier(ref)) {
+        return ref;
+    }
+    const workItem = await workItemService.resolveWorkItemRef(ref, signal);
+    return workItem?.id ?? null;
+}
+
+/**
+ * 工时记录 → 导出表格
+ */
+function workloadRecordsTable(records: WorkloadRecord[]): ExportTable {
+    return {
+        header: [
+            'date', 'user_id', 'user_name', 'display_name', 'hours', 'type', 'review_state',
+            'work_item_identifier', 'work_item_title', 'project_identifier', 'project_name',
+            'description', 'workload_id',
+        ],
+        rows: records.map(r => [
+            r.date,
+            r.user.id,
+            r.user.name,
+            r.user.display_name,
+            r.hours,
+            r.type,
+            r.review_state,
+            r.work_item?.identifier,
+            r.work_item?.title,
+            r.project?.identifier,
+            r.project?.name,
+            r.description,
+            r.id,
+        ]),
+    };
+}
+
 // ============ MCP Tool 定义 ============
 
 export const listWorkloadsToolDefinition = {
@@ -317,15 +603,23 @@ export const listWorkloadsToolDefinition = {
 
 支持多种过滤方式（按 PRD 定义）：
 - 按用户查询：principal_type=user + principal_id=用户ID
-- 按项目查询：principal_type=project + principal_id=项目ID
-- 按工作项查询：principal_type=work_item + principal_id=工作项ID
+- 按项目查询：principal_type=project + principal_id=项目ID、标识（如 "PROJ"）或名称
+- 按工作项查询：principal_type=work_item + principal_id=工作项ID 或编号（如 "PROJ-101"）
+- 按想法 / 测试用例查询：principal_type=idea / test_case + principal_id=想法或测试用例 ID
 - 按填报人查询：report_by_id 或 user（兼容方式）
-- 按工作项过滤：filter_work_item_id（本地过滤）
+- 按项目过滤：filter_project_id（同样支持项目标识或名称）
+- 按工作项过滤：filter_work_item_id（本地过滤，同样支持工作项编号）
+- 按审批状态过滤：review_state（pending / approved / rejected，本地过滤）
+- 更多本地过滤：min_hours / max_hours（单条工时，含边界）、type（工时类型名称）、description_keyword（工作内容关键词，不区分大小写和全/半角，中文按子串匹配）、has_work_item（是否关联工作项，想法、测试用例不算）
+- 排序：sort_by=date/hours/user/project，sort_order=asc/desc（默认 date、hours 降序，user、project 升序）；不传时保持上游返回顺序
+- format=csv/tsv: 导出为表格文件（带 BOM，Excel 可直接打开），以 embedded resource 返回
+- 分页：每页最多 limit 条（上限 500），还有更多记录时返回 next_cursor；其余参数保持不变并传入 cursor 获取下一页，直到 next_cursor 为 null
 
 返回：
-- workloads: 工时记录列表（含用户、工作项、项目详情）
-- total: 匹配的总数
+- workloads: 工时记录列表（含用户、工作项、项目详情，work_item.principal_type 区分工作项 / 想法 / 测试用例，想法和测试用例的 project 为所属产品 / 测试库；format=csv/tsv 时改为 export 文件信息）
+- total: 匹配的总数（翻页时沿用首次查询的值）
 - returned: 本次返回数量
+- next_cursor: 下一页游标，没有更多记录时为 null
 - data_quality: 数据质量指标`,
         ListWorkloadsInputSchema,
     ),
@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import { projectService } from '../services/projectService.js';
+import { workloadService, type ProjectWorkResult } from '../services/workloadService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const ProjectWorkSummaryInputSchema = z.object({
+  project: z.object({
+    id: z.string().optional(),
+    identifier: z.string().optional(),
+    name: z.string().optional(),
+  }).refine(data => data.id || data.identifier || data.name, {
+    message: 'One of project.id, project.identifier or project.name is required',
+  }),
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  top_n: z.number().optional().default(10),
+});
+
+export type ProjectWorkSummaryInput = z.infer<typeof ProjectWorkSummaryInputSchema>;
+
+// ============ 输出类型 ============
+
+type ProjectOutput = { id: string | null; identifier: string | null; name: string; type?: string };
+type WorkItemOutput = { id: string; identifier: string; title: string; type?: string };
+
+export interface ProjectWorkSummaryOutput {
+  summary: {
+    project: ProjectOutput;
+    time_range: {
+      start_at: number;
+      end_at: number;
+    };
+    total_hours: number;
+    user_count: number;
+    by_member: Array<{
+      user: { id: string; name: string; display_name: string };
+      total_hours: number;
+      by_review_state: { approved: number; pending: number; rejected: number; none: number };
+      top_work_items: Array<{ work_item: WorkItemOutput; hours: number }>;
+    }>;
+    by_work_item: Array<{ work_item: WorkItemOutput; hours: number }>;
+    by_type: Array<{ type: string; hours: number }>;
+    by_week: Array<{ week: string; hours: number }>;
+    // 按审批状态的工时（none：未启用审批）
+    by_review_state: { approved: number; pending: number; rejected: number; none: number };
+  };
+  details: Array<{
+    date: string;
+    workload_id: string;
+    hours: number;
+    user: { id: string; name: string; display_name: string };
+    work_item: { id: string; identifier: string; title: string } | null;
+    description?: string;
+    review_state: 'pending' | 'approved' | 'rejected' | null;
+  }>;
+  data_quality: {
+    workloads_count: number;
+    missing_work_item_count: number;
+    unknown_user_matches: number;
+    time_sliced: boolean;
+    pagination_truncated: boolean;
+    details_truncated: boolean;
+    truncation_reasons?: string[];
+  };
+}
+
+export interface ProjectWorkSummaryError {
+  error: string;
+  code: 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'INVALID_TIME_RANGE' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{
+    id: string | null;
+    identifier: string | null;
+    name: string;
+    match_type: string;
+  }>;
+}
+
+export type ProjectWorkSummaryResult = ProjectWorkSummaryOutput | ProjectWorkSummaryError;
+
+// ============ Tool 实现 ============
+
+export async function projectWorkSummary(input: ProjectWorkSummaryInput, signal?: AbortSignal): Promise<ProjectWorkSummaryResult> {
+  logger.info({ input }, 'project_work_summary called');
+
+  try {
+    // 1. 解析项目
+    const projectResult = await projectService.resolveProject(input.project, signal);
+
+    if (projectResult.ambiguous) {
+      return {
+        error: `Multiple projects match "${input.project.name}". Please specify project.id or project.identifier.`,
+        code: 'AMBIGUOUS_PROJECT',
+        candidates: projectResult.candidates.map(c => ({
+          id: c.project.id,
+          identifier: c.project.identifier,
+          name: c.project.name,
+          match_type: c.matchType,
+        })),
+      };
+    }
+
+    const project = projectResult.project;
+    if (!project) {
+      return {
+        error: `Project not found: ${input.project.id || input.project.identifier || input.project.name}`,
+        code: 'PROJECT_NOT_FOUND',
+      };
+    }
+
+    // 2. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 3. 获取项目工时汇总
+    const result = await workloadService.getProjectWorkSummary(
+      project,
+      timeRange.start,
+      timeRange.end,
+      {
+        topN: input.top_n,
+        signal,
+      }
+    );
+
+    // 4. 检查是否有数据
+    if (result.data_quality.workloads_count === 0) {
+      // Distinguish "API failed so we got nothing" from "genuinely no data"
+      if (result.data_quality.pagination_truncated
+          && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+        return {
+          error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+          code: 'UPSTREAM_API_ERROR',
+        };
+      }
+      const startDate = formatTimestamp(timeRange.start);
+      const endDate = formatTimestamp(timeRange.end);
+      return {
+        error: `项目 "${project.name}" 在 ${startDate} 至 ${endDate} 期间没有工时记录。`,
+        code: 'NO_DATA',
+      };
+    }
+
+    // 5. 格式化输出
+    return formatOutput(result);
+  } catch (error) {
+    logger.error({ error, input }, 'project_work_summary failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatOutput(result: ProjectWorkResult): ProjectWorkSummaryOutput {
+  const toWorkItem = (w: { id: string; identifier: string; title: string; type?: string }): WorkItemOutput => ({
+    id: w.id,
+    identifier: w.identifier,
+    title: w.title,
+    type: w.type,
+  });
+
+  return {
+    summary: {
+      project: {
+        id: result.summary.project.id,
+        identifier: result.summary.project.identifier,
+        name: result.summary.project.name,
+        type: result.summary.project.type,
+      },
+      time_range: result.summary.time_range,
+      total_hours: result.summary.total_hours,
+      user_count: result.summary.user_count,
+      by_member: result.summary.by_member.map(m => ({
+        user: {
+          id: m.user.id,
+          name: m.user.name,
+          display_name: m.user.display_name,
+        },
+        total_hours: m.total_hours,
+        by_review_state: m.by_review_state,
+        top_work_items: m.top_work_items.map(w => ({
+          work_item: toWorkItem(w.work_item),
+          hours: w.hours,
+        })),
+      })),
+      by_work_item: result.summary.by_work_item.map(w => ({
+        work_item: toWorkItem(w.work_item),
+        hours: w.hours,
+      })),
+      by_type: result.summary.by_type,
+      by_week: result.summary.by_week,
+      by_review_state: result.summary.by_review_state,
+    },
+    details: result.details.map(d => ({
+      date: d.date,
+      workload_id: d.workload_id,
+      hours: d.hours,
+      user: {
+        id: d.user.id,
+        name: d.user.name,
+        display_name: d.user.display_name,
+      },
+      work_item: d.work_item ? {
+        id: d.work_item.id,
+        identifier: d.work_item.identifier,
+        title: d.work_item.title,
+      } : null,
+      description: d.description,
+      review_state: d.review_state,
+    })),
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const projectWorkSummaryToolDefinition = {
+  name: 'project_work_summary',
+  ...createToolDefinition(
+    `查询单个项目在指定时间段内的工时投入：谁投入了多少、投入在哪些工作项上。
+
+支持：
+- 按项目 ID、项目标识（如 "PROJ"）或项目名称查询（名称匹配策略同用户姓名，多个匹配时返回候选项）
+- 时间范围支持日期格式或别名（如 "last_month"、"上个月"）
+- 成员来自实际填报人，无需提供用户列表
+
+返回：
+- summary: 项目汇总（总工时、按成员/工作项/工时类型/周分布、按审批状态的工时 by_review_state，成员级同样给出）
+- details: 工时明细列表
+- data_quality: 数据质量指标`,
+    ProjectWorkSummaryInputSchema,
+  ),
+};
@@ -37,6 +37,102 @@ import {
   GetWorkItemInputSchema,
 } from './getWorkItem.js';
 
+import {
+  projectWorkSummary,
+  projectWorkSummaryToolDefinition,
+  ProjectWorkSummaryInputSchema,
+} from './projectWorkSummary.js';
+
+import {
+  workItemWorkSummary,
+  workItemWorkSummaryToolDefinition,
+  WorkItemWorkSummaryInputSchema,
+} from './workItemWorkSummary.js';
+
+import {
+  compareWorkPeriods,
+  compareWorkPeriodsToolDefinition,
+  CompareWorkPeriodsInputSchema,
+} from './compareWorkPeriods.js';
+
+import {
+  timesheetCompliance,
+  timesheetComplianceToolDefinition,
+  TimesheetComplianceInputSchema,
+} from './timesheetCompliance.js';
+
+import {
+  listProjects,
+  listProjectsToolDefinition,
+  ListProjectsInputSchema,
+} from './listProjects.js';
+
+import {
+  searchWorkItems,
+  searchWorkItemsToolDefinition,
+  SearchWorkItemsInputSchema,
+} from './searchWorkItems.js';
+
+import {
+  estimateVsActual,
+  estimateVsActualToolDefinition,
+  EstimateVsActualInputSchema,
+} from './estimateVsActual.js';
+
+import {
+  detectWorkloadAnomalies,
+  detectWorkloadAnomaliesToolDefinition,
+  DetectWorkloadAnomaliesInputSchema,
+} from './detectWorkloadAnomalies.js';
+
+import {
+  exportWorkloads,
+  exportWorkloadsToolDefinition,
+  ExportWorkloadsInputSchema,
+} from './exportWorkloads.js';
+
+import {
+  exportTeamWorkbook,
+  exportTeamWorkbookToolDefinition,
+  ExportTeamWorkbookInputSchema,
+} from './exportTeamWorkbook.js';
+
+import {
+  generateWeeklyReport,
+  generateWeeklyReportToolDefinition,
+  GenerateWeeklyReportInputSchema,
+} from './generateWeeklyReport.js';
+
+import {
+  createWorkload,
+  createWorkloadToolDefinition,
+  CreateWorkloadInputSchema,
+} from './createWorkload.js';
+
+import {
+  updateWorkload,
+  updateWorkloadToolDefinition,
+  UpdateWorkloadInputSchema,
+} from './updateWorkload.js';
+
+import {
+  deleteWorkload,
+  deleteWorkloadToolDefinition,
+  DeleteWorkloadInputSchema,
+} from './deleteWorkload.js';
+
+import {
+  costSummary,
+  costSummaryToolDefinition,
+  CostSummaryInputSchema,
+} from './costSummary.js';
+
+import {
+  capacityUtilization,
+  capacityUtilizationToolDefinition,
+  CapacityUtilizationInputSchema,
+} from './capacityUtilization.js';
+
 import { metrics } from '../utils/metrics.js';
 
 /**
@@ -100,6 +196,134 @@ export function registerAllTools(): void {
     inputSchema: GetWorkItemInputSchema,
     definition: getWorkItemToolDefinition,
   });
+
+  // ============ project_work_summary ============
+  toolRegistry.register('project_work_summary', 'v1', {
+    status: 'current',
+    handler: projectWorkSummary as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: ProjectWorkSummaryInputSchema,
+    definition: projectWorkSummaryToolDefinition,
+  });
+
+  // ============ work_item_work_summary ============
+  toolRegistry.register('work_item_work_summary', 'v1', {
+    status: 'current',
+    handler: workItemWorkSummary as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: WorkItemWorkSummaryInputSchema,
+    definition: workItemWorkSummaryToolDefinition,
+  });
+
+  // ============ compare_work_periods ============
+  toolRegistry.register('compare_work_periods', 'v1', {
+    status: 'current',
+    handler: compareWorkPeriods as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: CompareWorkPeriodsInputSchema,
+    definition: compareWorkPeriodsToolDefinition,
+  });
+
+  // ============ timesheet_compliance ============
+  toolRegistry.register('timesheet_compliance', 'v1', {
+    status: 'current',
+    handler: timesheetCompliance as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: TimesheetComplianceInputSchema,
+    definition: timesheetComplianceToolDefinition,
+  });
+
+  // ============ list_projects ============
+  toolRegistry.register('list_projects', 'v1', {
+    status: 'current',
+    handler: listProjects as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: ListProjectsInputSchema,
+    definition: listProjectsToolDefinition,
+  });
+
+  // ============ search_work_items ============
+  toolRegistry.register('search_work_items', 'v1', {
+    status: 'current',
+    handler: searchWorkItems as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: SearchWorkItemsInputSchema,
+    definition: searchWorkItemsToolDefinition,
+  });
+
+  // ============ estimate_vs_actual ============
+  toolRegistry.register('estimate_vs_actual', 'v1', {
+    status: 'current',
+    handler: estimateVsActual as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: EstimateVsActualInputSchema,
+    definition: estimateVsActualToolDefinition,
+  });
+
+  // ============ detect_workload_anomalies ============
+  toolRegistry.register('detect_workload_anomalies', 'v1', {
+    status: 'current',
+    handler: detectWorkloadAnomalies as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: DetectWorkloadAnomaliesInputSchema,
+    definition: detectWorkloadAnomaliesToolDefinition,
+  });
+
+  // ============ export_workloads ============
+  toolRegistry.register('export_workloads', 'v1', {
+    status: 'current',
+    handler: exportWorkloads as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: ExportWorkloadsInputSchema,
+    definition: exportWorkloadsToolDefinition,
+  });
+
+  // ============ export_team_workbook ============
+  toolRegistry.register('export_team_workbook', 'v1', {
+    status: 'current',
+    handler: exportTeamWorkbook as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: ExportTeamWorkbookInputSchema,
+    definition: exportTeamWorkbookToolDefinition,
+  });
+
+  // ============ generate_weekly_report ============
+  toolRegistry.register('generate_weekly_report', 'v1', {
+    status: 'current',
+    handler: generateWeeklyReport as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: GenerateWeeklyReportInputSchema,
+    definition: generateWeeklyReportToolDefinition,
+  });
+
+  // ============ create_workload ============
+  toolRegistry.register('create_workload', 'v1', {
+    status: 'current',
+    handler: createWorkload as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: CreateWorkloadInputSchema,
+    definition: createWorkloadToolDefinition,
+  });
+
+  // ============ update_workload ============
+  toolRegistry.register('update_workload', 'v1', {
+    status: 'current',
+    handler: updateWorkload as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: UpdateWorkloadInputSchema,
+    definition: updateWorkloadToolDefinition,
+  });
+
+  // ============ delete_workload ============
+  toolRegistry.register('delete_workload', 'v1', {
+    status: 'current',
+    handler: deleteWorkload as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: DeleteWorkloadInputSchema,
+    definition: deleteWorkloadToolDefinition,
+  });
+
+  // ============ cost_summary ============
+  toolRegistry.register('cost_summary', 'v1', {
+    status: 'current',
+    handler: costSummary as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: CostSummaryInputSchema,
+    definition: costSummaryToolDefinition,
+  });
+
+  // ============ capacity_utilization ============
+  toolRegistry.register('capacity_utilization', 'v1', {
+    status: 'current',
+    handler: capacityUtilization as (input: unknown, signal?: AbortSignal) => Promise<unknown>,
+    inputSchema: CapacityUtilizationInputSchema,
+    definition: capacityUtilizationToolDefinition,
+  });
 }
 
 /**
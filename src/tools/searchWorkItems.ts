@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import { workItemService, type WorkItemInfo } from '../services/workItemService.js';
+import { projectService } from '../services/projectService.js';
+import { userService } from '../services/userService.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ 常量 ============
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 20;
+
+// ============ Schema 定义 ============
+
+export const SearchWorkItemsInputSchema = z.object({
+  // 项目 ID、标识（如 "PROJ"）或名称
+  project: z.string().optional(),
+  // 负责人（支持姓名模糊匹配）
+  assignee: z.object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+  }).optional(),
+  // 多个值之间为"或"关系
+  states: z.array(z.string()).optional(),
+  types: z.array(z.string()).optional(),
+  // 标题关键词
+  keyword: z.string().optional(),
+  page_size: z.number().min(1).optional(),
+  page_index: z.number().min(1).optional().default(1),
+});
+
+export type SearchWorkItemsInput = z.infer<typeof SearchWorkItemsInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface SearchWorkItemsOutput {
+  work_items: Array<{
+    id: string;
+    identifier: string;
+    title: string;
+    state?: string;
+    type?: string;
+    assignee?: {
+      id: string;
+      name: string;
+      display_name: string;
+    };
+    project: {
+      id: string | null;
+      identifier: string | null;
+      name: string;
+    };
+    estimated_workload: number | null;
+    remaining_workload: number | null;
+  }>;
+  total: number;
+  page_index: number;
+  page_size: number;
+  has_more: boolean;
+}
+
+export interface SearchWorkItemsError {
+  error: string;
+  code: 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'USER_NOT_FOUND' | 'AMBIGUOUS_USER' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?:
+    | Array<{ id: string; name: string; display_name: string; match_type: string }>
+    | Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
+}
+
+export type SearchWorkItemsResult = SearchWorkItemsOutput | SearchWorkItemsError;
+
+// ============ Tool 实现 ============
+
+export async function searchWorkItems(input: SearchWorkItemsInput, signal?: AbortSignal): Promise<SearchWorkItemsResult> {
+  logger.info({ input }, 'search_work_items called');
+
+  try {
+    // 1. 解析项目（支持项目 ID、标识或名称）
+    let projectId: string | undefined;
+    if (input.project) {
+      const projectResult = await projectService.resolveProjectRef(input.project, signal);
+      if (projectResult.ambiguous) {
+        return {
+          error: `Multiple projects match "${input.project}". Please specify the project ID or identifier.`,
+          code: 'AMBIGUOUS_PROJECT',
+          candidates: projectResult.candidates.map(c => ({
+            id: c.project.id,
+            identifier: c.project.identifier,
+            name: c.project.name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!projectResult.project?.id) {
+        return {
+          error: `Project not found: ${input.project}. Use list_projects to look up projects.`,
+          code: 'PROJECT_NOT_FOUND',
+        };
+      }
+      projectId = projectResult.project.id;
+    }
+
+    // 2. 解析负责人
+    let assigneeId: string | undefined;
+    if (input.assignee && (input.assignee.id || input.assignee.name)) {
+      const userResult = await userService.resolveUser(input.assignee, signal);
+      if (userResult.ambiguous) {
+        return {
+          error: `Multiple users match "${input.assignee.name}". Please specify assignee.id.`,
+          code: 'AMBIGUOUS_USER',
+          candidates: userResult.candidates.map(c => ({
+            id: c.user.id,
+            name: c.user.name,
+            display_name: c.user.display_name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!userResult.user) {
+        return {
+          error: `User not found: ${input.assignee.id || input.assignee.name}`,
+          code: 'USER_NOT_FOUND',
+        };
+      }
+      assigneeId = userResult.user.id;
+    }
+
+    // 3. 分页查询（工具页码从 1 开始，API 从 0 开始）
+    const pageSize = Math.min(input.page_size ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const pageIndex = input.page_index ?? 1;
+
+    const { items, total } = await workItemService.searchWorkItems(
+      {
+        projectId,
+        assigneeId,
+        states: input.states,
+        types: input.types,
+        keyword: input.keyword?.trim(),
+        pageIndex: pageIndex - 1,
+        pageSize,
+      },
+      signal
+    );
+
+    // 4. 格式化输出
+    return {
+      work_items: items.map(formatWorkItem),
+      total,
+      page_index: pageIndex,
+      page_size: pageSize,
+      has_more: (pageIndex - 1) * pageSize + items.length < total,
+    };
+  } catch (error) {
+    logger.error({ error, input }, 'search_work_items failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatWorkItem(item: WorkItemInfo): SearchWorkItemsOutput['work_items'][0] {
+  return {
+    id: item.id,
+    identifier: item.identifier,
+    title: item.title,
+    state: item.state,
+    type: item.type,
+    assignee: item.assignee ? {
+      id: item.assignee.id,
+      name: item.assignee.name,
+      display_name: item.assignee.display_name,
+    } : undefined,
+    project: {
+      id: item.project.id,
+      identifier: item.project.identifier,
+      name: item.project.name,
+    },
+    estimated_workload: item.estimated_workload ?? null,
+    remaining_workload: item.remaining_workload ?? null,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const searchWorkItemsToolDefinition = {
+  name: 'search_work_items',
+  ...createToolDefinition(
+    `按条件搜索工作项，例如"PROJ 中分配给 Alice 且仍未完成的缺陷"。
+
+支持：
+- project: 项目 ID、标识（如 "PROJ"）或名称
+- assignee: 负责人（id 或姓名，姓名支持模糊匹配）
+- states / types: 状态、类型（多个值为"或"关系）
+- keyword: 标题关键词
+- 分页查询（page_index 从 1 开始，page_size 最大 100）
+
+返回：
+- work_items: 工作项列表（编号、标题、状态、类型、负责人、项目、预估/剩余工时）
+- total: 匹配的总数
+- page_index/page_size: 分页信息
+- has_more: 是否有更多数据`,
+    SearchWorkItemsInputSchema,
+  ),
+};
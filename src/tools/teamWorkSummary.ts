@@ -1,9 +1,14 @@
 import { z } from 'zod';
 import { workloadService, type TeamWorkResult, type TeamGroupBy } from '../services/workloadService.js';
+import { userService } from '../services/userService.js';
+import { projectService } from '../services/projectService.js';
 import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
 import { logger } from '../utils/logger.js';
 import { createToolDefinition } from './schemaUtils.js';
+import { memberSummaryTable } from './exportTables.js';
+import { buildExportFile, type ExportFile } from '../utils/export.js';
 import { PingCodeApiError } from '../api/client.js';
+import type { WorkloadPrincipalType } from '../api/types.js';
 
 // ============ Schema 定义 ============
 
@@ -14,11 +19,16 @@ export const TeamWorkSummaryInputSchema = z.object({
   }),
   user_ids: z.array(z.string()).optional(),
   project_id: z.string().optional(),
-  group_by: z.enum(['user', 'project', 'work_item', 'day', 'week', 'month', 'type']).optional().default('user'),
+  department: z.string().optional(),
+  group_by: z.enum(['user', 'project', 'work_item', 'day', 'week', 'month', 'type', 'department']).optional().default('user'),
   top_n: z.number().optional().default(5),
   include_matrix: z.boolean().optional().default(false),
   matrix_type: z.enum(['day', 'week']).optional().default('day'),
   include_zero_users: z.boolean().optional().default(true),
+  // 只统计该审批状态的工时
+  review_state: z.enum(['pending', 'approved', 'rejected']).optional(),
+  // csv / tsv 时返回成员汇总表格（embedded resource），不返回 JSON 明细
+  format: z.enum(['json', 'csv', 'tsv']).optional().default('json'),
 });
 
 export type TeamWorkSummaryInput = z.infer<typeof TeamWorkSummaryInputSchema>;
@@ -33,20 +43,24 @@ export interface TeamWorkSummaryOutput {
     };
     total_hours: number;
     user_count: number;
+    // 按审批状态的工时（none：未启用审批）
+    by_review_state: { approved: number; pending: number; rejected: number; none: number };
     members: Array<{
       user: {
         id: string;
         name: string;
         display_name: string;
+        department?: string;
       };
       total_hours: number;
-      // 默认输出（group_by=user 时）
+      by_review_state: { approved: number; pending: number; rejected: number; none: number };
+      // 默认输出（group_by=user/department 时）
       top_projects?: Array<{
         project: { id: string | null; identifier: string | null; name: string; type?: string };
         hours: number;
       }>;
       top_work_items?: Array<{
-        work_item: { id: string; identifier: string; title: string; project: { id: string | null; identifier: string | null; name: string; type?: string } };
+        work_item: { id: string; identifier: string; title: string; principal_type?: WorkloadPrincipalType; project: { id: string | null; identifier: string | null; name: string; type?: string } };
         hours: number;
       }>;
       // 时间维度聚合
@@ -55,7 +69,7 @@ export interface TeamWorkSummaryOutput {
       by_month?: Array<{ month: string; hours: number }>;
       // 项目/工作项维度
       by_project?: Array<{ project: { id: string | null; identifier: string | null; name: string; type?: string }; hours: number }>;
-      by_work_item?: Array<{ work_item: { id: string; identifier: string; title: string; project: { id: string | null; identifier: string | null; name: string; type?: string } }; hours: number }>;
+      by_work_item?: Array<{ work_item: { id: string; identifier: string; title: string; principal_type?: WorkloadPrincipalType; project: { id: string | null; identifier: string | null; name: string; type?: string } }; hours: number }>;
       // 类型维度
       by_type?: Array<{ type: string; hours: number }>;
     }>;
@@ -65,21 +79,30 @@ export interface TeamWorkSummaryOutput {
     by_month?: Array<{ month: string; hours: number }>;
     // 按项目/工作项聚合
     by_project?: Array<{ project: { id: string | null; identifier: string | null; name: string; type?: string }; hours: number }>;
-    by_work_item?: Array<{ work_item: { id: string; identifier: string; title: string; project: { id: string | null; identifier: string | null; name: string; type?: string } }; hours: number }>;
+    by_work_item?: Array<{ work_item: { id: string; identifier: string; title: string; principal_type?: WorkloadPrincipalType; project: { id: string | null; identifier: string | null; name: string; type?: string } }; hours: number }>;
     // 按类型聚合
     by_type?: Array<{ type: string; hours: number }>;
+    // 按部门聚合
+    by_department?: Array<{
+      department: string;
+      hours: number;
+      member_count: number;
+      top_projects: Array<{ project: { id: string | null; identifier: string | null; name: string; type?: string }; hours: number }>;
+    }>;
   };
   details: Array<{
     date: string;
     workload_id: string;
     hours: number;
     user: { id: string; name: string; display_name: string };
-    work_item: { id: string; identifier: string; title: string } | null;
+    work_item: { id: string; identifier: string; title: string; principal_type?: WorkloadPrincipalType } | null;
     project: { id: string | null; identifier: string | null; name: string } | null;
     description?: string;
+    review_state: 'pending' | 'approved' | 'rejected' | null;
   }>;
   by_day_matrix?: {
     dates: string[];
+    working_days: boolean[];
     rows: Array<{
       user: { id: string; name: string; display_name: string };
       hours_per_day: number[];
@@ -87,6 +110,7 @@ export interface TeamWorkSummaryOutput {
   };
   by_week_matrix?: {
     weeks: string[];
+    working_days: number[];
     rows: Array<{
       user: { id: string; name: string; display_name: string };
       hours_per_week: number[];
@@ -103,12 +127,19 @@ export interface TeamWorkSummaryOutput {
   };
 }
 
+export interface TeamWorkSummaryExportOutput {
+  summary: Pick<TeamWorkSummaryOutput['summary'], 'time_range' | 'total_hours' | 'user_count'>;
+  export: ExportFile;
+  data_quality: TeamWorkSummaryOutput['data_quality'];
+}
+
 export interface TeamWorkSummaryError {
   error: string;
-  code: 'INVALID_TIME_RANGE' | 'NO_USERS' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  code: 'INVALID_TIME_RANGE' | 'NO_USERS' | 'PROJECT_NOT_FOUND' | 'AMBIGUOUS_PROJECT' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+  candidates?: Array<{ id: string | null; identifier: string | null; name: string; match_type: string }>;
 }
 
-export type TeamWorkSummaryResult = TeamWorkSummaryOutput | TeamWorkSummaryError;
+export type TeamWorkSummaryResult = TeamWorkSummaryOutput | TeamWorkSummaryExportOutput | TeamWorkSummaryError;
 
 // ============ Tool 实现 ============
 
@@ -135,23 +166,66 @@ export async function teamWorkSummary(input: TeamWorkSummaryInput, signal?: Abor
       };
     }
 
-    // 3. 获取团队工时汇总
+    // 3. 解析项目（支持项目 ID、标识或名称）
+    let projectId: string | undefined;
+    if (input.project_id) {
+      const projectResult = await projectService.resolveProjectRef(input.project_id, signal);
+      if (projectResult.ambiguous) {
+        return {
+          error: `Multiple projects match "${input.project_id}". Please specify the project ID or identifier.`,
+          code: 'AMBIGUOUS_PROJECT',
+          candidates: projectResult.candidates.map(c => ({
+            id: c.project.id,
+            identifier: c.project.identifier,
+            name: c.project.name,
+            match_type: c.matchType,
+          })),
+        };
+      }
+      if (!projectResult.project?.id) {
+        return {
+          error: `Project not found: ${input.project_id}. Use list_projects to look up projects.`,
+          code: 'PROJECT_NOT_FOUND',
+        };
+      }
+      projectId = projectResult.project.id;
+    }
+
+    // 4. 按部门过滤用户（与 user_ids 取交集）
+    let userIds = input.user_ids;
+    if (input.department) {
+      const departmentUserIds = new Set(
+        (await userService.getUsersByDepartment(input.department, signal)).map(u => u.id)
+      );
+      userIds = input.user_ids
+        ? input.user_ids.filter(id => departmentUserIds.has(id))
+        : Array.from(departmentUserIds);
+      if (userIds.length === 0) {
+        return {
+          error: `No users found in department "${input.department}"${input.user_ids ? ' among the given user_ids' : ''}. Use list_users to check department names.`,
+          code: 'NO_USERS',
+        };
+      }
+    }
+
+    // 5. 获取团队工时汇总
     const result = await workloadService.getTeamWorkSummary(
       timeRange.start,
       timeRange.end,
       {
-        userIds: input.user_ids,
-        projectId: input.project_id,
+        userIds,
+        projectId,
         groupBy: input.group_by as TeamGroupBy,
         topN: input.top_n,
         includeMatrix: input.include_matrix,
         matrixType: input.matrix_type,
         includeZeroUsers: input.include_zero_users,
+        reviewState: input.review_state,
         signal,
       }
     );
 
-    // 4. 检查是否有数据（include_zero_users 时仍返回全员列表）
+    // 6. 检查是否有数据（include_zero_users 时仍返回全员列表）
     if (result.data_quality.workloads_count === 0) {
       // Distinguish "API failed so we got nothing" from "genuinely no data"
       if (result.data_quality.pagination_truncated
@@ -171,7 +245,10 @@ export async function teamWorkSummary(input: TeamWorkSummaryInput, signal?: Abor
       }
     }
 
-    // 5. 格式化输出
+    // 7. 格式化输出
+    if (input.format === 'csv' || input.format === 'tsv') {
+      return formatExportOutput(result, input.format);
+    }
     return formatOutput(result);
   } catch (error) {
     logger.error({ error, input }, 'team_work_summary failed');
@@ -192,20 +269,38 @@ export async function teamWorkSummary(input: TeamWorkSummaryInput, signal?: Abor
 
 // ============ 辅助函数 ============
 
+function formatExportOutput(result: TeamWorkResult, format: 'csv' | 'tsv'): TeamWorkSummaryExportOutput {
+  const { time_range: timeRange } = result.summary;
+  const baseName = `team-work-summary_${formatTimestamp(timeRange.start_at)}_${formatTimestamp(timeRange.end_at)}`;
+
+  return {
+    summary: {
+      time_range: timeRange,
+      total_hours: result.summary.total_hours,
+      user_count: result.summary.user_count,
+    },
+    export: buildExportFile(baseName, memberSummaryTable(result.summary.members), format),
+    data_quality: result.data_quality,
+  };
+}
+
 function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
   const output: TeamWorkSummaryOutput = {
     summary: {
       time_range: result.summary.time_range,
       total_hours: result.summary.total_hours,
       user_count: result.summary.user_count,
+      by_review_state: result.summary.by_review_state,
       members: result.summary.members.map(m => {
         const member: TeamWorkSummaryOutput['summary']['members'][0] = {
           user: {
             id: m.user.id,
             name: m.user.name,
             display_name: m.user.display_name,
+            department: m.user.department,
           },
           total_hours: m.total_hours,
+          by_review_state: m.by_review_state,
         };
 
         // 根据成员数据中存在的字段添加对应输出
@@ -226,6 +321,7 @@ function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
               id: w.work_item.id,
               identifier: w.work_item.identifier,
               title: w.work_item.title,
+              principal_type: w.work_item.principal_type,
               project: {
                 id: w.work_item.project.id,
                 identifier: w.work_item.project.identifier,
@@ -262,6 +358,7 @@ function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
               id: w.work_item.id,
               identifier: w.work_item.identifier,
               title: w.work_item.title,
+              principal_type: w.work_item.principal_type,
               project: {
                 id: w.work_item.project.id,
                 identifier: w.work_item.project.identifier,
@@ -292,6 +389,7 @@ function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
         id: d.work_item.id,
         identifier: d.work_item.identifier,
         title: d.work_item.title,
+        principal_type: d.work_item.principal_type,
       } : null,
       project: d.project ? {
         id: d.project.id,
@@ -299,6 +397,7 @@ function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
         name: d.project.name,
       } : null,
       description: d.description,
+      review_state: d.review_state,
     })),
     data_quality: result.data_quality,
   };
@@ -332,6 +431,7 @@ function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
         id: w.work_item.id,
         identifier: w.work_item.identifier,
         title: w.work_item.title,
+        principal_type: w.work_item.principal_type,
         project: {
           id: w.work_item.project.id,
           identifier: w.work_item.project.identifier,
@@ -348,9 +448,28 @@ function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
     output.summary.by_type = result.summary.by_type;
   }
 
+  // 添加部门聚合
+  if (result.summary.by_department) {
+    output.summary.by_department = result.summary.by_department.map(d => ({
+      department: d.department,
+      hours: d.hours,
+      member_count: d.member_count,
+      top_projects: d.top_projects.map(p => ({
+        project: {
+          id: p.project.id,
+          identifier: p.project.identifier,
+          name: p.project.name,
+          type: p.project.type,
+        },
+        hours: p.hours,
+      })),
+    }));
+  }
+
   if (result.by_day_matrix) {
     output.by_day_matrix = {
       dates: result.by_day_matrix.dates,
+      working_days: result.by_day_matrix.working_days,
       rows: result.by_day_matrix.rows.map(r => ({
         user: {
           id: r.user.id,
@@ -365,6 +484,7 @@ function formatOutput(result: TeamWorkResult): TeamWorkSummaryOutput {
   if (result.by_week_matrix) {
     output.by_week_matrix = {
       weeks: result.by_week_matrix.weeks,
+      working_days: result.by_week_matrix.working_days,
       rows: result.by_week_matrix.rows.map(r => ({
         user: {
           id: r.user.id,
@@ -388,13 +508,17 @@ export const teamWorkSummaryToolDefinition = {
 
 支持：
 - 查询全员或指定用户列表
-- 按项目过滤
+- 按项目过滤（project_id 支持项目 ID、标识如 "PROJ" 或项目名称）
+- 按部门过滤（department），或 group_by=department 输出各部门工时、成员数及 Top 项目
+- 按审批状态过滤（review_state: pending / approved / rejected），如只看待审批工时
 - 时间范围支持日期格式或别名（如 "last_week"）
 - 可选返回人天矩阵
+- format=csv/tsv: 成员汇总导出为表格文件（带 BOM，Excel 可直接打开），以 embedded resource 返回
 
 返回：
-- summary: 团队汇总（总工时、成员列表及各自 Top 项目/工作项）
-- by_day_matrix: 可选的人天矩阵
+- summary: 团队汇总（总工时、按审批状态的工时 by_review_state、成员列表及各自 Top 项目/工作项）
+- by_day_matrix: 可选的人天矩阵（working_days 标记每列是否为工作日，已考虑节假日/调休）
+- export: format=csv/tsv 时的文件信息（filename、mime_type、row_count、uri），此时不返回成员列表和明细
 - data_quality: 数据质量指标`,
     TeamWorkSummaryInputSchema,
   ),
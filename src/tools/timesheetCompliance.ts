@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { complianceService, type ComplianceResult } from '../services/complianceService.js';
+import { parseTimeRange } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const TimesheetComplianceInputSchema = z.object({
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+  user_ids: z.array(z.string()).optional(),
+  // 未指定时使用 EXPECTED_DAILY_HOURS / WORKING_DAYS 配置
+  expected_daily_hours: z.number().positive().optional(),
+  working_days: z.array(z.number().int().min(1).max(7)).min(1).optional(),
+  only_non_compliant: z.boolean().optional().default(false),
+});
+
+export type TimesheetComplianceInput = z.infer<typeof TimesheetComplianceInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface TimesheetComplianceOutput {
+  summary: ComplianceResult['summary'];
+  users: Array<{
+    user: {
+      id: string;
+      name: string;
+      display_name: string;
+      department?: string;
+    };
+    expected_hours: number;
+    logged_hours: number;
+    working_days: number;
+    compliant_days: number;
+    missing_days: string[];
+    under_filled_days: Array<{ date: string; hours: number; shortfall: number }>;
+    compliance_rate: number;
+  }>;
+  data_quality: ComplianceResult['data_quality'];
+}
+
+export interface TimesheetComplianceError {
+  error: string;
+  code: 'INVALID_PARAMS' | 'INVALID_TIME_RANGE' | 'NO_WORKING_DAYS' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+}
+
+export type TimesheetComplianceResult = TimesheetComplianceOutput | TimesheetComplianceError;
+
+// ============ Tool 实现 ============
+
+export async function timesheetCompliance(input: TimesheetComplianceInput, signal?: AbortSignal): Promise<TimesheetComplianceResult> {
+  logger.info({ input }, 'timesheet_compliance called');
+
+  try {
+    if (input.user_ids && input.user_ids.length === 0) {
+      return {
+        error: 'user_ids cannot be an empty array. Omit it to check all users.',
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    // 1. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 2. 计算合规情况
+    const result = await complianceService.getTimesheetCompliance(
+      timeRange.start,
+      timeRange.end,
+      {
+        userIds: input.user_ids,
+        expectedDailyHours: input.expected_daily_hours,
+        workingDays: input.working_days,
+        signal,
+      }
+    );
+
+    // 3. 没有可评估的工作日（范围全部为今天/未来或非工作日）
+    if (result.summary.working_day_count === 0) {
+      return {
+        error: '时间范围内没有可评估的工作日（今天及未来日期、非工作日不参与评估）。请调整时间范围或 working_days。',
+        code: 'NO_WORKING_DAYS',
+      };
+    }
+
+    // 4. 上游请求失败时不输出"全员未填报"的误导性结果
+    if (result.data_quality.workloads_count === 0
+        && result.data_quality.pagination_truncated
+        && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+      return {
+        error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    // 5. 格式化输出
+    return formatOutput(result, input.only_non_compliant);
+  } catch (error) {
+    logger.error({ error, input }, 'timesheet_compliance failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatOutput(result: ComplianceResult, onlyNonCompliant: boolean): TimesheetComplianceOutput {
+  const users = onlyNonCompliant
+    ? result.users.filter(u => u.compliance_rate < 1)
+    : result.users;
+
+  return {
+    summary: result.summary,
+    users: users.map(u => ({
+      user: {
+        id: u.user.id,
+        name: u.user.name,
+        display_name: u.user.display_name,
+        department: u.user.department,
+      },
+      expected_hours: u.expected_hours,
+      logged_hours: u.logged_hours,
+      working_days: u.working_days,
+      compliant_days: u.compliant_days,
+      missing_days: u.missing_days,
+      under_filled_days: u.under_filled_days,
+      compliance_rate: u.compliance_rate,
+    })),
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const timesheetComplianceToolDefinition = {
+  name: 'timesheet_compliance',
+  ...createToolDefinition(
+    `检查成员工时填报合规情况：找出漏填（当天 0 工时）和少填（低于每日应填工时）的工作日。
+
+支持：
+- 指定 user_ids，或省略以检查全部成员
+- expected_daily_hours: 每日应填工时（默认取 EXPECTED_DAILY_HOURS 配置，8 小时）
+- working_days: 工作日（ISO 星期 1=周一 … 7=周日，默认取 WORKING_DAYS 配置，周一至周五）
+- only_non_compliant: 仅返回未完全达标的成员
+- 已配置日历文件时，法定节假日不计入、调休补班日计入工作日
+- 今天及未来日期不参与评估
+
+返回：
+- summary: 评估区间、工作日天数、达标人数、平均合规率
+- users: 每人的漏填日期、少填日期（含缺口工时）、合规率，按合规率升序
+- data_quality: 数据质量指标`,
+    TimesheetComplianceInputSchema,
+  ),
+};
@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { getWorkload, updateWorkload as updateWorkloadApi } from '../api/endpoints/workloads.js';
+import { parseDateInput, dateToTimestamp, getTodayDate } from '../utils/timeUtils.js';
+import { issueConfirmToken, verifyConfirmToken } from '../utils/confirmToken.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { toWorkloadView, workloadFingerprint, type WorkloadView } from './workloadView.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// 单条工时上限（小时），与 create_workload 一致
+const MAX_HOURS_PER_ENTRY = 24;
+
+// ============ Schema 定义 ============
+
+export const UpdateWorkloadInputSchema = z.object({
+  workload_id: z.string(),
+  hours: z.number().optional(),
+  date: z.string().optional(),
+  description: z.string().optional(),
+  type_id: z.string().optional(),
+  // 预览时返回的确认令牌；不传时只预览
+  confirm_token: z.string().optional(),
+  // Internal: set by scopeEnforcer in user mode to restrict to the user's own entries
+  _restrict_to_user_id: z.string().optional(),
+});
+
+export type UpdateWorkloadInput = z.infer<typeof UpdateWorkloadInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface WorkloadChanges {
+  hours?: { from: number; to: number };
+  date?: { from: string; to: string };
+  description?: { from: string | null; to: string };
+  type_id?: { to: string };
+}
+
+export interface UpdateWorkloadPreview {
+  status: 'preview';
+  workload: WorkloadView;
+  changes: WorkloadChanges;
+  confirm_token: string;
+  expires_at: string;
+  message: string;
+}
+
+export interface UpdateWorkloadOutput {
+  status: 'updated';
+  workload: WorkloadView;
+  changes: WorkloadChanges;
+  message: string;
+}
+
+export interface UpdateWorkloadError {
+  error: string;
+  code: 'INVALID_PARAMS' | 'INVALID_DATE' | 'WORKLOAD_NOT_FOUND' | 'FORBIDDEN' | 'CONFIRM_TOKEN_INVALID' | 'CONFIRM_TOKEN_EXPIRED' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+}
+
+export type UpdateWorkloadResult = UpdateWorkloadPreview | UpdateWorkloadOutput | UpdateWorkloadError;
+
+// ============ Tool 实现 ============
+
+export async function updateWorkload(input: UpdateWorkloadInput, signal?: AbortSignal): Promise<UpdateWorkloadResult> {
+  logger.info({ input }, 'update_workload called');
+
+  try {
+    // 1. 校验修改内容
+    if (input.hours === undefined && input.date === undefined && input.description === undefined && input.type_id === undefined) {
+      return {
+        error: 'Nothing to update: specify at least one of hours, date, description, type_id',
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    if (input.hours !== undefined && (!Number.isFinite(input.hours) || input.hours <= 0 || input.hours > MAX_HOURS_PER_ENTRY)) {
+      return {
+        error: `hours must be greater than 0 and at most ${MAX_HOURS_PER_ENTRY}, got ${input.hours}`,
+        code: 'INVALID_PARAMS',
+      };
+    }
+
+    let date: string | undefined;
+    if (input.date !== undefined) {
+      try {
+        date = parseDateInput(input.date);
+      } catch (error) {
+        return {
+          error: (error as Error).message,
+          code: 'INVALID_DATE',
+        };
+      }
+      if (date > getTodayDate()) {
+        return {
+          error: `Cannot log hours for a future date: ${date}`,
+          code: 'INVALID_DATE',
+        };
+      }
+    }
+
+    // 2. 获取当前记录并校验归属
+    const current = await getWorkload(input.workload_id, signal);
+    if (!current) {
+      return {
+        error: `Workload not found: ${input.workload_id}`,
+        code: 'WORKLOAD_NOT_FOUND',
+      };
+    }
+
+    if (input._restrict_to_user_id && current.report_by.id !== input._restrict_to_user_id) {
+      return {
+        error: `Workload ${input.workload_id} belongs to another user and cannot be modified`,
+        code: 'FORBIDDEN',
+      };
+    }
+
+    const view = toWorkloadView(current);
+    const changes = buildChanges(view, input, date);
+    const tokenPayload = { current: workloadFingerprint(current), changes };
+
+    // 3. 未携带令牌：返回预览和确认令牌
+    if (!input.confirm_token) {
+      const { token, expiresAt } = issueConfirmToken('update_workload', tokenPayload);
+      return {
+        status: 'preview',
+        workload: view,
+        changes,
+        confirm_token: token,
+        expires_at: new Date(expiresAt).toISOString(),
+        message: `预览：将修改 ${view.user.display_name} 在 ${view.date} 的工时记录，尚未写入。请与用户确认后，使用相同参数并携带 confirm_token 再次调用。`,
+      };
+    }
+
+    // 4. 校验令牌后执行
+    const tokenStatus = verifyConfirmToken(input.confirm_token, 'update_workload', tokenPayload);
+    if (tokenStatus === 'expired') {
+      return {
+        error: 'Confirm token expired. Call update_workload without confirm_token to preview again.',
+        code: 'CONFIRM_TOKEN_EXPIRED',
+      };
+    }
+    if (tokenStatus === 'invalid') {
+      return {
+        error: 'Confirm token does not match this update (parameters or the workload changed). Call update_workload without confirm_token to preview again.',
+        code: 'CONFIRM_TOKEN_INVALID',
+      };
+    }
+
+    const updated = await updateWorkloadApi(current.id, {
+      duration: input.hours,
+      reportAt: date !== undefined ? dateToTimestamp(date) : undefined,
+      description: input.description,
+      typeId: input.type_id,
+      signal,
+    });
+
+    logger.info({ workloadId: current.id, changes }, 'Workload updated');
+
+    const updatedView = toWorkloadView(updated);
+    return {
+      status: 'updated',
+      workload: updatedView,
+      changes,
+      message: `已修改 ${updatedView.user.display_name} 在 ${updatedView.date} 的工时记录。`,
+    };
+  } catch (error) {
+    logger.error({ error, input }, 'update_workload failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function buildChanges(current: WorkloadView, input: UpdateWorkloadInput, date: string | undefined): WorkloadChanges {
+  const changes: WorkloadChanges = {};
+  if (input.hours !== undefined) {
+    changes.hours = { from: current.hours, to: input.hours };
+  }
+  if (date !== undefined) {
+    changes.date = { from: current.date, to: date };
+  }
+  if (input.description !== undefined) {
+    changes.description = { from: current.description, to: input.description };
+  }
+  if (input.type_id !== undefined) {
+    changes.type_id = { to: input.type_id };
+  }
+  return changes;
+}
+
+// ============ MCP Tool 定义 ============
+
+export const updateWorkloadToolDefinition = {
+  name: 'update_workload',
+  ...createToolDefinition(
+    `修改一条工时记录（写入 PingCode），采用两步确认。
+
+参数：
+- workload_id: 工时记录 ID（可从 list_workloads 获取）
+- hours / date / description / type_id: 要修改的字段，至少一个；hours 大于 0 且不超过 24，date 不能是未来日期
+- confirm_token: 确认令牌
+
+流程：
+1. 不传 confirm_token 调用，返回当前记录、变更内容（changes）和 confirm_token，不会写入
+2. 与用户确认后，使用相同参数并携带 confirm_token 再次调用，才会真正修改
+令牌 5 分钟内有效，参数或记录本身变化后失效。user 模式下只能修改本人的记录。
+
+返回：
+- status: preview / updated
+- workload: 工时记录（预览时为修改前，完成后为修改后）
+- changes: 各字段修改前后的值`,
+    UpdateWorkloadInputSchema,
+  ),
+};
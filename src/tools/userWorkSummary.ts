@@ -51,6 +51,8 @@ export interface UserWorkSummaryOutput {
     by_week?: Array<{ week: string; hours: number }>;
     by_month?: Array<{ month: string; hours: number }>;
     by_type?: Array<{ type: string; hours: number }>;
+    // 按审批状态的工时（none：未启用审批）
+    by_review_state: { approved: number; pending: number; rejected: number; none: number };
   };
   details: Array<{
     date: string;
@@ -62,6 +64,7 @@ export interface UserWorkSummaryOutput {
       project: { id: string | null; identifier: string | null; name: string; type?: string };
     } | null;
     description?: string;
+    review_state: 'pending' | 'approved' | 'rejected' | null;
   }>;
   data_quality: {
     workloads_count: number;
@@ -221,6 +224,7 @@ function formatOutput(result: UserWorkResult): UserWorkSummaryOutput {
       by_week: result.summary.by_week,
       by_month: result.summary.by_month,
       by_type: result.summary.by_type,
+      by_review_state: result.summary.by_review_state,
     },
     details: result.details.map(d => ({
       date: d.date,
@@ -237,6 +241,7 @@ function formatOutput(result: UserWorkResult): UserWorkSummaryOutput {
         },
       } : null,
       description: d.description,
+      review_state: d.review_state,
     })),
     data_quality: result.data_quality,
   };
@@ -256,7 +261,7 @@ export const userWorkSummaryToolDefinition = {
 - 自动处理超过 3 个月的时间分片
 
 返回：
-- summary: 汇总信息（总工时、按项目/工作项分布）
+- summary: 汇总信息（总工时、按项目/工作项分布、按审批状态的工时）
 - details: 工时明细列表
 - data_quality: 数据质量指标`,
     UserWorkSummaryInputSchema,
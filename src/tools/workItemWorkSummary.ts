@@ -0,0 +1,240 @@
+import { z } from 'zod';
+import { workItemService } from '../services/workItemService.js';
+import { workloadService, type WorkItemWorkResult } from '../services/workloadService.js';
+import { parseTimeRange, formatTimestamp } from '../utils/timeUtils.js';
+import { logger } from '../utils/logger.js';
+import { createToolDefinition } from './schemaUtils.js';
+import { PingCodeApiError } from '../api/client.js';
+
+// ============ Schema 定义 ============
+
+export const WorkItemWorkSummaryInputSchema = z.object({
+  work_item: z.object({
+    id: z.string().optional(),
+    identifier: z.string().optional(),
+  }).refine(data => data.id || data.identifier, {
+    message: 'Either work_item.id or work_item.identifier is required',
+  }),
+  time_range: z.object({
+    start: z.string(),
+    end: z.string(),
+  }),
+});
+
+export type WorkItemWorkSummaryInput = z.infer<typeof WorkItemWorkSummaryInputSchema>;
+
+// ============ 输出类型 ============
+
+export interface WorkItemWorkSummaryOutput {
+  summary: {
+    work_item: {
+      id: string;
+      identifier: string;
+      title: string;
+      state?: string;
+      type?: string;
+      assignee?: {
+        id: string;
+        name: string;
+        display_name: string;
+      };
+      project: { id: string | null; identifier: string | null; name: string; type?: string };
+    };
+    time_range: {
+      start_at: number;
+      end_at: number;
+    };
+    total_hours: number;
+    user_count: number;
+    first_logged_date: string | null;
+    last_logged_date: string | null;
+    by_reporter: Array<{
+      user: { id: string; name: string; display_name: string };
+      total_hours: number;
+      workloads_count: number;
+      first_logged_date: string;
+      last_logged_date: string;
+      by_review_state: { approved: number; pending: number; rejected: number; none: number };
+    }>;
+    by_day: Array<{ date: string; hours: number }>;
+    by_type: Array<{ type: string; hours: number }>;
+    // 按审批状态的工时（none：未启用审批）
+    by_review_state: { approved: number; pending: number; rejected: number; none: number };
+  };
+  details: Array<{
+    date: string;
+    workload_id: string;
+    hours: number;
+    user: { id: string; name: string; display_name: string };
+    description?: string;
+    review_state: 'pending' | 'approved' | 'rejected' | null;
+  }>;
+  data_quality: {
+    workloads_count: number;
+    missing_work_item_count: number;
+    unknown_user_matches: number;
+    time_sliced: boolean;
+    pagination_truncated: boolean;
+    details_truncated: boolean;
+    truncation_reasons?: string[];
+  };
+}
+
+export interface WorkItemWorkSummaryError {
+  error: string;
+  code: 'WORK_ITEM_NOT_FOUND' | 'INVALID_TIME_RANGE' | 'NO_DATA' | 'UPSTREAM_API_ERROR' | 'INTERNAL_ERROR';
+}
+
+export type WorkItemWorkSummaryResult = WorkItemWorkSummaryOutput | WorkItemWorkSummaryError;
+
+// ============ Tool 实现 ============
+
+export async function workItemWorkSummary(input: WorkItemWorkSummaryInput, signal?: AbortSignal): Promise<WorkItemWorkSummaryResult> {
+  logger.info({ input }, 'work_item_work_summary called');
+
+  try {
+    // 1. 解析工作项
+    const workItem = await workItemService.resolveWorkItem(input.work_item, signal);
+    if (!workItem) {
+      return {
+        error: `Work item not found: ${input.work_item.id || input.work_item.identifier}`,
+        code: 'WORK_ITEM_NOT_FOUND',
+      };
+    }
+
+    // 2. 解析时间范围
+    let timeRange;
+    try {
+      timeRange = parseTimeRange(input.time_range.start, input.time_range.end);
+    } catch (error) {
+      return {
+        error: `Invalid time range: ${(error as Error).message}`,
+        code: 'INVALID_TIME_RANGE',
+      };
+    }
+
+    // 3. 获取工作项工时汇总
+    const result = await workloadService.getWorkItemWorkSummary(
+      workItem,
+      timeRange.start,
+      timeRange.end,
+      { signal }
+    );
+
+    // 4. 检查是否有数据
+    if (result.data_quality.workloads_count === 0) {
+      // Distinguish "API failed so we got nothing" from "genuinely no data"
+      if (result.data_quality.pagination_truncated
+          && result.data_quality.truncation_reasons?.includes('fetch_error')) {
+        return {
+          error: '无法获取工时数据（上游 API 请求失败），请检查服务配置和 PingCode API 状态后重试。',
+          code: 'UPSTREAM_API_ERROR',
+        };
+      }
+      const startDate = formatTimestamp(timeRange.start);
+      const endDate = formatTimestamp(timeRange.end);
+      return {
+        error: `工作项 "${workItem.identifier}" 在 ${startDate} 至 ${endDate} 期间没有工时记录。`,
+        code: 'NO_DATA',
+      };
+    }
+
+    // 5. 格式化输出
+    return formatOutput(result);
+  } catch (error) {
+    logger.error({ error, input }, 'work_item_work_summary failed');
+
+    if (error instanceof PingCodeApiError) {
+      return {
+        error: `PingCode API 请求失败 (HTTP ${error.status}): ${error.message}`,
+        code: 'UPSTREAM_API_ERROR',
+      };
+    }
+
+    return {
+      error: `Internal error: ${(error as Error).message}`,
+      code: 'INTERNAL_ERROR',
+    };
+  }
+}
+
+// ============ 辅助函数 ============
+
+function formatOutput(result: WorkItemWorkResult): WorkItemWorkSummaryOutput {
+  const workItem = result.summary.work_item;
+
+  return {
+    summary: {
+      work_item: {
+        id: workItem.id,
+        identifier: workItem.identifier,
+        title: workItem.title,
+        state: workItem.state,
+        type: workItem.type,
+        assignee: workItem.assignee ? {
+          id: workItem.assignee.id,
+          name: workItem.assignee.name,
+          display_name: workItem.assignee.display_name,
+        } : undefined,
+        project: {
+          id: workItem.project.id,
+          identifier: workItem.project.identifier,
+          name: workItem.project.name,
+          type: workItem.project.type,
+        },
+      },
+      time_range: result.summary.time_range,
+      total_hours: result.summary.total_hours,
+      user_count: result.summary.user_count,
+      first_logged_date: result.summary.first_logged_date,
+      last_logged_date: result.summary.last_logged_date,
+      by_reporter: result.summary.by_reporter.map(r => ({
+        user: {
+          id: r.user.id,
+          name: r.user.name,
+          display_name: r.user.display_name,
+        },
+        total_hours: r.total_hours,
+        workloads_count: r.workloads_count,
+        first_logged_date: r.first_logged_date,
+        last_logged_date: r.last_logged_date,
+        by_review_state: r.by_review_state,
+      })),
+      by_day: result.summary.by_day,
+      by_type: result.summary.by_type,
+      by_review_state: result.summary.by_review_state,
+    },
+    details: result.details.map(d => ({
+      date: d.date,
+      workload_id: d.workload_id,
+      hours: d.hours,
+      user: {
+        id: d.user.id,
+        name: d.user.name,
+        display_name: d.user.display_name,
+      },
+      description: d.description,
+      review_state: d.review_state,
+    })),
+    data_quality: result.data_quality,
+  };
+}
+
+// ============ MCP Tool 定义 ============
+
+export const workItemWorkSummaryToolDefinition = {
+  name: 'work_item_work_summary',
+  ...createToolDefinition(
+    `查询单个工作项在指定时间段内的工时投入：谁填报了多少、何时开始/结束投入。
+
+支持：
+- 按工作项 ID 或编号（如 "PROJ-101"）查询
+- 时间范围支持日期格式或别名（如 "this_month"、"本月"）
+
+返回：
+- summary: 工作项汇总（状态、负责人、所属项目、总工时、按填报人/日/工时类型分布、按审批状态的工时 by_review_state、首次/最近填报日期）
+- details: 工时明细列表
+- data_quality: 数据质量指标`,
+    WorkItemWorkSummaryInputSchema,
+  ),
+};
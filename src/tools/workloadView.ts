@@ -0,0 +1,58 @@
+import type { PingCodeWorkload, WorkloadReviewState } from '../api/types.js';
+import { formatTimestamp } from '../utils/timeUtils.js';
+
+/**
+ * update_workload / delete_workload 共用的工时记录展示格式
+ */
+export interface WorkloadView {
+  id: string;
+  date: string;
+  hours: number;
+  user: {
+    id: string;
+    name: string;
+    display_name: string;
+  };
+  work_item: {
+    id: string;
+    identifier: string;
+    title: string;
+  } | null;
+  description: string | null;
+  type: string | null;
+  review_state: WorkloadReviewState | null;
+}
+
+export function toWorkloadView(workload: PingCodeWorkload): WorkloadView {
+  return {
+    id: workload.id,
+    date: formatTimestamp(workload.report_at),
+    hours: workload.duration,
+    user: {
+      id: workload.report_by.id,
+      name: workload.report_by.name,
+      display_name: workload.report_by.display_name,
+    },
+    work_item: workload.work_item ? {
+      id: workload.work_item.id,
+      identifier: workload.work_item.identifier,
+      title: workload.work_item.title,
+    } : null,
+    description: workload.description ?? null,
+    type: workload.type ?? null,
+    review_state: workload.review_state ?? null,
+  };
+}
+
+/**
+ * 确认令牌绑定的当前记录状态：预览后记录被他人修改时令牌失效
+ */
+export function workloadFingerprint(workload: PingCodeWorkload) {
+  return {
+    id: workload.id,
+    duration: workload.duration,
+    report_at: workload.report_at,
+    report_by: workload.report_by.id,
+    description: workload.description ?? null,
+  };
+}
@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+import { getIsoWeekday, listDatesInRange } from './timeUtils.js';
+
+/**
+ * 工作日历 - 在"每周工作日"规则之上叠加法定节假日与调休补班日
+ *
+ * 日历文件（CALENDAR_FILE）支持两种格式：
+ * - JSON: { "holidays": ["2026-02-16", ...], "workdays": ["2026-02-14", ...] }
+ *   条目可为日期字符串或 { "date": "2026-02-16", "name": "春节" }
+ * - ICS: 全天事件（DTSTART;VALUE=DATE），SUMMARY 含"班"或 "workday" 的视为补班日，其余视为假日
+ */
+
+export interface CalendarData {
+  /** 休息日（覆盖每周工作日规则） */
+  holidays: string[];
+  /** 补班日（调休：周末但需上班） */
+  workdays: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * 解析工作日配置（"1,2,3,4,5" → [1, 2, 3, 4, 5]），忽略非法值
+ */
+export function parseWorkingDays(value: string): number[] {
+  const days = value
+    .split(',')
+    .map(s => parseInt(s.trim(), 10))
+    .filter(d => Number.isInteger(d) && d >= 1 && d <= 7);
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+export class WorkCalendar {
+  private readonly holidays: Set<string>;
+  private readonly workdays: Set<string>;
+  private readonly weekdays: Set<number>;
+
+  constructor(data: CalendarData, workingWeekdays: number[]) {
+    this.holidays = new Set(data.holidays);
+    this.workdays = new Set(data.workdays);
+    this.weekdays = new Set(workingWeekdays);
+  }
+
+  /**
+   * 每周工作日（ISO 星期，升序）
+   */
+  get workingWeekdays(): number[] {
+    return Array.from(this.weekdays).sort((a, b) => a - b);
+  }
+
+  /**
+   * 是否为工作日（yyyy-MM-dd）：补班日 > 假日 > 每周工作日规则
+   */
+  isWorkingDay(date: string): boolean {
+    if (this.workdays.has(date)) return true;
+    if (this.holidays.has(date)) return false;
+    return this.weekdays.has(getIsoWeekday(date));
+  }
+
+  /**
+   * 是否为日历中的假日（不含普通周末）
+   */
+  isHoliday(date: string): boolean {
+    return this.holidays.has(date) && !this.workdays.has(date);
+  }
+
+  /**
+   * 统计时间范围 [startAt, endAt) 内的工作日天数（配置时区）
+   */
+  countWorkingDays(startAt: number, endAt: number): number {
+    return listDatesInRange(startAt, endAt).filter(d => this.isWorkingDay(d)).length;
+  }
+
+  /**
+   * 使用另一套每周工作日规则（节假日/补班日保持不变）
+   */
+  withWorkingWeekdays(workingWeekdays: number[]): WorkCalendar {
+    return new WorkCalendar(
+      { holidays: Array.from(this.holidays), workdays: Array.from(this.workdays) },
+      workingWeekdays
+    );
+  }
+}
+
+// ============ 日历文件解析 ============
+
+/**
+ * 解析 JSON 日历
+ */
+export function parseCalendarJson(content: string): CalendarData {
+  const raw = JSON.parse(content) as { holidays?: unknown; workdays?: unknown };
+
+  const toDates = (entries: unknown): string[] => {
+    if (!Array.isArray(entries)) return [];
+    return entries
+      .map(e => (typeof e === 'string' ? e : (e as { date?: unknown })?.date))
+      .filter((d): d is string => typeof d === 'string' && DATE_PATTERN.test(d));
+  };
+
+  return {
+    holidays: toDates(raw.holidays),
+    workdays: toDates(raw.workdays),
+  };
+}
+
+/**
+ * 解析 ICS 日历（仅处理全天事件，DTEND 为不包含的结束日）
+ */
+export function parseCalendarIcs(content: string): CalendarData {
+  const data: CalendarData = { holidays: [], workdays: [] };
+
+  // 展开 RFC 5545 折行（以空格/制表符开头的续行）
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  let event: { start?: string; end?: string; summary?: string } | null = null;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (event?.start) {
+        const dates = expandIcsDates(event.start, event.end);
+        const isWorkday = /班|workday/i.test(event.summary ?? '');
+        (isWorkday ? data.workdays : data.holidays).push(...dates);
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (name === 'DTSTART') event.start = toIsoDate(value);
+    else if (name === 'DTEND') event.end = toIsoDate(value);
+    else if (name === 'SUMMARY') event.summary = value;
+  }
+
+  return data;
+}
+
+function toIsoDate(value: string): string | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+function expandIcsDates(start: string, end?: string): string[] {
+  if (!end || end <= start) return [start];
+
+  const dates: string[] = [];
+  const cursor = new Date(`${start}T00:00:00Z`);
+  for (let date = start; date < end; date = cursor.toISOString().slice(0, 10)) {
+    dates.push(date);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * 加载日历文件；未配置或加载失败时仅使用每周工作日规则。
+ * WORKING_DAYS 中没有任何合法值时回退为周一至周五。
+ */
+export function loadWorkCalendar(
+  file: string = config.calendar?.file ?? '',
+  workingWeekdays: number[] = parseWorkingDays(config.timesheet?.workingDays ?? '1,2,3,4,5')
+): WorkCalendar {
+  if (workingWeekdays.length === 0) {
+    logger.warn(
+      { workingDays: config.timesheet?.workingDays },
+      'No valid weekday in WORKING_DAYS, falling back to Monday-Friday'
+    );
+    workingWeekdays = DEFAULT_WORKING_DAYS;
+  }
+
+  const empty: CalendarData = { holidays: [], workdays: [] };
+  if (!file) {
+    return new WorkCalendar(empty, workingWeekdays);
+  }
+
+  try {
+    const content = fs.readFileSync(file, 'utf-8');
+    const data = path.extname(file).toLowerCase() === '.ics'
+      ? parseCalendarIcs(content)
+      : parseCalendarJson(content);
+    logger.info(
+      { file, holidays: data.holidays.length, workdays: data.workdays.length },
+      'Work calendar loaded'
+    );
+    return new WorkCalendar(data, workingWeekdays);
+  } catch (error) {
+    logger.warn({ error, file }, 'Failed to load work calendar, falling back to weekday rules');
+    return new WorkCalendar(empty, workingWeekdays);
+  }
+}
+
+// Singleton instance
+export const workCalendar = loadWorkCalendar();
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+/**
+ * 产能配置 - 成员每日可用工时与请假安排
+ *
+ * 产能文件（CAPACITY_FILE）为 JSON：
+ * {
+ *   "default_daily_hours": 8,
+ *   "members": [
+ *     { "user": "user-alice", "daily_hours": 6 }
+ *   ],
+ *   "leaves": [
+ *     { "user": "bob", "start": "2026-01-05", "end": "2026-01-07", "reason": "年假" },
+ *     { "user": "user-alice", "start": "2026-01-08", "hours": 4 }
+ *   ]
+ * }
+ *
+ * - default_daily_hours 缺省时使用 EXPECTED_DAILY_HOURS 配置
+ * - user 为用户 ID 或用户名；members 中未列出的成员使用 default_daily_hours
+ * - leaves 的 start / end 为日期（yyyy-MM-dd，含边界），end 缺省表示单日
+ * - hours 为每天请假工时（半天假等），缺省表示全天；同一天多条请假累加，不超过当日产能
+ * - 请假只在工作日扣减产能（由调用方按工作日历判断）
+ */
+
+export interface CapacityMember {
+  user: string;
+  daily_hours: number;
+}
+
+export interface CapacityLeave {
+  user: string;
+  start: string;
+  end: string;
+  /** 每天请假工时，缺省表示全天 */
+  hours?: number;
+  reason?: string;
+}
+
+export interface CapacityData {
+  default_daily_hours?: number;
+  members: CapacityMember[];
+  leaves: CapacityLeave[];
+}
+
+type CapacityUser = { id: string; name?: string };
+
+const DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected yyyy-MM-dd');
+
+const CapacityFileSchema = z.object({
+  default_daily_hours: z.number().positive().max(24).optional(),
+  members: z.array(z.object({
+    user: z.string().min(1),
+    daily_hours: z.number().nonnegative().max(24),
+  })).optional().default([]),
+  leaves: z.array(z.object({
+    user: z.string().min(1),
+    start: DATE,
+    end: DATE.optional(),
+    hours: z.number().positive().max(24).optional(),
+    reason: z.string().optional(),
+  }).refine(e => !e.end || e.start <= e.end, {
+    message: 'start must not be later than end',
+  })).optional().default([]),
+});
+
+function matchesUser(match: string, user: CapacityUser): boolean {
+  return match === user.id || (!!user.name && match === user.name);
+}
+
+export class CapacityPlan {
+  readonly defaultDailyHours: number;
+
+  constructor(private readonly data: CapacityData, fallbackDailyHours: number) {
+    this.defaultDailyHours = data.default_daily_hours ?? fallbackDailyHours;
+  }
+
+  /**
+   * 是否配置了成员产能或请假
+   */
+  get isConfigured(): boolean {
+    return this.data.default_daily_hours !== undefined
+      || this.data.members.length > 0
+      || this.data.leaves.length > 0;
+  }
+
+  /**
+   * 成员每个工作日的可用工时
+   */
+  dailyCapacity(user: CapacityUser): number {
+    const member = this.data.members.find(m => matchesUser(m.user, user));
+    return member ? member.daily_hours : this.defaultDailyHours;
+  }
+
+  /**
+   * 成员某日（yyyy-MM-dd）的请假工时，不超过当日产能
+   */
+  leaveHours(user: CapacityUser, date: string): number {
+    const capacity = this.dailyCapacity(user);
+    let hours = 0;
+    for (const leave of this.data.leaves) {
+      if (matchesUser(leave.user, user) && leave.start <= date && date <= leave.end) {
+        hours += leave.hours ?? capacity;
+      }
+    }
+    return Math.min(hours, capacity);
+  }
+}
+
+/**
+ * 解析产能配置 JSON（格式错误时抛出异常）
+ */
+export function parseCapacityJson(content: string): CapacityData {
+  const parsed = CapacityFileSchema.parse(JSON.parse(content));
+  return {
+    default_daily_hours: parsed.default_daily_hours,
+    members: parsed.members,
+    leaves: parsed.leaves.map(l => ({ ...l, end: l.end ?? l.start })),
+  };
+}
+
+/**
+ * 加载产能配置文件；未配置或加载失败时所有成员按 EXPECTED_DAILY_HOURS 计算产能、无请假
+ */
+export function loadCapacityPlan(
+  file: string = config.capacity?.file ?? '',
+  fallbackDailyHours: number = config.timesheet?.expectedDailyHours ?? 8
+): CapacityPlan {
+  const empty: CapacityData = { members: [], leaves: [] };
+  if (!file) {
+    return new CapacityPlan(empty, fallbackDailyHours);
+  }
+
+  try {
+    const data = parseCapacityJson(fs.readFileSync(file, 'utf-8'));
+    logger.info({ file, members: data.members.length, leaves: data.leaves.length }, 'Capacity plan loaded');
+    return new CapacityPlan(data, fallbackDailyHours);
+  } catch (error) {
+    logger.warn({ error, file }, 'Failed to load capacity plan, falling back to default daily hours');
+    return new CapacityPlan(empty, fallbackDailyHours);
+  }
+}
+
+// Singleton instance
+export const capacityPlan = loadCapacityPlan();
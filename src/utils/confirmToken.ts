@@ -0,0 +1,69 @@
+/**
+ * 写操作确认令牌
+ *
+ * 修改/删除类工具先以预览模式返回令牌，再次调用时携带令牌才真正执行，
+ * 防止模型一次调用就误删数据。令牌为 HMAC 签名，绑定操作类型和操作内容，
+ * 参数变化或超时后失效；签名密钥每个进程随机生成，重启后旧令牌全部失效。
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// 令牌有效期（毫秒）
+export const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+const SECRET = randomBytes(32);
+
+export type ConfirmTokenStatus = 'valid' | 'invalid' | 'expired';
+
+/**
+ * 签发确认令牌
+ */
+export function issueConfirmToken(action: string, payload: unknown, now = Date.now()): { token: string; expiresAt: number } {
+  const expiresAt = now + CONFIRM_TOKEN_TTL_MS;
+  return {
+    token: `${expiresAt.toString(36)}.${sign(action, payload, expiresAt)}`,
+    expiresAt,
+  };
+}
+
+/**
+ * 校验确认令牌（操作类型和内容必须与签发时一致）
+ */
+export function verifyConfirmToken(token: string, action: string, payload: unknown, now = Date.now()): ConfirmTokenStatus {
+  const [expiresPart, signature, ...rest] = token.split('.');
+  const expiresAt = parseInt(expiresPart, 36);
+  if (rest.length > 0 || !signature || !Number.isFinite(expiresAt)) {
+    return 'invalid';
+  }
+
+  const expected = Buffer.from(sign(action, payload, expiresAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return 'invalid';
+  }
+
+  return now > expiresAt ? 'expired' : 'valid';
+}
+
+// ============ 辅助函数 ============
+
+function sign(action: string, payload: unknown, expiresAt: number): string {
+  return createHmac('sha256', SECRET)
+    .update(`${action}\n${expiresAt}\n${canonicalJson(payload)}`)
+    .digest('base64url');
+}
+
+/**
+ * 键排序后的 JSON，保证相同内容生成相同签名
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
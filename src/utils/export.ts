@@ -0,0 +1,84 @@
+/**
+ * 表格导出（CSV / TSV）
+ *
+ * 输出带 UTF-8 BOM、CRLF 换行的文本，Excel 可直接打开且中文不乱码。
+ * 工具结果中的 ExportFile 由 MCP 层拆分为 embedded resource 返回。
+ */
+
+export type ExportFormat = 'csv' | 'tsv';
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export interface ExportTable {
+  header: string[];
+  rows: ExportCell[][];
+}
+
+export interface ExportFile {
+  filename: string;
+  mime_type: string;
+  row_count: number;
+  /** 文件内容（MCP 层会移出 JSON，作为 embedded resource 返回） */
+  content: string;
+  /** base64: content 为二进制文件的 base64 编码（以 blob resource 返回）；省略时为文本 */
+  encoding?: 'base64';
+}
+
+const UTF8_BOM = '\uFEFF';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+};
+
+// 以这些字符开头的单元格会被 Excel 当作公式执行
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * 转义单个单元格：防公式注入，含分隔符/引号/换行时加引号
+ */
+export function escapeCell(value: ExportCell, delimiter: string): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * 序列化表格为 CSV / TSV 文本（含 BOM）
+ */
+export function serializeTable(table: ExportTable, format: ExportFormat): string {
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  const lines = [table.header, ...table.rows]
+    .map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter));
+  return UTF8_BOM + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * 生成导出文件
+ */
+export function buildExportFile(baseName: string, table: ExportTable, format: ExportFormat): ExportFile {
+  return {
+    filename: `${baseName}.${format}`,
+    mime_type: MIME_TYPES[format],
+    row_count: table.rows.length,
+    content: serializeTable(table, format),
+  };
+}
+
+/**
+ * 判断工具结果是否携带导出文件
+ */
+export function isExportFile(value: unknown): value is ExportFile {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ExportFile).filename === 'string' &&
+    typeof (value as ExportFile).mime_type === 'string' &&
+    typeof (value as ExportFile).content === 'string'
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * 列表分页游标
+ *
+ * 游标对调用方不透明（base64url 编码的 JSON），记录下一页在上游分页中的位置
+ * （时间分片、页码、页内偏移）、上游页大小和首次查询的匹配总数。
+ * 游标绑定查询条件指纹，换了查询条件再使用会被拒绝，避免跳页或重复。
+ * 游标未签名，页大小会直接用作上游 page_size，解码时拒绝超过配置页大小的值。
+ */
+import { createHash } from 'node:crypto';
+import { config } from '../config/index.js';
+
+const CURSOR_VERSION = 1;
+
+export interface PageCursor {
+  chunk: number;
+  page: number;
+  offset: number;
+  pageSize: number;
+  /** 首次查询时的匹配总数 */
+  total: number;
+  /** 排序查询时为排序结果中的偏移（此时不使用上游位置） */
+  skip?: number;
+}
+
+/**
+ * 查询条件指纹（键顺序由调用方固定）
+ */
+export function pageQueryKey(query: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(query)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * 编码游标
+ */
+export function encodePageCursor(cursor: PageCursor, queryKey: string): string {
+  const payload = {
+    v: CURSOR_VERSION,
+    q: queryKey,
+    c: cursor.chunk,
+    p: cursor.page,
+    o: cursor.offset,
+    s: cursor.pageSize,
+    t: cursor.total,
+    k: cursor.skip,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * 解码游标；格式错误、版本不符、查询条件不一致或页大小超过上限时返回 null
+ */
+export function decodePageCursor(
+  token: string,
+  queryKey: string,
+  maxPageSize: number = config.pagination.pageSize
+): PageCursor | null {
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!payload || typeof payload !== 'object' || payload.v !== CURSOR_VERSION || payload.q !== queryKey) {
+    return null;
+  }
+
+  const { c, p, o, s, t, k } = payload;
+  if (![c, p, o, t].every(isNonNegativeInteger) || !isNonNegativeInteger(s) || s === 0 || s > maxPageSize) {
+    return null;
+  }
+  if (k !== undefined && !isNonNegativeInteger(k)) {
+    return null;
+  }
+
+  return {
+    chunk: c as number,
+    page: p as number,
+    offset: o as number,
+    pageSize: s,
+    total: t as number,
+    ...(k !== undefined ? { skip: k } : {}),
+  };
+}
+
+// ============ 辅助函数 ============
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
@@ -0,0 +1,150 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import { logger } from './logger.js';
+
+/**
+ * 费率卡 - 将工时换算为人工成本
+ *
+ * 费率卡文件（RATE_CARD_FILE）为 JSON：
+ * {
+ *   "currency": "CNY",
+ *   "rates": [
+ *     { "user": "user-alice", "rate": 320 },
+ *     { "job": "Developer", "rate": 260, "effective_from": "2026-01-01", "effective_to": "2026-06-30" },
+ *     { "department": "Design", "rate": 240, "currency": "USD" }
+ *   ]
+ * }
+ *
+ * - 每条费率只能指定 user（用户 ID 或用户名）、job（职位）、department（部门）之一
+ * - rate 为每小时费率，currency 缺省时使用顶层 currency（默认 CNY）
+ * - effective_from / effective_to 为生效日期（yyyy-MM-dd，含边界），缺省表示不限
+ * - 匹配优先级：user > job > department；同一级别有多条生效时取 effective_from 最晚的一条
+ */
+
+export type RateSource = 'user' | 'job' | 'department';
+
+export interface RateCardEntry {
+  source: RateSource;
+  /** 匹配值（user 为用户 ID 或用户名，job / department 为名称） */
+  match: string;
+  rate: number;
+  currency: string;
+  effective_from?: string;
+  effective_to?: string;
+}
+
+export interface RateMatch {
+  rate: number;
+  currency: string;
+  source: RateSource;
+}
+
+const DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected yyyy-MM-dd');
+
+const RateCardFileSchema = z.object({
+  currency: z.string().min(1).optional().default('CNY'),
+  rates: z.array(z.object({
+    user: z.string().min(1).optional(),
+    job: z.string().min(1).optional(),
+    department: z.string().min(1).optional(),
+    rate: z.number().nonnegative(),
+    currency: z.string().min(1).optional(),
+    effective_from: DATE.optional(),
+    effective_to: DATE.optional(),
+  }).refine(e => [e.user, e.job, e.department].filter(Boolean).length === 1, {
+    message: 'Each rate must specify exactly one of user, job, department',
+  }).refine(e => !e.effective_from || !e.effective_to || e.effective_from <= e.effective_to, {
+    message: 'effective_from must not be later than effective_to',
+  })),
+});
+
+const SOURCE_PRIORITY: RateSource[] = ['user', 'job', 'department'];
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+export class RateCard {
+  constructor(private readonly entries: RateCardEntry[]) {}
+
+  /**
+   * 是否配置了任何费率
+   */
+  get isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  /**
+   * 查找成员在某日（yyyy-MM-dd）适用的费率，没有适用费率时返回 null
+   */
+  findRate(user: { id: string; name?: string; job?: string; department?: string }, date: string): RateMatch | null {
+    for (const source of SOURCE_PRIORITY) {
+      const candidates = this.entries.filter(e =>
+        e.source === source
+        && matchesUser(e, user)
+        && (!e.effective_from || e.effective_from <= date)
+        && (!e.effective_to || date <= e.effective_to)
+      );
+      if (candidates.length === 0) continue;
+
+      const latest = candidates.reduce((best, e) => ((e.effective_from ?? '') > (best.effective_from ?? '') ? e : best));
+      return { rate: latest.rate, currency: latest.currency, source };
+    }
+    return null;
+  }
+}
+
+function matchesUser(entry: RateCardEntry, user: { id: string; name?: string; job?: string; department?: string }): boolean {
+  switch (entry.source) {
+    case 'user':
+      return entry.match === user.id || (!!user.name && entry.match === user.name);
+    case 'job':
+      return !!user.job && normalizeName(user.job) === normalizeName(entry.match);
+    case 'department':
+      return !!user.department && normalizeName(user.department) === normalizeName(entry.match);
+  }
+}
+
+/**
+ * 解析费率卡 JSON（格式错误时抛出异常）
+ */
+export function parseRateCardJson(content: string): RateCardEntry[] {
+  const parsed = RateCardFileSchema.parse(JSON.parse(content));
+  return parsed.rates.map(e => {
+    const source: RateSource = e.user ? 'user' : e.job ? 'job' : 'department';
+    const match = e.user ?? e.job ?? e.department;
+    if (match === undefined) {
+      throw new Error('Each rate must specify exactly one of user, job, department');
+    }
+    return {
+      source,
+      match,
+      rate: e.rate,
+      currency: e.currency ?? parsed.currency,
+      effective_from: e.effective_from,
+      effective_to: e.effective_to,
+    };
+  });
+}
+
+/**
+ * 加载费率卡文件；未配置或加载失败时返回空费率卡
+ */
+export function loadRateCard(file: string = config.rateCard?.file ?? ''): RateCard {
+  if (!file) {
+    return new RateCard([]);
+  }
+
+  try {
+    const entries = parseRateCardJson(fs.readFileSync(file, 'utf-8'));
+    logger.info({ file, rates: entries.length }, 'Rate card loaded');
+    return new RateCard(entries);
+  } catch (error) {
+    logger.warn({ error, file }, 'Failed to load rate card, cost reporting disabled');
+    return new RateCard([]);
+  }
+}
+
+// Singleton instance
+export const rateCard = loadRateCard();
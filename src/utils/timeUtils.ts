@@ -10,7 +10,7 @@ import {
   isValid,
   getUnixTime,
 } from 'date-fns';
-import { toZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { toZonedTime, fromZonedTime, formatInTimeZone } from 'date-fns-tz';
 import { config } from '../config/index.js';
 
 const THREE_MONTHS_SECONDS = 90 * 24 * 60 * 60;
@@ -193,3 +193,88 @@ export function formatTimestamp(timestamp: number): string {
 export function isTimeRangeExceedsThreeMonths(start: number, end: number): boolean {
   return (end - start) > THREE_MONTHS_SECONDS;
 }
+
+/**
+ * 当前日期（配置时区，yyyy-MM-dd）
+ */
+export function getTodayDate(): string {
+  return formatInTimeZone(new Date(), config.timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * 列出时间范围 [start, end) 覆盖的所有日期（配置时区，yyyy-MM-dd，升序）
+ */
+export function listDatesInRange(start: number, end: number): string[] {
+  if (end <= start) return [];
+
+  const first = formatTimestamp(start);
+  const last = formatTimestamp(end - 1);
+  const dates: string[] = [];
+
+  // 基于日期字符串按 UTC 逐日递增，不受夏令时/进程时区影响
+  const cursor = new Date(`${first}T00:00:00Z`);
+  for (let date = first; date <= last; date = cursor.toISOString().slice(0, 10)) {
+    dates.push(date);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * 获取日期的 ISO 星期（1=周一 … 7=周日）
+ */
+export function getIsoWeekday(date: string): number {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+/**
+ * 获取日期所在的 ISO 周（"2026-W05"，跨年时 ISO 年可能与日历年不同）
+ */
+export function getIsoWeekKey(date: string): string {
+  // 以本周四所在年份作为 ISO 年
+  const thursday = new Date(`${date}T00:00:00Z`);
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - getIsoWeekday(date));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / 86400000 / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * 解析单个日期（配置时区，yyyy-MM-dd）
+ *
+ * 支持 today / yesterday / 今天 / 昨天，以及 yyyy-MM-dd、yyyy/MM/dd、yyyyMMdd。
+ */
+export function parseDateInput(input: string): string {
+  const trimmedInput = input.trim();
+  const alias = trimmedInput.toLowerCase();
+
+  if (alias === 'today' || trimmedInput === '今天') {
+    return getTodayDate();
+  }
+  if (alias === 'yesterday' || trimmedInput === '昨天') {
+    const d = new Date(`${getTodayDate()}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() - 1);
+    return d.toISOString().slice(0, 10);
+  }
+
+  const match = /^(\d{4})[-/]?(\d{2})[-/]?(\d{2})$/.exec(trimmedInput);
+  if (match) {
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    // 拒绝 2026-13-01 这类无效日期和 2026-02-30 这类溢出日期
+    const d = new Date(`${date}T00:00:00Z`);
+    if (!isNaN(d.getTime()) && d.toISOString().slice(0, 10) === date) {
+      return date;
+    }
+  }
+
+  throw new Error(`Invalid date: ${input}`);
+}
+
+/**
+ * 日期（yyyy-MM-dd）在配置时区的零点 → Unix 时间戳（秒）
+ */
+export function dateToTimestamp(date: string): number {
+  return getUnixTime(fromZonedTime(`${date}T00:00:00`, config.timezone));
+}
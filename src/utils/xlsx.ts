@@ -0,0 +1,162 @@
+/**
+ * XLSX 工作簿导出（纯 TypeScript，无原生依赖）
+ *
+ * 只生成 Excel 打开所需的最小 SpreadsheetML 部件：字符串使用 inlineStr，
+ * 首行为加粗并冻结的表头。
+ */
+import { createZip } from './zip.js';
+import type { ExportCell, ExportFile, ExportTable } from './export.js';
+
+export interface XlsxSheet {
+  name: string;
+  table: ExportTable;
+}
+
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Excel 工作表名称限制：最多 31 个字符，不能包含 []:*?/\
+const SHEET_NAME_MAX_LENGTH = 31;
+const INVALID_SHEET_NAME_CHARS = /[[\]:*?/\\]/g;
+
+// XML 1.0 不允许的控制字符
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F]/g;
+
+/**
+ * 列序号（0 起）→ 列名（A、B … Z、AA …）
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * 生成 XLSX 文件内容
+ */
+export function buildXlsx(sheets: XlsxSheet[]): Buffer {
+  const names = sheets.map(s => sheetName(s.name));
+
+  return createZip([
+    { path: '[Content_Types].xml', data: contentTypesXml(sheets.length) },
+    { path: '_rels/.rels', data: ROOT_RELS_XML },
+    { path: 'xl/workbook.xml', data: workbookXml(names) },
+    { path: 'xl/_rels/workbook.xml.rels', data: workbookRelsXml(sheets.length) },
+    { path: 'xl/styles.xml', data: STYLES_XML },
+    ...sheets.map((s, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, data: worksheetXml(s.table) })),
+  ]);
+}
+
+/**
+ * 生成 XLSX 导出文件（base64 编码）
+ */
+export function buildXlsxExportFile(baseName: string, sheets: XlsxSheet[]): ExportFile {
+  return {
+    filename: `${baseName}.xlsx`,
+    mime_type: XLSX_MIME_TYPE,
+    row_count: sheets.reduce((sum, s) => sum + s.table.rows.length, 0),
+    content: buildXlsx(sheets).toString('base64'),
+    encoding: 'base64',
+  };
+}
+
+// ============ 辅助函数 ============
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const ROOT_RELS_XML = XML_HEADER
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+// 样式 0 为默认，样式 1 为加粗表头
+const STYLES_XML = XML_HEADER
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+  + '</styleSheet>';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function sheetName(name: string): string {
+  return name.replace(INVALID_SHEET_NAME_CHARS, '_').slice(0, SHEET_NAME_MAX_LENGTH) || 'Sheet';
+}
+
+function contentTypesXml(sheetCount: number): string {
+  const sheets = Array.from({ length: sheetCount }, (_, i) =>
+    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join('');
+
+  return XML_HEADER
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + sheets
+    + '</Types>';
+}
+
+function workbookXml(names: string[]): string {
+  const sheets = names.map((name, i) =>
+    `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+  ).join('');
+
+  return XML_HEADER
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" '
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets>${sheets}</sheets>`
+    + '</workbook>';
+}
+
+function workbookRelsXml(sheetCount: number): string {
+  const sheets = Array.from({ length: sheetCount }, (_, i) =>
+    `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+  ).join('');
+  const styles = `<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`;
+
+  return XML_HEADER
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + sheets
+    + styles
+    + '</Relationships>';
+}
+
+function cellXml(value: ExportCell, ref: string, style: number): string {
+  const s = style > 0 ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function worksheetXml(table: ExportTable): string {
+  const rows = [table.header, ...table.rows].map((row, r) => {
+    const cells = row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 0)).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return XML_HEADER
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0">'
+    + '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+    + '</sheetView></sheetViews>'
+    + `<sheetData>${rows}</sheetData>`
+    + '</worksheet>';
+}
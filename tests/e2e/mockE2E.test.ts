@@ -79,6 +79,33 @@ describe('E2E: list_users', () => {
   });
 });
 
+describe('E2E: list_projects', () => {
+  it('returns all fixture projects', async () => {
+    const result = await client.callTool({ name: 'list_projects', arguments: {} });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.projects).toHaveLength(FIXTURES.PROJECTS.length);
+    expect(parsed.total).toBe(2);
+    expect(parsed.has_more).toBe(false);
+  });
+
+  it('keyword matches name or identifier, type filters exactly', async () => {
+    const byIdentifier = parseResult(await client.callTool({ name: 'list_projects', arguments: { keyword: 'ops' } }));
+    expect(byIdentifier.projects.map((p: { id: string }) => p.id)).toEqual(['proj-2']);
+
+    const byType = parseResult(await client.callTool({ name: 'list_projects', arguments: { type: 'Agile' } }));
+    expect(byType.projects.map((p: { id: string }) => p.id)).toEqual(['proj-1']);
+  });
+
+  it('pages results', async () => {
+    const result = await client.callTool({ name: 'list_projects', arguments: { page_size: 1, page_index: 2 } });
+    const parsed = parseResult(result);
+    expect(parsed.projects).toHaveLength(1);
+    expect(parsed.projects[0].identifier).toBe('OPS');
+    expect(parsed.has_more).toBe(false);
+  });
+});
+
 describe('E2E: user_work_summary', () => {
   it('returns Alice work summary for Jan 2026', async () => {
     const result = await client.callTool({
@@ -143,6 +170,67 @@ describe('E2E: team_work_summary', () => {
     expect(parsed.data_quality.pagination_truncated).toBe(false);
   });
 
+  it('group_by=department aggregates hours, member counts and top projects', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        group_by: 'department',
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.by_department).toHaveLength(2);
+    const [engineering, design] = parsed.summary.by_department;
+    expect(engineering.department).toBe('Engineering');
+    expect(engineering.hours).toBe(10.5);
+    expect(engineering.member_count).toBe(2);
+    expect(engineering.top_projects[0].project.id).toBe('proj-1');
+    expect(design).toMatchObject({ department: 'Design', hours: 0, member_count: 1, top_projects: [] });
+  });
+
+  it('department filter restricts members to that department', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        department: 'design',
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.members).toHaveLength(1);
+    expect(parsed.summary.members[0].user.id).toBe('user-carol');
+    expect(parsed.summary.members[0].user.department).toBe('Design');
+  });
+
+  it('returns NO_USERS for an unknown department', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        department: 'Marketing',
+      },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('NO_USERS');
+  });
+
+  it('flags non-working columns in the day matrix', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        include_matrix: true,
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const matrix = parseResult(result).by_day_matrix;
+    expect(matrix.working_days).toHaveLength(matrix.dates.length);
+    expect(matrix.working_days[matrix.dates.indexOf('2026-01-03')]).toBe(false); // Saturday
+    expect(matrix.working_days[matrix.dates.indexOf('2026-01-05')]).toBe(true);  // Monday
+  });
+
   it('includes 0-hour users in team summary (P1-2 fix)', async () => {
     const result = await client.callTool({
       name: 'team_work_summary',
@@ -190,64 +278,1262 @@ describe('E2E: team_work_summary', () => {
     const parsed = parseResult(result);
     expect(parsed.summary.total_hours).toBe(7);
   });
+
+  it('accepts a project name or identifier as project_id', async () => {
+    for (const projectRef of ['Main Project', 'PROJ']) {
+      const result = await client.callTool({
+        name: 'team_work_summary',
+        arguments: {
+          time_range: { start: '2026-01-01', end: '2026-01-31' },
+          project_id: projectRef,
+          include_zero_users: false,
+        },
+      });
+      expect(result.isError).toBeFalsy();
+      const parsed = parseResult(result);
+      expect(parsed.summary.total_hours).toBe(10.5);
+    }
+  });
+
+  it('returns AMBIGUOUS_PROJECT with candidates when several projects match', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        project_id: 'o',
+      },
+    });
+    expect(result.isError).toBe(true);
+    const parsed = parseResult(result);
+    expect(parsed.code).toBe('AMBIGUOUS_PROJECT');
+    expect(parsed.candidates.map((c: { id: string }) => c.id).sort()).toEqual(['proj-1', 'proj-2']);
+  });
+
+  it('returns PROJECT_NOT_FOUND for an unknown project reference', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        project_id: 'No Such Project',
+      },
+    });
+    expect(result.isError).toBe(true);
+    const parsed = parseResult(result);
+    expect(parsed.code).toBe('PROJECT_NOT_FOUND');
+  });
 });
 
-describe('E2E: get_work_item', () => {
-  it('returns work item details', async () => {
+describe('E2E: review state', () => {
+  it('team_work_summary reports hours by review state for the team and each member', async () => {
     const result = await client.callTool({
-      name: 'get_work_item',
-      arguments: { id: 'wi-001' },
+      name: 'team_work_summary',
+      arguments: { time_range: { start: '2026-01-01', end: '2026-01-31' } },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.summary.by_review_state).toEqual({ approved: 7, pending: 2, rejected: 1.5, none: 0 });
+    const bob = parsed.summary.members.find((m: { user: { id: string } }) => m.user.id === 'user-bob');
+    expect(bob.by_review_state).toEqual({ approved: 0, pending: 2, rejected: 1.5, none: 0 });
+    expect(parsed.details.find((d: { workload_id: string }) => d.workload_id === 'wl-003').review_state).toBe('pending');
+  });
+
+  it('project_work_summary reports hours by review state for the project and each member', async () => {
+    const result = await client.callTool({
+      name: 'project_work_summary',
+      arguments: { project: { identifier: 'PROJ' }, time_range: { start: '2026-01-01', end: '2026-01-31' } },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.summary.by_review_state).toEqual({ approved: 7, pending: 2, rejected: 1.5, none: 0 });
+    const alice = parsed.summary.by_member.find((m: { user: { id: string } }) => m.user.id === 'user-alice');
+    expect(alice.by_review_state).toEqual({ approved: 7, pending: 0, rejected: 0, none: 0 });
+  });
+
+  it('work_item_work_summary reports hours by review state for the item and each reporter', async () => {
+    const result = await client.callTool({
+      name: 'work_item_work_summary',
+      arguments: { work_item: { identifier: 'PROJ-102' }, time_range: { start: '2026-01-01', end: '2026-01-31' } },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.summary.by_review_state).toEqual({ approved: 0, pending: 2, rejected: 1.5, none: 0 });
+    expect(parsed.summary.by_reporter[0].by_review_state).toEqual({ approved: 0, pending: 2, rejected: 1.5, none: 0 });
+  });
+
+  it('team_work_summary review_state filter only counts matching hours', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: { time_range: { start: '2026-01-01', end: '2026-01-31' }, review_state: 'pending' },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.summary.total_hours).toBe(2);
+    expect(parsed.summary.by_review_state).toEqual({ approved: 0, pending: 2, rejected: 0, none: 0 });
+    expect(parsed.details.map((d: { workload_id: string }) => d.workload_id)).toEqual(['wl-003']);
+  });
+
+  it('list_workloads returns and filters by review_state', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: { start: '2026-01-01', end: '2026-01-31' }, review_state: 'approved' },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.total).toBe(2);
+    expect(parsed.workloads.every((w: { review_state: string }) => w.review_state === 'approved')).toBe(true);
+  });
+
+  it('generate_weekly_report includes the approval breakdown', async () => {
+    const result = await client.callTool({
+      name: 'generate_weekly_report',
+      arguments: { time_range: { start: '2026-01-01', end: '2026-01-31' } },
+    });
+    expect(parseResult(result).markdown).toContain('- 审批：已通过 7 小时，待审批 2 小时，已驳回 1.5 小时');
+  });
+});
+
+describe('E2E: list_workloads cursor pagination', () => {
+  const timeRange = { start: '2026-01-01', end: '2026-01-31' };
+
+  it('walks every record once by following next_cursor', async () => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    for (let i = 0; i < 10; i++) {
+      const result = await client.callTool({
+        name: 'list_workloads',
+        arguments: { time_range: timeRange, limit: 3, ...(cursor ? { cursor } : {}) },
+      });
+      const parsed = parseResult(result);
+      expect(parsed.total).toBe(4);
+      ids.push(...parsed.workloads.map((w: { id: string }) => w.id));
+      cursor = parsed.next_cursor ?? undefined;
+      if (!cursor) break;
+      expect(parsed.data_quality.result_truncated).toBe(true);
+    }
+    expect(cursor).toBeUndefined();
+    expect(ids).toEqual(['wl-001', 'wl-002', 'wl-003', 'wl-004']);
+  });
+
+  it('returns next_cursor=null when everything fits in one page', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange },
+    });
+    expect(parseResult(result).next_cursor).toBeNull();
+  });
+
+  it('rejects a cursor reused with different parameters', async () => {
+    const first = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, limit: 1 },
+    }));
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, limit: 1, review_state: 'approved', cursor: first.next_cursor },
+    });
+    expect(parseResult(result).code).toBe('INVALID_CURSOR');
+  });
+});
+
+describe('E2E: list_workloads filters and sorting', () => {
+  const timeRange = { start: '2026-01-01', end: '2026-01-31' };
+  const ids = (parsed: { workloads: Array<{ id: string }> }) => parsed.workloads.map(w => w.id);
+
+  it('filters by hours range and workload type', async () => {
+    const byHours = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, min_hours: 2, max_hours: 3 },
+    }));
+    expect(ids(byHours).sort()).toEqual(['wl-002', 'wl-003']);
+
+    const byType = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, type: 'BugFix' },
+    }));
+    expect(ids(byType).sort()).toEqual(['wl-003', 'wl-004']);
+  });
+
+  it('matches description keywords ignoring case and full-width characters', async () => {
+    const parsed = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, description_keyword: 'ａｐｉ' },
+    }));
+    expect(ids(parsed)).toEqual(['wl-002']);
+  });
+
+  it('has_work_item=false excludes records linked to work items', async () => {
+    const parsed = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, has_work_item: false },
+    }));
+    expect(parsed.code).toBe('NO_DATA');
+  });
+
+  it('has_work_item treats idea and test case principals as not linked to a work item', async () => {
+    const february = { start: '2026-02-01', end: '2026-02-28' };
+    const linked = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: february, has_work_item: true },
+    }));
+    expect(linked.code).toBe('NO_DATA');
+    const unlinked = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: february, has_work_item: false },
+    }));
+    expect(ids(unlinked).sort()).toEqual(['wl-005', 'wl-006']);
+  });
+
+  it('rejects min_hours greater than max_hours', async () => {
+    const parsed = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, min_hours: 4, max_hours: 1 },
+    }));
+    expect(parsed.code).toBe('INVALID_PARAMS');
+  });
+
+  it('sorts by hours ascending and by user with a stable tie-break', async () => {
+    const byHours = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, sort_by: 'hours', sort_order: 'asc' },
+    }));
+    expect(ids(byHours)).toEqual(['wl-004', 'wl-003', 'wl-002', 'wl-001']);
+
+    const byUser = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: timeRange, sort_by: 'user' },
+    }));
+    expect(ids(byUser)).toEqual(['wl-002', 'wl-001', 'wl-004', 'wl-003']);
+  });
+
+  it('pages through sorted results with next_cursor', async () => {
+    const args = { time_range: timeRange, sort_by: 'hours', limit: 3 };
+    const first = parseResult(await client.callTool({ name: 'list_workloads', arguments: args }));
+    expect(ids(first)).toEqual(['wl-001', 'wl-002', 'wl-003']);
+    const second = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: { ...args, cursor: first.next_cursor },
+    }));
+    expect(ids(second)).toEqual(['wl-004']);
+    expect(second.total).toBe(4);
+    expect(second.next_cursor).toBeNull();
+  });
+});
+
+describe('E2E: cost_summary', () => {
+  const timeRange = { start: '2026-01-01', end: '2026-01-31' };
+
+  async function withRateCard(rates: unknown[], fn: () => Promise<void>) {
+    const { costService } = await import('../../src/services/costService.js');
+    const { RateCard, parseRateCardJson } = await import('../../src/utils/rateCard.js');
+    const original = costService['card'];
+    // @ts-expect-error: replacing the readonly rate card for the test
+    costService.card = new RateCard(parseRateCardJson(JSON.stringify({ currency: 'CNY', rates })));
+    try {
+      await fn();
+    } finally {
+      // @ts-expect-error: restoring the readonly rate card
+      costService.card = original;
+    }
+  }
+
+  it('returns RATE_CARD_NOT_CONFIGURED without a rate card', async () => {
+    const result = await client.callTool({ name: 'cost_summary', arguments: { time_range: timeRange } });
+    expect(parseResult(result).code).toBe('RATE_CARD_NOT_CONFIGURED');
+  });
+
+  it('costs rated hours and lists entries without a rate', async () => {
+    await withRateCard([{ job: 'Developer', rate: 300 }], async () => {
+      const result = await client.callTool({ name: 'cost_summary', arguments: { time_range: timeRange } });
+      expect(result.isError).toBeFalsy();
+      const parsed = parseResult(result);
+      expect(parsed.summary).toMatchObject({ total_hours: 10.5, unrated_hours: 3.5, cost: { CNY: 2100 } });
+      expect(parsed.by_member.find((m: { user: { id: string } }) => m.user.id === 'user-alice').rates)
+        .toEqual([{ rate: 300, currency: 'CNY', source: 'job' }]);
+      expect(parsed.by_project[0]).toMatchObject({ project: { identifier: 'PROJ' }, hours: 10.5, cost: { CNY: 2100 } });
+      expect(parsed.by_month).toEqual([{ month: '2026-01', hours: 10.5, unrated_hours: 3.5, cost: { CNY: 2100 } }]);
+      expect(parsed.unrated_entry_count).toBe(2);
+      expect(parsed.unrated_entries.map((e: { workload_id: string }) => e.workload_id).sort()).toEqual(['wl-003', 'wl-004']);
     });
+  });
+});
+
+describe('E2E: capacity_utilization', () => {
+  // 01-02 及 01-05 起为工作日；01-03 / 01-04 为周末（alice 7h、bob 2h 加班），bob 01-05 填报 1.5h
+  const timeRange = { start: '2026-01-02', end: '2026-01-09' };
+
+  async function withCapacityPlan(plan: unknown, fn: () => Promise<void>) {
+    const { capacityService } = await import('../../src/services/capacityService.js');
+    const { CapacityPlan, parseCapacityJson } = await import('../../src/utils/capacity.js');
+    const original = capacityService['plan'];
+    // @ts-expect-error: replacing the readonly capacity plan for the test
+    capacityService.plan = new CapacityPlan(parseCapacityJson(JSON.stringify(plan)), 8);
+    try {
+      await fn();
+    } finally {
+      // @ts-expect-error: restoring the readonly capacity plan
+      capacityService.plan = original;
+    }
+  }
+
+  it('compares logged hours with default daily capacity', async () => {
+    const result = await client.callTool({ name: 'capacity_utilization', arguments: { time_range: timeRange } });
     expect(result.isError).toBeFalsy();
     const parsed = parseResult(result);
-    expect(parsed.work_item.id).toBe('wi-001');
-    expect(parsed.work_item.title).toBe('Implement login page');
-    expect(parsed.work_item.project.name).toBe('Main Project');
+    expect(parsed.summary).toMatchObject({
+      working_day_count: 6,
+      default_daily_capacity: 8,
+      user_count: 3,
+      available_hours: 144,
+      logged_hours: 10.5,
+      utilization: 7.3,
+      under_allocated_count: 3,
+      over_allocated_count: 0,
+    });
+    const alice = parsed.members.find((m: { user: { id: string } }) => m.user.id === 'user-alice');
+    expect(alice).toMatchObject({ available_hours: 48, logged_hours: 7, utilization: 14.6, status: 'under' });
+    expect(alice.weekly).toBeUndefined();
+    expect(parsed.under_allocated.map((m: { user: { id: string } }) => m.user.id)).toEqual(['user-carol', 'user-bob', 'user-alice']);
+    expect(parsed.under_allocated[0].idle_hours).toBe(38.4);
+
+    expect(parsed.weekly.map((w: { week: string; working_days: number; available_hours: number; logged_hours: number }) =>
+      [w.week, w.working_days, w.available_hours, w.logged_hours])).toEqual([
+      ['2026-W01', 1, 24, 9],
+      ['2026-W02', 5, 120, 1.5],
+    ]);
+    expect(parsed.weekly[0].utilization).toBe(37.5);
   });
 
-  it('returns NOT_FOUND for nonexistent work item', async () => {
+  it('applies configured capacity and leave', async () => {
+    await withCapacityPlan({
+      members: [{ user: 'alice', daily_hours: 1 }],
+      leaves: [{ user: 'user-bob', start: '2026-01-02', end: '2026-01-09' }],
+    }, async () => {
+      const result = await client.callTool({
+        name: 'capacity_utilization',
+        arguments: { time_range: timeRange, include_weekly_by_member: true },
+      });
+      expect(result.isError).toBeFalsy();
+      const parsed = parseResult(result);
+      expect(parsed.summary).toMatchObject({ available_hours: 54, leave_hours: 48, over_allocated_count: 1 });
+
+      const bob = parsed.members.find((m: { user: { id: string } }) => m.user.id === 'user-bob');
+      expect(bob).toMatchObject({ available_hours: 0, leave_hours: 48, utilization: null, status: 'no_capacity' });
+
+      expect(parsed.over_allocated).toEqual([{
+        user: expect.objectContaining({ id: 'user-alice' }),
+        utilization: 116.7,
+        excess_hours: 0.4,
+      }]);
+      expect(parsed.members[0].weekly).toEqual([
+        { week: '2026-W01', available_hours: 1, logged_hours: 7, utilization: 700 },
+        { week: '2026-W02', available_hours: 5, logged_hours: 0, utilization: 0 },
+      ]);
+    });
+  });
+
+  it('rejects under_threshold above over_threshold', async () => {
     const result = await client.callTool({
-      name: 'get_work_item',
-      arguments: { id: 'nonexistent-wi' },
+      name: 'capacity_utilization',
+      arguments: { time_range: timeRange, over_threshold: 90, under_threshold: 95 },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('INVALID_PARAMS');
+  });
+
+  it('returns NO_WORKING_DAYS for a future range', async () => {
+    const result = await client.callTool({
+      name: 'capacity_utilization',
+      arguments: { time_range: { start: '2099-01-01', end: '2099-01-31' } },
     });
     expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('NO_WORKING_DAYS');
+  });
+});
+
+describe('E2E: idea / test case principals', () => {
+  it('team_work_summary attributes idea and test case hours to their product and test library', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: { time_range: { start: '2026-02-01', end: '2026-02-28' }, group_by: 'project' },
+    });
     const parsed = parseResult(result);
-    expect(parsed.code).toBe('NOT_FOUND');
+    expect(parsed.summary.total_hours).toBe(3.5);
+    expect(parsed.data_quality.missing_work_item_count).toBe(0);
+    const projects = parsed.summary.by_project.map((p: { project: { identifier: string }; hours: number }) => [p.project.identifier, p.hours]);
+    expect(projects).toEqual([['SHIP', 2.5], ['QA', 1]]);
+  });
+
+  it('team_work_summary by work_item keeps the principal type', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: { time_range: { start: '2026-02-01', end: '2026-02-28' }, group_by: 'work_item' },
+    });
+    const parsed = parseResult(result);
+    const items = parsed.summary.by_work_item.map((w: { work_item: { identifier: string; principal_type: string } }) => [w.work_item.identifier, w.work_item.principal_type]);
+    expect(items).toEqual([['SHIP-1', 'idea'], ['QA-7', 'test_case']]);
+  });
+
+  it('list_workloads filters by principal_type=idea', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: { start: '2026-02-01', end: '2026-02-28' }, principal_type: 'idea', principal_id: 'idea-001' },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.total).toBe(1);
+    expect(parsed.workloads[0].work_item).toMatchObject({ identifier: 'SHIP-1', principal_type: 'idea' });
+    expect(parsed.workloads[0].project.name).toBe('Customer Portal');
+  });
+
+  it('list_workloads principal_type=test_case returns test case records', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: { time_range: { start: '2026-02-01', end: '2026-02-28' }, principal_type: 'test_case', principal_id: 'tc-001' },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.workloads.map((w: { id: string }) => w.id)).toEqual(['wl-006']);
+    expect(parsed.workloads[0].project.identifier).toBe('QA');
   });
 });
 
-describe('E2E: list_workloads', () => {
-  it('returns workloads with enriched work item data', async () => {
+describe('E2E: CSV/TSV export', () => {
+  function exportResource(result: Awaited<ReturnType<typeof client.callTool>>) {
+    const blocks = result.content as Array<{ type: string; resource?: { uri: string; mimeType: string; text: string } }>;
+    return blocks.find(b => b.type === 'resource')?.resource;
+  }
+
+  it('team_work_summary format=csv returns member rows as an embedded resource', async () => {
+    const result = await client.callTool({
+      name: 'team_work_summary',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        format: 'csv',
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const resource = exportResource(result);
+    expect(resource?.mimeType).toBe('text/csv; charset=utf-8');
+    expect(resource?.text.startsWith('\uFEFFuser_id,user_name,')).toBe(true);
+    // header + 3 members (zero-hour users included)
+    expect(resource?.text.trimEnd().split('\r\n')).toHaveLength(4);
+
+    const structured = result.structuredContent as Record<string, any>;
+    expect(structured.export.row_count).toBe(3);
+    expect(structured.export.uri).toBe(resource?.uri);
+    expect(structured.export.content).toBeUndefined();
+    expect(structured.summary.members).toBeUndefined();
+  });
+
+  it('list_workloads format=tsv returns one row per workload', async () => {
     const result = await client.callTool({
       name: 'list_workloads',
       arguments: {
         time_range: { start: '2026-01-01', end: '2026-01-31' },
+        format: 'tsv',
       },
     });
     expect(result.isError).toBeFalsy();
+    const resource = exportResource(result);
+    expect(resource?.mimeType).toBe('text/tab-separated-values; charset=utf-8');
+    expect(resource?.text).toContain('PROJ-101\tImplement login page');
     const parsed = parseResult(result);
-    expect(parsed.workloads.length).toBe(4);
     expect(parsed.total).toBe(4);
-    // Verify work item enrichment happened
-    const first = parsed.workloads[0];
-    expect(first.work_item).toBeDefined();
+    expect(parsed.workloads).toBeUndefined();
+    expect(parsed.export.filename).toMatch(/^workloads_2026-01-01_\d{4}-\d{2}-\d{2}\.tsv$/);
   });
 
-  it('filters by user via principal_type=user', async () => {
+  it('export_workloads exports workload details', async () => {
     const result = await client.callTool({
-      name: 'list_workloads',
+      name: 'export_workloads',
       arguments: {
-        principal_type: 'user',
-        principal_id: 'user-bob',
         time_range: { start: '2026-01-01', end: '2026-01-31' },
+        department: 'Engineering',
       },
     });
     expect(result.isError).toBeFalsy();
     const parsed = parseResult(result);
-    expect(parsed.workloads.length).toBe(2); // Bob has 2 workloads
-    for (const w of parsed.workloads) {
-      expect(w.user.id).toBe('user-bob');
-    }
+    expect(parsed.export.row_count).toBe(4);
+    expect(parsed.summary.total_hours).toBe(10.5);
+    const resource = exportResource(result);
+    expect(resource?.text.split('\r\n')[0]).toContain('date,user_id,user_name,display_name,department,hours');
+  });
+
+  it('export_team_workbook returns an xlsx blob with one sheet per section', async () => {
+    const result = await client.callTool({
+      name: 'export_team_workbook',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        matrix_type: 'week',
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const blocks = result.content as Array<{ type: string; resource?: { mimeType: string; blob?: string } }>;
+    const resource = blocks.find(b => b.type === 'resource')?.resource;
+    expect(resource?.mimeType).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    // ZIP local file header "PK\x03\x04"
+    expect(Buffer.from(resource!.blob!, 'base64').readUInt32LE(0)).toBe(0x04034B50);
+
+    const parsed = parseResult(result);
+    expect(parsed.export.sheets).toEqual([
+      { name: 'Summary', row_count: 10 },
+      { name: 'Members', row_count: 3 },
+      { name: 'Projects', row_count: 1 },
+      // matrix rows only cover members who logged hours
+      { name: 'Week Matrix', row_count: 2 },
+      { name: 'Details', row_count: 4 },
+    ]);
+  });
+
+  it('export_workloads returns NO_DATA for an empty range', async () => {
+    const result = await client.callTool({
+      name: 'export_workloads',
+      arguments: {
+        time_range: { start: '2025-06-01', end: '2025-06-30' },
+        content: 'members',
+      },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('NO_DATA');
+  });
+});
+
+describe('E2E: get_work_item', () => {
+  it('returns work item details', async () => {
+    const result = await client.callTool({
+      name: 'get_work_item',
+      arguments: { id: 'wi-001' },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.work_item.id).toBe('wi-001');
+    expect(parsed.work_item.title).toBe('Implement login page');
+    expect(parsed.work_item.project.name).toBe('Main Project');
+  });
+
+  it('accepts a work item identifier in place of the id', async () => {
+    const result = await client.callTool({ name: 'get_work_item', arguments: { id: 'PROJ-102' } });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.work_item.id).toBe('wi-002');
+    expect(parsed.work_item.title).toBe('Fix navigation bug');
+    expect(parsed.work_item.estimated_workload).toBe(8);
+    expect(parsed.work_item.remaining_workload).toBe(4);
+  });
+
+  it('returns NOT_FOUND for nonexistent work item', async () => {
+    const result = await client.callTool({
+      name: 'get_work_item',
+      arguments: { id: 'nonexistent-wi' },
+    });
+    expect(result.isError).toBe(true);
+    const parsed = parseResult(result);
+    expect(parsed.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('E2E: search_work_items', () => {
+  it('filters by project, assignee name, state and type', async () => {
+    const result = await client.callTool({
+      name: 'search_work_items',
+      arguments: {
+        project: 'PROJ',
+        assignee: { name: 'bob' },
+        states: ['in_progress', 'todo'],
+        types: ['bug'],
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.total).toBe(1);
+    expect(parsed.work_items[0].identifier).toBe('PROJ-102');
+    expect(parsed.work_items[0].assignee.id).toBe('user-bob');
+    expect(parsed.work_items[0].project.identifier).toBe('PROJ');
+    expect(parsed.has_more).toBe(false);
+  });
+
+  it('matches title keyword and pages results', async () => {
+    const byKeyword = parseResult(await client.callTool({
+      name: 'search_work_items',
+      arguments: { keyword: 'login' },
+    }));
+    expect(byKeyword.work_items.map((w: { id: string }) => w.id)).toEqual(['wi-001']);
+
+    const firstPage = parseResult(await client.callTool({
+      name: 'search_work_items',
+      arguments: { page_size: 1 },
+    }));
+    expect(firstPage.work_items).toHaveLength(1);
+    expect(firstPage.total).toBe(2);
+    expect(firstPage.has_more).toBe(true);
+  });
+
+  it('returns USER_NOT_FOUND for an unknown assignee', async () => {
+    const result = await client.callTool({
+      name: 'search_work_items',
+      arguments: { assignee: { name: 'nobody-here' } },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('USER_NOT_FOUND');
+  });
+});
+
+describe('E2E: list_workloads', () => {
+  it('returns workloads with enriched work item data', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.workloads.length).toBe(4);
+    expect(parsed.total).toBe(4);
+    // Verify work item enrichment happened
+    const first = parsed.workloads[0];
+    expect(first.work_item).toBeDefined();
+  });
+
+  it('filters by user via principal_type=user', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: {
+        principal_type: 'user',
+        principal_id: 'user-bob',
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.workloads.length).toBe(2); // Bob has 2 workloads
+    for (const w of parsed.workloads) {
+      expect(w.user.id).toBe('user-bob');
+    }
+  });
+
+  it('resolves work item identifiers in principal_id and filter_work_item_id', async () => {
+    const byPrincipal = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        principal_type: 'work_item',
+        principal_id: 'PROJ-101',
+      },
+    }));
+    expect(byPrincipal.workloads.length).toBe(2);
+    for (const w of byPrincipal.workloads) {
+      expect(w.work_item.id).toBe('wi-001');
+    }
+
+    const byFilter = parseResult(await client.callTool({
+      name: 'list_workloads',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        filter_work_item_id: 'PROJ-102',
+      },
+    }));
+    expect(byFilter.workloads.length).toBe(2);
+    for (const w of byFilter.workloads) {
+      expect(w.user.id).toBe('user-bob');
+    }
+  });
+
+  it('returns WORK_ITEM_NOT_FOUND for an unknown work item identifier', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        filter_work_item_id: 'PROJ-999',
+      },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('WORK_ITEM_NOT_FOUND');
+  });
+
+  it('resolves filter_project_id given as a project identifier', async () => {
+    const result = await client.callTool({
+      name: 'list_workloads',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        filter_project_id: 'PROJ',
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.workloads.length).toBe(4);
+    for (const w of parsed.workloads) {
+      expect(w.project_id).toBe('proj-1');
+    }
+  });
+});
+
+describe('E2E: project_work_summary', () => {
+  it('returns project summary by identifier with per-member breakdown', async () => {
+    const result = await client.callTool({
+      name: 'project_work_summary',
+      arguments: {
+        project: { identifier: 'PROJ' },
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.project.id).toBe('proj-1');
+    expect(parsed.summary.project.name).toBe('Main Project');
+    expect(parsed.summary.total_hours).toBe(10.5);
+    expect(parsed.summary.user_count).toBe(2);
+    expect(parsed.summary.by_member[0].user.id).toBe('user-alice');
+    expect(parsed.summary.by_member[0].total_hours).toBe(7);
+    expect(parsed.summary.by_work_item).toHaveLength(2);
+    expect(parsed.summary.by_type.map((t: { type: string }) => t.type).sort()).toEqual(['bugfix', 'development']);
+    expect(parsed.summary.by_week.reduce((sum: number, w: { hours: number }) => sum + w.hours, 0)).toBe(10.5);
+    expect(parsed.data_quality.workloads_count).toBe(4);
+  });
+
+  it('resolves the project by name', async () => {
+    const result = await client.callTool({
+      name: 'project_work_summary',
+      arguments: {
+        project: { name: 'main project' },
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.project.id).toBe('proj-1');
+    expect(parsed.summary.total_hours).toBe(10.5);
+  });
+
+  it('returns PROJECT_NOT_FOUND for unknown project', async () => {
+    const result = await client.callTool({
+      name: 'project_work_summary',
+      arguments: {
+        project: { id: 'proj-missing' },
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBe(true);
+    const parsed = parseResult(result);
+    expect(parsed.code).toBe('PROJECT_NOT_FOUND');
+  });
+});
+
+describe('E2E: work_item_work_summary', () => {
+  it('returns contributor breakdown and timeline for a work item identifier', async () => {
+    const result = await client.callTool({
+      name: 'work_item_work_summary',
+      arguments: {
+        work_item: { identifier: 'PROJ-102' },
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.work_item.id).toBe('wi-002');
+    expect(parsed.summary.work_item.state).toBe('in_progress');
+    expect(parsed.summary.work_item.assignee.id).toBe('user-bob');
+    expect(parsed.summary.work_item.project.name).toBe('Main Project');
+    expect(parsed.summary.total_hours).toBe(3.5);
+    expect(parsed.summary.by_reporter).toHaveLength(1);
+    expect(parsed.summary.by_reporter[0].workloads_count).toBe(2);
+    expect(parsed.summary.first_logged_date).toBe('2026-01-04');
+    expect(parsed.summary.last_logged_date).toBe('2026-01-05');
+    expect(parsed.summary.by_day).toEqual([
+      { date: '2026-01-04', hours: 2 },
+      { date: '2026-01-05', hours: 1.5 },
+    ]);
+    expect(parsed.summary.by_type).toEqual([{ type: 'bugfix', hours: 3.5 }]);
+  });
+
+  it('returns WORK_ITEM_NOT_FOUND for unknown identifier', async () => {
+    const result = await client.callTool({
+      name: 'work_item_work_summary',
+      arguments: {
+        work_item: { identifier: 'PROJ-999' },
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBe(true);
+    const parsed = parseResult(result);
+    expect(parsed.code).toBe('WORK_ITEM_NOT_FOUND');
+  });
+});
+
+describe('E2E: compare_work_periods', () => {
+  it('returns team deltas between two periods', async () => {
+    const result = await client.callTool({
+      name: 'compare_work_periods',
+      arguments: {
+        current: { start: '2026-01-01', end: '2026-01-31' },
+        previous: { start: '2025-12-01', end: '2025-12-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.scope).toBe('team');
+    expect(parsed.current.total_hours).toBe(10.5);
+    expect(parsed.current.user_count).toBe(2);
+    expect(parsed.previous.total_hours).toBe(0);
+    // 上一周期为 0 时无基准百分比
+    expect(parsed.total).toEqual({ current_hours: 10.5, previous_hours: 0, delta_hours: 10.5, delta_percent: null });
+    expect(parsed.by_member[0].user.id).toBe('user-alice');
+    expect(parsed.by_member[0].delta_hours).toBe(7);
+    expect(parsed.by_type.map((t: { type: string }) => t.type)).toEqual(['development', 'bugfix']);
+    expect(parsed.new_projects.map((p: { id: string }) => p.id)).toEqual(['proj-1']);
+    expect(parsed.dropped_projects).toEqual([]);
+    expect(parsed.data_quality.periods.previous.workloads_count).toBe(0);
+  });
+
+  it('returns personal deltas for a single user', async () => {
+    const result = await client.callTool({
+      name: 'compare_work_periods',
+      arguments: {
+        user: { id: 'user-bob' },
+        current: { start: '2026-01-01', end: '2026-01-31' },
+        previous: { start: '2025-12-01', end: '2025-12-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.scope).toBe('user');
+    expect(parsed.total.delta_hours).toBe(3.5);
+    expect(parsed.by_member).toHaveLength(1);
+    expect(parsed.by_type).toEqual([
+      { type: 'bugfix', current_hours: 3.5, previous_hours: 0, delta_hours: 3.5, delta_percent: null },
+    ]);
+  });
+
+  it('returns INVALID_PARAMS when user and user_ids are both given', async () => {
+    const result = await client.callTool({
+      name: 'compare_work_periods',
+      arguments: {
+        user: { id: 'user-alice' },
+        user_ids: ['user-bob'],
+        current: { start: '2026-01-01', end: '2026-01-31' },
+        previous: { start: '2025-12-01', end: '2025-12-31' },
+      },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('INVALID_PARAMS');
+  });
+});
+
+describe('E2E: estimate_vs_actual', () => {
+  it('reports overrun ratio, over-estimate items and per-project totals', async () => {
+    const result = await client.callTool({
+      name: 'estimate_vs_actual',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        project: 'PROJ',
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    // wi-001: 7h logged vs 6h estimated; wi-002: 3.5h logged vs 8h estimated
+    expect(parsed.summary.item_count).toBe(2);
+    expect(parsed.summary.estimated_hours).toBe(14);
+    expect(parsed.summary.actual_hours).toBe(10.5);
+    expect(parsed.summary.overrun_ratio).toBe(0.75);
+    expect(parsed.summary.over_estimate_count).toBe(1);
+    expect(parsed.over_estimate_items).toHaveLength(1);
+    expect(parsed.over_estimate_items[0].work_item.identifier).toBe('PROJ-101');
+    expect(parsed.over_estimate_items[0].variance_hours).toBe(1);
+    expect(parsed.over_estimate_items[0].overrun_ratio).toBe(1.17);
+    expect(parsed.by_project).toHaveLength(1);
+    expect(parsed.by_project[0].project.id).toBe('proj-1');
+    expect(parsed.by_project[0].actual_hours).toBe(10.5);
+  });
+
+  it('restricts the analysis to the given work item identifiers', async () => {
+    const result = await client.callTool({
+      name: 'estimate_vs_actual',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        work_items: ['PROJ-102'],
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.item_count).toBe(1);
+    expect(parsed.summary.overrun_ratio).toBe(0.44);
+    expect(parsed.over_estimate_items).toHaveLength(0);
+  });
+
+  it('returns INVALID_PARAMS without project or work_items', async () => {
+    const result = await client.callTool({
+      name: 'estimate_vs_actual',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('INVALID_PARAMS');
+  });
+
+  it('fetches each work item separately and reports pagination_truncated', async () => {
+    const result = await client.callTool({
+      name: 'estimate_vs_actual',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        work_items: ['PROJ-101', 'PROJ-102'],
+      },
+    });
+    const parsed = parseResult(result);
+    expect(parsed.summary.item_count).toBe(2);
+    expect(parsed.data_quality.pagination_truncated).toBe(false);
+  });
+});
+
+describe('E2E: detect_workload_anomalies', () => {
+  it('reports findings per user with workload ids and rule names', async () => {
+    const result = await client.callTool({
+      name: 'detect_workload_anomalies',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        max_entry_hours: 3.5,
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.user_count).toBe(3);
+    expect(parsed.summary.flagged_user_count).toBe(1);
+    // Alice logged 4h on Sat Jan 3 and 3h on Sun Jan 4 only
+    const alice = parsed.users[0];
+    expect(alice.user.id).toBe('user-alice');
+    const rules = alice.findings.map((f: { rule: string }) => f.rule).sort();
+    expect(rules).toEqual(['entry_over_hours', 'weekend_only']);
+    const weekendOnly = alice.findings.find((f: { rule: string }) => f.rule === 'weekend_only');
+    expect(weekendOnly.workload_ids).toHaveLength(2);
+    expect(parsed.summary.by_rule.entry_over_hours).toBe(1);
+  });
+
+  it('runs only the requested rules', async () => {
+    const result = await client.callTool({
+      name: 'detect_workload_anomalies',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+        rules: ['duplicate_entry', 'future_entry'],
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.rules).toEqual(['duplicate_entry', 'future_entry']);
+    expect(parsed.users).toHaveLength(0);
+  });
+});
+
+describe('E2E: timesheet_compliance', () => {
+  // 2026-01-05 ~ 2026-01-09 为周一至周五；bob 仅在 01-05 填报 1.5h
+  it('reports missing and under-filled working days per user', async () => {
+    const result = await client.callTool({
+      name: 'timesheet_compliance',
+      arguments: {
+        time_range: { start: '2026-01-03', end: '2026-01-09' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.working_day_count).toBe(5);
+    expect(parsed.summary.expected_daily_hours).toBe(8);
+    expect(parsed.summary.user_count).toBe(3);
+    expect(parsed.summary.fully_compliant_count).toBe(0);
+
+    const bob = parsed.users.find((u: { user: { id: string } }) => u.user.id === 'user-bob');
+    expect(bob.under_filled_days).toEqual([{ date: '2026-01-05', hours: 1.5, shortfall: 6.5 }]);
+    expect(bob.missing_days).toEqual(['2026-01-06', '2026-01-07', '2026-01-08', '2026-01-09']);
+    expect(bob.logged_hours).toBe(1.5);
+    expect(bob.compliance_rate).toBe(0);
+
+    const carol = parsed.users.find((u: { user: { id: string } }) => u.user.id === 'user-carol');
+    expect(carol.missing_days).toHaveLength(5);
+  });
+
+  it('applies expected_daily_hours override', async () => {
+    const result = await client.callTool({
+      name: 'timesheet_compliance',
+      arguments: {
+        time_range: { start: '2026-01-03', end: '2026-01-09' },
+        user_ids: ['user-bob'],
+        expected_daily_hours: 1.5,
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.users).toHaveLength(1);
+    expect(parsed.users[0].compliant_days).toBe(1);
+    expect(parsed.users[0].under_filled_days).toEqual([]);
+    expect(parsed.users[0].compliance_rate).toBe(0.2);
+  });
+
+  it('returns NO_WORKING_DAYS for a future range', async () => {
+    const result = await client.callTool({
+      name: 'timesheet_compliance',
+      arguments: {
+        time_range: { start: '2099-01-01', end: '2099-01-31' },
+      },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('NO_WORKING_DAYS');
+  });
+});
+
+describe('E2E: generate_weekly_report', () => {
+  it('returns a Markdown report with members, work items and zero-hour members', async () => {
+    const result = await client.callTool({
+      name: 'generate_weekly_report',
+      arguments: {
+        time_range: { start: '2026-01-01', end: '2026-01-31' },
+      },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.summary.total_hours).toBe(10.5);
+    expect(parsed.summary.zero_hour_user_count).toBe(1);
+    expect(parsed.markdown).toMatch(/^# 团队工时周报（2026-01-01 ~ /);
+    expect(parsed.markdown).toContain('| PROJ-101 | Implement login page | 7 |');
+    expect(parsed.markdown).toContain('## 零工时成员\n\n- Carol');
+  });
+
+  it('returns PROJECT_NOT_FOUND for an unknown project', async () => {
+    const result = await client.callTool({
+      name: 'generate_weekly_report',
+      arguments: { project_id: 'No Such Project' },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('PROJECT_NOT_FOUND');
+  });
+});
+
+describe('E2E: create_workload', () => {
+  it('dry_run returns a preview without writing', async () => {
+    const before = FIXTURES.CREATED_WORKLOADS.length;
+    const result = await client.callTool({
+      name: 'create_workload',
+      arguments: { user: { name: 'alice' }, work_item: 'PROJ-101', date: '2026-01-05', hours: 3, description: 'Code review', dry_run: true },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.dry_run).toBe(true);
+    expect(parsed.workload.id).toBeNull();
+    expect(parsed.workload.user.id).toBe('user-alice');
+    expect(parsed.workload.work_item).toMatchObject({ id: 'wi-001', identifier: 'PROJ-101' });
+    expect(FIXTURES.CREATED_WORKLOADS).toHaveLength(before);
+  });
+
+  it('creates a workload and returns its id', async () => {
+    const result = await client.callTool({
+      name: 'create_workload',
+      arguments: { user: { id: 'user-bob' }, work_item: 'wi-002', date: '2026-01-05', hours: 1.5, description: 'Code review' },
+    });
+    expect(result.isError).toBeFalsy();
+    const parsed = parseResult(result);
+    expect(parsed.dry_run).toBe(false);
+    expect(parsed.workload.id).toMatch(/^wl-new-/);
+    expect(parsed.workload.hours).toBe(1.5);
+
+    const created = FIXTURES.CREATED_WORKLOADS.find(w => w.id === parsed.workload.id);
+    expect(created).toMatchObject({ duration: 1.5, description: 'Code review', report_by: { id: 'user-bob' } });
+  });
+
+  it('rejects invalid hours, future dates and unknown work items', async () => {
+    const invalidHours = await client.callTool({
+      name: 'create_workload',
+      arguments: { user: { id: 'user-bob' }, work_item: 'PROJ-101', hours: 25 },
+    });
+    expect(invalidHours.isError).toBe(true);
+    expect(parseResult(invalidHours).code).toBe('INVALID_PARAMS');
+
+    const futureDate = await client.callTool({
+      name: 'create_workload',
+      arguments: { user: { id: 'user-bob' }, work_item: 'PROJ-101', date: '2099-01-01', hours: 2 },
+    });
+    expect(futureDate.isError).toBe(true);
+    expect(parseResult(futureDate).code).toBe('INVALID_DATE');
+
+    const unknownItem = await client.callTool({
+      name: 'create_workload',
+      arguments: { user: { id: 'user-bob' }, work_item: 'PROJ-999', date: '2026-01-05', hours: 2 },
+    });
+    expect(unknownItem.isError).toBe(true);
+    expect(parseResult(unknownItem).code).toBe('WORK_ITEM_NOT_FOUND');
+  });
+});
+
+describe('E2E: update_workload / delete_workload', () => {
+  async function createEntry(hours: number): Promise<string> {
+    const result = await client.callTool({
+      name: 'create_workload',
+      arguments: { user: { id: 'user-alice' }, work_item: 'PROJ-101', date: '2026-01-06', hours, description: 'Draft' },
+    });
+    return parseResult(result).workload.id;
+  }
+
+  it('previews an update, then applies it with the confirm token', async () => {
+    const workloadId = await createEntry(2);
+
+    const preview = parseResult(await client.callTool({
+      name: 'update_workload',
+      arguments: { workload_id: workloadId, hours: 3, description: 'Code review' },
+    }));
+    expect(preview.status).toBe('preview');
+    expect(preview.changes.hours).toEqual({ from: 2, to: 3 });
+    expect(preview.confirm_token).toBeTruthy();
+    expect(FIXTURES.CREATED_WORKLOADS.find(w => w.id === workloadId)?.duration).toBe(2);
+
+    const updated = parseResult(await client.callTool({
+      name: 'update_workload',
+      arguments: { workload_id: workloadId, hours: 3, description: 'Code review', confirm_token: preview.confirm_token },
+    }));
+    expect(updated.status).toBe('updated');
+    expect(updated.workload).toMatchObject({ id: workloadId, hours: 3, description: 'Code review' });
+
+    // 记录已变化，旧令牌不能重放
+    const replay = await client.callTool({
+      name: 'update_workload',
+      arguments: { workload_id: workloadId, hours: 3, description: 'Code review', confirm_token: preview.confirm_token },
+    });
+    expect(replay.isError).toBe(true);
+    expect(parseResult(replay).code).toBe('CONFIRM_TOKEN_INVALID');
+  });
+
+  it('rejects a confirm token issued for different parameters', async () => {
+    const workloadId = await createEntry(2);
+    const preview = parseResult(await client.callTool({
+      name: 'update_workload',
+      arguments: { workload_id: workloadId, hours: 3 },
+    }));
+
+    const result = await client.callTool({
+      name: 'update_workload',
+      arguments: { workload_id: workloadId, hours: 8, confirm_token: preview.confirm_token },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('CONFIRM_TOKEN_INVALID');
+    expect(FIXTURES.CREATED_WORKLOADS.find(w => w.id === workloadId)?.duration).toBe(2);
+  });
+
+  it('previews a delete, then deletes with the confirm token', async () => {
+    const workloadId = await createEntry(1);
+
+    const preview = parseResult(await client.callTool({
+      name: 'delete_workload',
+      arguments: { workload_id: workloadId },
+    }));
+    expect(preview.status).toBe('preview');
+    expect(preview.workload).toMatchObject({ id: workloadId, hours: 1, user: { id: 'user-alice' } });
+    expect(FIXTURES.CREATED_WORKLOADS.some(w => w.id === workloadId)).toBe(true);
+
+    const deleted = parseResult(await client.callTool({
+      name: 'delete_workload',
+      arguments: { workload_id: workloadId, confirm_token: preview.confirm_token },
+    }));
+    expect(deleted.status).toBe('deleted');
+    expect(FIXTURES.CREATED_WORKLOADS.some(w => w.id === workloadId)).toBe(false);
+  });
+
+  it('refuses to touch another user\'s workload when restricted', async () => {
+    const result = await client.callTool({
+      name: 'delete_workload',
+      arguments: { workload_id: 'wl-001', _restrict_to_user_id: 'user-bob' },
+    });
+    expect(result.isError).toBe(true);
+    expect(parseResult(result).code).toBe('FORBIDDEN');
+  });
+
+  it('returns WORKLOAD_NOT_FOUND and INVALID_PARAMS', async () => {
+    const missing = await client.callTool({
+      name: 'update_workload',
+      arguments: { workload_id: 'wl-missing', hours: 1 },
+    });
+    expect(parseResult(missing).code).toBe('WORKLOAD_NOT_FOUND');
+
+    const nothing = await client.callTool({
+      name: 'update_workload',
+      arguments: { workload_id: 'wl-001' },
+    });
+    expect(parseResult(nothing).code).toBe('INVALID_PARAMS');
+  });
+});
+
+describe('E2E: resources', () => {
+  function parseResource(result: { contents: Array<{ text?: unknown }> }) {
+    return JSON.parse(result.contents[0].text as string);
+  }
+
+  it('lists fixed resources and resource templates', async () => {
+    const { resources } = await client.listResources();
+    expect(resources.map(r => r.uri)).toEqual(['pingcode://users', 'pingcode://projects']);
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+      'pingcode://users/{id}',
+      'pingcode://projects/{id}',
+      'pingcode://work-items/{id}',
+      'pingcode://reports/team/{range}',
+    ]);
+  });
+
+  it('reads users, a single user and a project by identifier', async () => {
+    const users = parseResource(await client.readResource({ uri: 'pingcode://users' }));
+    expect(users.total).toBe(3);
+
+    const alice = parseResource(await client.readResource({ uri: 'pingcode://users/user-alice' }));
+    expect(alice.name).toBe('alice');
+
+    const project = parseResource(await client.readResource({ uri: 'pingcode://projects/OPS' }));
+    expect(project.id).toBe('proj-2');
+  });
+
+  it('reads a work item by identifier', async () => {
+    const result = await client.readResource({ uri: 'pingcode://work-items/PROJ-102' });
+    expect(result.contents[0].mimeType).toBe('application/json');
+    const workItem = parseResource(result);
+    expect(workItem.id).toBe('wi-002');
+    expect(workItem.title).toBe('Fix navigation bug');
+  });
+
+  it('reads a team report for a date range', async () => {
+    const report = parseResource(await client.readResource({ uri: 'pingcode://reports/team/2026-01-01..2026-01-31' }));
+    expect(report.total_hours).toBe(10.5);
+    expect(report.user_count).toBe(3);
+    expect(report.time_range.start).toBe('2026-01-01');
+  });
+
+  it('rejects unknown or missing resources', async () => {
+    await expect(client.readResource({ uri: 'pingcode://unknown' })).rejects.toThrow(/Unknown resource/);
+    await expect(client.readResource({ uri: 'pingcode://users/nobody' })).rejects.toThrow(/Resource not found/);
+    await expect(client.readResource({ uri: 'pingcode://reports/team/not-a-date' })).rejects.toThrow(/Invalid time range/);
+  });
+});
+
+describe('E2E: prompts', () => {
+  it('lists the report prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual([
+      'weekly_team_report',
+      'my_week_recap',
+      'project_burn_review',
+      'missing_timesheets_reminder',
+    ]);
+    const burn = prompts.find(p => p.name === 'project_burn_review');
+    expect(burn?.arguments?.find(a => a.name === 'project')?.required).toBe(true);
+  });
+
+  it('renders tool calls with group_by and the requested period', async () => {
+    const result = await client.getPrompt({
+      name: 'weekly_team_report',
+      arguments: { period: '2026-01-01..2026-01-31', department: 'Engineering' },
+    });
+    const text = (result.messages[0].content as { text: string }).text;
+    expect(text).toContain('team_work_summary(time_range={start: "2026-01-01", end: "2026-01-31"}, group_by="user", top_n=5, department="Engineering")');
+    expect(text).toContain('timesheet_compliance(');
+  });
+
+  it('defaults the period to a time alias', async () => {
+    const result = await client.getPrompt({ name: 'my_week_recap' });
+    const text = (result.messages[0].content as { text: string }).text;
+    expect(text).toContain('time_range={start: "last_week", end: "last_week"}, group_by="day"');
+    // enterprise mode without a user argument: ask for the member first
+    expect(text).toContain('先询问我的姓名');
+  });
+
+  it('rejects unknown prompts and missing required arguments', async () => {
+    await expect(client.getPrompt({ name: 'no_such_prompt' })).rejects.toThrow(/Unknown prompt/);
+    await expect(client.getPrompt({ name: 'project_burn_review' })).rejects.toThrow(/project/);
   });
 });
 
@@ -14,28 +14,68 @@ const USERS = [
   { id: 'user-carol', name: 'carol', display_name: 'Carol Wang', email: 'carol@example.com', department: 'Design', job: 'Designer' },
 ];
 
+const PROJECTS = [
+  { id: 'proj-1', identifier: 'PROJ', name: 'Main Project', type: 'agile' },
+  { id: 'proj-2', identifier: 'OPS', name: 'Operations Board', type: 'kanban' },
+];
+
 const WORK_ITEMS: Record<string, unknown> = {
   'wi-001': {
     id: 'wi-001',
     identifier: 'PROJ-101',
     title: 'Implement login page',
-    project: { id: 'proj-1', identifier: 'PROJ', name: 'Main Project', type: 'agile' },
+    project: PROJECTS[0],
     assignee: USERS[0],
     state: 'done',
     type: 'story',
+    estimated_workload: 6,
+    remaining_workload: 0,
   },
   'wi-002': {
     id: 'wi-002',
     identifier: 'PROJ-102',
     title: 'Fix navigation bug',
-    project: { id: 'proj-1', identifier: 'PROJ', name: 'Main Project', type: 'agile' },
+    project: PROJECTS[0],
     assignee: USERS[1],
     state: 'in_progress',
     type: 'bug',
+    estimated_workload: 8,
+    remaining_workload: 4,
   },
 };
 
-// Workloads: all timestamps in Jan 2026
+// Non-work-item workload principals (ideas belong to a product, test cases to a test library)
+const PRODUCTS = [
+  { id: 'prod-1', identifier: 'SHIP', name: 'Customer Portal' },
+];
+
+const TEST_LIBRARIES = [
+  { id: 'lib-1', identifier: 'QA', name: 'Regression Suite' },
+];
+
+const IDEAS: Record<string, unknown> = {
+  'idea-001': {
+    id: 'idea-001',
+    identifier: 'SHIP-1',
+    title: 'Self-service onboarding',
+    product: PRODUCTS[0],
+    assignee: USERS[2],
+    state: 'planning',
+  },
+};
+
+const TEST_CASES: Record<string, unknown> = {
+  'tc-001': {
+    id: 'tc-001',
+    identifier: 'QA-7',
+    title: 'Login regression',
+    library: TEST_LIBRARIES[0],
+    maintenance: USERS[0],
+    state: 'ready',
+  },
+};
+
+// Workloads: work item timestamps in Jan 2026; idea / test case workloads in Feb 2026
 const BASE_TS = 1767225600; // 2026-01-01 00:00:00 UTC
 const DAY = 86400;
 
@@ -46,6 +86,7 @@ const RAW_WORKLOADS = [
     principal: { id: 'wi-001', identifier: 'PROJ-101', title: 'Implement login page', type: 'story' },
     type: { id: 'type-dev', name: 'development' },
     duration: 4,
+    review_state: 'approved',
     description: 'Frontend work',
     report_at: BASE_TS + DAY * 2,
     report_by: { id: 'user-alice', name: 'alice', display_name: 'Alice Zhang' },
@@ -57,6 +98,7 @@ const RAW_WORKLOADS = [
     principal: { id: 'wi-001', identifier: 'PROJ-101', title: 'Implement login page', type: 'story' },
     type: { id: 'type-dev', name: 'development' },
     duration: 3,
+    review_state: 'approved',
     description: 'Backend API',
     report_at: BASE_TS + DAY * 3,
     report_by: { id: 'user-alice', name: 'alice', display_name: 'Alice Zhang' },
@@ -68,6 +110,7 @@ const RAW_WORKLOADS = [
     principal: { id: 'wi-002', identifier: 'PROJ-102', title: 'Fix navigation bug', type: 'bug' },
     type: { id: 'type-bug', name: 'bugfix' },
     duration: 2,
+    review_state: 'pending',
     description: 'Bug investigation',
     report_at: BASE_TS + DAY * 3,
     report_by: { id: 'user-bob', name: 'bob', display_name: 'Bob Li' },
@@ -79,11 +122,34 @@ const RAW_WORKLOADS = [
     principal: { id: 'wi-002', identifier: 'PROJ-102', title: 'Fix navigation bug', type: 'bug' },
     type: { id: 'type-bug', name: 'bugfix' },
     duration: 1.5,
+    review_state: 'rejected',
     description: 'Fix applied',
     report_at: BASE_TS + DAY * 4,
     report_by: { id: 'user-bob', name: 'bob', display_name: 'Bob Li' },
     created_at: BASE_TS + DAY * 4,
   },
+  {
+    id: 'wl-005',
+    principal_type: 'idea',
+    principal: { id: 'idea-001', identifier: 'SHIP-1', title: 'Self-service onboarding' },
+    type: { id: 'type-design', name: 'design' },
+    duration: 2.5,
+    description: 'Onboarding mockups',
+    report_at: BASE_TS + DAY * 33,
+    report_by: { id: 'user-carol', name: 'carol', display_name: 'Carol Wang' },
+    created_at: BASE_TS + DAY * 33,
+  },
+  {
+    id: 'wl-006',
+    principal_type: 'test_case',
+    principal: { id: 'tc-001', identifier: 'QA-7', title: 'Login regression' },
+    type: { id: 'type-test', name: 'testing' },
+    duration: 1,
+    description: 'Regression run',
+    report_at: BASE_TS + DAY * 34,
+    report_by: { id: 'user-alice', name: 'alice', display_name: 'Alice Zhang' },
+    created_at: BASE_TS + DAY * 34,
+  },
 ];
 
 // ============ Request Handling ============
@@ -115,6 +181,9 @@ function handleWorkloads(url: URL, res: ServerResponse): void {
   const startAt = parseInt(url.searchParams.get('start_at') || '0');
   const endAt = parseInt(url.searchParams.get('end_at') || String(Date.now()));
   const reportById = url.searchParams.get('report_by_id');
+  const pilotId = url.searchParams.get('pilot_id');
+  const principalType = url.searchParams.get('principal_type');
+  const principalId = url.searchParams.get('principal_id');
   const pageSize = parseInt(url.searchParams.get('page_size') || '100');
   const pageIndex = parseInt(url.searchParams.get('page_index') || '0');
 
@@ -122,6 +191,18 @@ function handleWorkloads(url: URL, res: ServerResponse): void {
   if (reportById) {
     filtered = filtered.filter(w => w.report_by.id === reportById);
   }
+  if (principalType) {
+    filtered = filtered.filter(w => w.principal_type === principalType);
+  }
+  if (principalId) {
+    filtered = filtered.filter(w => w.principal.id === principalId);
+  }
+  if (pilotId) {
+    filtered = filtered.filter(w => {
+      const item = WORK_ITEMS[w.principal.id] as { project: { id: string } } | undefined;
+      return item?.project.id === pilotId;
+    });
+  }
 
   const offset = pageIndex * pageSize;
   const slice = filtered.slice(offset, offset + pageSize);
@@ -134,6 +215,167 @@ function handleWorkloads(url: URL, res: ServerResponse): void {
   });
 }
 
+// Workloads created via POST, kept separate from RAW_WORKLOADS so read-side fixtures stay stable
+const CREATED_WORKLOADS: Array<Record<string, unknown>> = [];
+
+function handleCreateWorkload(req: IncomingMessage, res: ServerResponse): void {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      jsonResponse(res, { error: 'Invalid JSON body' }, 400);
+      return;
+    }
+
+    const item = WORK_ITEMS[String(body.principal_id)] as { id: string; identifier: string; title: string; type: string } | undefined;
+    const user = USERS.find(u => u.id === body.report_by_id);
+    if (body.principal_type !== 'work_item' || !item || !user || typeof body.duration !== 'number' || typeof body.report_at !== 'number') {
+      jsonResponse(res, { error: 'Invalid workload' }, 400);
+      return;
+    }
+
+    const created = {
+      id: `wl-new-${CREATED_WORKLOADS.length + 1}`,
+      principal_type: 'work_item',
+      principal: { id: item.id, identifier: item.identifier, title: item.title, type: item.type },
+      duration: body.duration,
+      review_state: 'pending',
+      description: body.description,
+      report_at: body.report_at,
+      report_by: { id: user.id, name: user.name, display_name: user.display_name },
+      created_at: Math.floor(Date.now() / 1000),
+    };
+    CREATED_WORKLOADS.push({ ...created, type_id: body.type_id });
+    jsonResponse(res, created, 201);
+  });
+}
+
+// GET/PUT/DELETE /v1/workloads/{id}; PUT/DELETE only touch CREATED_WORKLOADS so read-side fixtures stay stable
+function handleWorkload(req: IncomingMessage, path: string, res: ServerResponse): void {
+  const id = decodeURIComponent(path.split('/').pop() || '');
+  const createdIndex = CREATED_WORKLOADS.findIndex(w => w.id === id);
+  const workload = createdIndex >= 0 ? CREATED_WORKLOADS[createdIndex] : RAW_WORKLOADS.find(w => w.id === id);
+  if (!workload) {
+    jsonResponse(res, { error: 'Workload not found' }, 404);
+    return;
+  }
+
+  if (req.method === 'GET') {
+    jsonResponse(res, workload);
+    return;
+  }
+  if (createdIndex < 0) {
+    jsonResponse(res, { error: 'Fixture workloads are read-only' }, 403);
+    return;
+  }
+
+  if (req.method === 'DELETE') {
+    CREATED_WORKLOADS.splice(createdIndex, 1);
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    const body = JSON.parse(raw || '{}') as Record<string, unknown>;
+    const updated = { ...workload };
+    for (const key of ['duration', 'report_at', 'description', 'type_id']) {
+      if (body[key] !== undefined) updated[key] = body[key];
+    }
+    CREATED_WORKLOADS[createdIndex] = updated;
+    jsonResponse(res, updated);
+  });
+}
+
+function handleProjects(url: URL, res: ServerResponse): void {
+  const identifier = url.searchParams.get('identifier');
+  const pageSize = parseInt(url.searchParams.get('page_size') || '100');
+  const pageIndex = parseInt(url.searchParams.get('page_index') || '0');
+
+  const filtered = identifier
+    ? PROJECTS.filter(p => p.identifier === identifier)
+    : PROJECTS;
+  const offset = pageIndex * pageSize;
+
+  jsonResponse(res, {
+    values: filtered.slice(offset, offset + pageSize),
+    total: filtered.length,
+    page_index: pageIndex,
+    page_size: pageSize,
+  });
+}
+
+function handleProject(path: string, res: ServerResponse): void {
+  const id = decodeURIComponent(path.slice('/v1/project/projects/'.length));
+  const project = PROJECTS.find(p => p.id === id);
+  if (!project) {
+    jsonResponse(res, { error: 'Project not found' }, 404);
+    return;
+  }
+  jsonResponse(res, project);
+}
+
+function handleWorkItems(url: URL, res: ServerResponse): void {
+  const identifier = url.searchParams.get('identifier');
+  const projectId = url.searchParams.get('project_id');
+  const assigneeId = url.searchParams.get('assignee_id');
+  const states = url.searchParams.get('state')?.split(',');
+  const types = url.searchParams.get('type')?.split(',');
+  const keywords = url.searchParams.get('keywords')?.toLowerCase();
+  const pageSize = parseInt(url.searchParams.get('page_size') || '100');
+  const pageIndex = parseInt(url.searchParams.get('page_index') || '0');
+
+  let filtered = Object.values(WORK_ITEMS) as Array<{
+    identifier: string;
+    title: string;
+    project: { id: string };
+    assignee: { id: string };
+    state: string;
+    type: string;
+  }>;
+  if (identifier) {
+    filtered = filtered.filter(w => w.identifier === identifier);
+  }
+  if (projectId) {
+    filtered = filtered.filter(w => w.project.id === projectId);
+  }
+  if (assigneeId) {
+    filtered = filtered.filter(w => w.assignee.id === assigneeId);
+  }
+  if (states) {
+    filtered = filtered.filter(w => states.includes(w.state));
+  }
+  if (types) {
+    filtered = filtered.filter(w => types.includes(w.type));
+  }
+  if (keywords) {
+    filtered = filtered.filter(w => w.title.toLowerCase().includes(keywords));
+  }
+  const offset = pageIndex * pageSize;
+
+  jsonResponse(res, {
+    values: filtered.slice(offset, offset + pageSize),
+    total: filtered.length,
+    page_index: pageIndex,
+    page_size: pageSize,
+  });
+}
+
+function handlePrincipal(path: string, pattern: RegExp, fixtures: Record<string, unknown>, res: ServerResponse): void {
+  const match = path.match(pattern);
+  const item = match ? fixtures[match[1]] : undefined;
+  if (!item) {
+    jsonResponse(res, { error: 'Not found' }, 404);
+    return;
+  }
+  jsonResponse(res, item);
+}
+
 function handleWorkItem(path: string, res: ServerResponse): void {
   const match = path.match(/\/v1\/project\/work_items\/(.+)/);
   if (!match) {
@@ -173,10 +415,24 @@ export async function startMockPingCodeServer(port = 0): Promise<MockServer> {
 
       if (path === '/v1/directory/users') {
         handleUsers(url, res);
+      } else if (path === '/v1/workloads' && req.method === 'POST') {
+        handleCreateWorkload(req, res);
+      } else if (path.startsWith('/v1/workloads/')) {
+        handleWorkload(req, path, res);
       } else if (path === '/v1/workloads') {
         handleWorkloads(url, res);
+      } else if (path === '/v1/project/work_items') {
+        handleWorkItems(url, res);
       } else if (path.startsWith('/v1/project/work_items/')) {
         handleWorkItem(path, res);
+      } else if (path.startsWith('/v1/ship/ideas/')) {
+        handlePrincipal(path, /\/v1\/ship\/ideas\/(.+)/, IDEAS, res);
+      } else if (path.startsWith('/v1/testhub/cases/')) {
+        handlePrincipal(path, /\/v1\/testhub\/cases\/(.+)/, TEST_CASES, res);
+      } else if (path === '/v1/project/projects') {
+        handleProjects(url, res);
+      } else if (path.startsWith('/v1/project/projects/')) {
+        handleProject(path, res);
       } else {
         jsonResponse(res, { error: 'Not found' }, 404);
       }
@@ -199,8 +455,12 @@ export async function startMockPingCodeServer(port = 0): Promise<MockServer> {
 // Export fixtures for assertion in tests
 export const FIXTURES = {
   USERS,
+  PROJECTS,
   WORK_ITEMS,
+  IDEAS,
+  TEST_CASES,
   RAW_WORKLOADS,
+  CREATED_WORKLOADS,
   BASE_TS,
   DAY,
 };
@@ -0,0 +1,202 @@
+/**
+ * Unit: workload anomaly rules (isolated unit test)
+ *
+ * Tests anomalyService.detectAnomalies() rule evaluation without real API
+ * calls. Mocks userService and the workloads endpoint to verify each rule
+ * reports the offending workload ids, and that threshold/rule overrides apply.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockGetAllUsers, mockListWorkloadsForUsers } = vi.hoisted(() => ({
+  mockGetAllUsers: vi.fn(),
+  mockListWorkloadsForUsers: vi.fn(),
+}));
+
+vi.mock('../../src/services/userService.js', () => ({
+  userService: {
+    getAllUsers: mockGetAllUsers,
+    getUsersMap: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/api/endpoints/workloads.js', () => ({
+  listWorkloadsForUsers: mockListWorkloadsForUsers,
+}));
+
+vi.mock('../../src/config/index.js', () => ({
+  config: {
+    timezone: 'Asia/Shanghai',
+    anomaly: { maxEntryHours: 12, maxDailyHours: 16, futureDays: 1 },
+  },
+}));
+
+vi.mock('../../src/utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { anomalyService } from '../../src/services/anomalyService.js';
+
+const alice = { id: 'user-alice', name: 'alice', display_name: 'Alice Zhang' };
+
+// 2026-01-05 (Monday) 12:00 Asia/Shanghai
+const MONDAY = 1767585600;
+const DAY = 86400;
+
+function workload(id: string, reportAt: number, duration: number, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    work_item: { id: 'wi-1', identifier: 'PROJ-1', title: 'Task' },
+    duration,
+    report_at: reportAt,
+    report_by: alice,
+    type: 'development',
+    created_at: reportAt,
+    ...extra,
+  };
+}
+
+function mockWorkloads(workloads: ReturnType<typeof workload>[]) {
+  mockListWorkloadsForUsers.mockResolvedValue(new Map([
+    ['user-alice', {
+      workloads,
+      totalCount: workloads.length,
+      timeSliced: false,
+      paginationTruncated: false,
+      truncationReasons: [],
+    }],
+  ]));
+}
+
+async function detect(options: Parameters<typeof anomalyService.detectAnomalies>[2] = {}) {
+  return anomalyService.detectAnomalies(MONDAY - DAY, MONDAY + 7 * DAY, options);
+}
+
+describe('anomalyService.detectAnomalies', () => {
+  beforeEach(() => {
+    mockGetAllUsers.mockReset().mockResolvedValue([alice]);
+    mockListWorkloadsForUsers.mockReset();
+  });
+
+  it('returns no findings for ordinary timesheets', async () => {
+    mockWorkloads([workload('w1', MONDAY, 8), workload('w2', MONDAY + DAY, 7.5)]);
+
+    const result = await detect();
+
+    expect(result.users).toHaveLength(0);
+    expect(result.summary.finding_count).toBe(0);
+    expect(result.summary.user_count).toBe(1);
+  });
+
+  it('flags single entries over the entry limit and days over the daily limit', async () => {
+    mockWorkloads([
+      workload('w1', MONDAY, 13),
+      workload('w2', MONDAY + 3600, 4, { description: 'review' }),
+    ]);
+
+    const result = await detect({ rules: ['entry_over_hours', 'daily_over_hours'] });
+
+    const findings = result.users[0].findings;
+    expect(findings.find(f => f.rule === 'entry_over_hours')?.workload_ids).toEqual(['w1']);
+    const daily = findings.find(f => f.rule === 'daily_over_hours');
+    expect(daily?.date).toBe('2026-01-05');
+    expect(daily?.hours).toBe(17);
+    expect(daily?.workload_ids).toEqual(['w1', 'w2']);
+    expect(result.summary.by_rule.entry_over_hours).toBe(1);
+    expect(result.summary.by_rule.daily_over_hours).toBe(1);
+  });
+
+  it('applies threshold overrides', async () => {
+    mockWorkloads([workload('w1', MONDAY, 6)]);
+
+    const result = await detect({ rules: ['entry_over_hours'], thresholds: { maxEntryHours: 5 } });
+
+    expect(result.users[0].findings[0].workload_ids).toEqual(['w1']);
+    expect(result.summary.thresholds.maxEntryHours).toBe(5);
+  });
+
+  it('flags identical duplicate entries', async () => {
+    mockWorkloads([
+      workload('w1', MONDAY, 2, { description: 'standup' }),
+      workload('w2', MONDAY + 60, 2, { description: 'standup ' }),
+      workload('w3', MONDAY, 2, { description: 'other' }),
+    ]);
+
+    const result = await detect({ rules: ['duplicate_entry'] });
+
+    expect(result.users[0].findings).toHaveLength(1);
+    expect(result.users[0].findings[0].workload_ids).toEqual(['w1', 'w2']);
+  });
+
+  it('flags users who only log on non-working days', async () => {
+    // 2026-01-10 / 2026-01-11 are Saturday and Sunday
+    mockWorkloads([workload('w1', MONDAY + 5 * DAY, 4), workload('w2', MONDAY + 6 * DAY, 4)]);
+
+    const result = await detect({ rules: ['weekend_only'] });
+
+    const finding = result.users[0].findings[0];
+    expect(finding.rule).toBe('weekend_only');
+    expect(finding.date).toBeNull();
+    expect(finding.workload_ids).toEqual(['w1', 'w2']);
+  });
+
+  it('flags entries reported far in the future', async () => {
+    const farFuture = 4102444800; // 2100-01-01
+    mockWorkloads([workload('w1', MONDAY, 8), workload('w2', farFuture, 8)]);
+
+    const result = await detect({ rules: ['future_entry'] });
+
+    expect(result.users[0].findings).toHaveLength(1);
+    expect(result.users[0].findings[0].workload_ids).toEqual(['w2']);
+  });
+
+  it('looks ahead past the cutoff when the range ends today', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const result0 = { totalCount: 0, timeSliced: false, paginationTruncated: false, truncationReasons: [] };
+    mockListWorkloadsForUsers
+      .mockResolvedValueOnce(new Map([['user-alice', { ...result0, workloads: [workload('w1', now - DAY, 8)] }]]))
+      .mockResolvedValueOnce(new Map([['user-alice', {
+        ...result0,
+        workloads: [workload('w2', now + 5 * DAY, 8), workload('w3', now + 5 * DAY, 30)],
+      }]]));
+
+    const result = await anomalyService.detectAnomalies(now - 7 * DAY, now, { rules: ['future_entry', 'entry_over_hours'] });
+
+    // 第二次拉取从截止日（今天 + futureDays）之后开始
+    const [, lookaheadStart, lookaheadEnd] = mockListWorkloadsForUsers.mock.calls[1];
+    expect(lookaheadStart).toBeGreaterThan(now);
+    expect(lookaheadEnd).toBeGreaterThan(now + 90 * DAY);
+
+    const findings = result.users[0].findings;
+    expect(findings.filter(f => f.rule === 'future_entry').flatMap(f => f.workload_ids)).toEqual(['w2', 'w3']);
+    // 前瞻窗口的记录不参与其他规则
+    expect(findings.some(f => f.rule === 'entry_over_hours')).toBe(false);
+    expect(result.data_quality.workloads_count).toBe(1);
+  });
+
+  it('skips the look-ahead fetch when future_entry is not enabled', async () => {
+    mockWorkloads([workload('w1', MONDAY, 8)]);
+
+    await detect({ rules: ['entry_over_hours'] });
+
+    expect(mockListWorkloadsForUsers).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the look-ahead fetch when the range ends long before today', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    mockWorkloads([workload('w1', now - 200 * DAY, 8)]);
+
+    await anomalyService.detectAnomalies(now - 207 * DAY, now - 200 * DAY, { rules: ['future_entry'] });
+
+    expect(mockListWorkloadsForUsers).toHaveBeenCalledTimes(1);
+  });
+
+  it('reuses the main fetch when it already covers the look-ahead window', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    mockWorkloads([workload('w1', now - DAY, 8), workload('w2', now + 30 * DAY, 8)]);
+
+    const result = await anomalyService.detectAnomalies(now - 7 * DAY, now + 120 * DAY, { rules: ['future_entry'] });
+
+    expect(mockListWorkloadsForUsers).toHaveBeenCalledTimes(1);
+    expect(result.users[0].findings.flatMap(f => f.workload_ids)).toEqual(['w2']);
+  });
+});
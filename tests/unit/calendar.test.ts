@@ -0,0 +1,102 @@
+/**
+ * Tests for WorkCalendar: holidays, make-up workdays (调休) and calendar file parsing.
+ */
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+  WorkCalendar,
+  parseWorkingDays,
+  parseCalendarJson,
+  parseCalendarIcs,
+  loadWorkCalendar,
+} from '../../src/utils/calendar.js';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+describe('WorkCalendar', () => {
+  const calendar = new WorkCalendar(
+    { holidays: ['2026-02-16', '2026-02-17'], workdays: ['2026-02-14'] },
+    WEEKDAYS
+  );
+
+  it('uses weekday rules for ordinary days', () => {
+    expect(calendar.isWorkingDay('2026-01-05')).toBe(true);  // Monday
+    expect(calendar.isWorkingDay('2026-01-10')).toBe(false); // Saturday
+  });
+
+  it('treats holidays as non-working and make-up weekends as working', () => {
+    expect(calendar.isWorkingDay('2026-02-16')).toBe(false); // Monday, 春节
+    expect(calendar.isWorkingDay('2026-02-14')).toBe(true);  // Saturday, 补班
+    expect(calendar.isHoliday('2026-02-16')).toBe(true);
+    expect(calendar.isHoliday('2026-02-15')).toBe(false);    // ordinary Sunday
+  });
+
+  it('counts working days in a timestamp range', () => {
+    // 2026-02-14 00:00 ~ 2026-02-21 00:00 (Asia/Shanghai)
+    // 14(补班) 16/17(假) → 14, 18, 19, 20
+    expect(calendar.countWorkingDays(1770998400, 1771603200)).toBe(4);
+  });
+
+  it('withWorkingWeekdays keeps holidays', () => {
+    const sixDays = calendar.withWorkingWeekdays([1, 2, 3, 4, 5, 6]);
+    expect(sixDays.isWorkingDay('2026-01-10')).toBe(true);
+    expect(sixDays.isWorkingDay('2026-02-16')).toBe(false);
+    expect(sixDays.workingWeekdays).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('parseWorkingDays', () => {
+  it('parses comma-separated ISO weekdays and drops invalid values', () => {
+    expect(parseWorkingDays('5, 1,2,3,4,9,x,1')).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('falls back to Monday-Friday when no weekday is valid', () => {
+    expect(parseWorkingDays('mon-fri')).toEqual([]);
+    const calendar = loadWorkCalendar('', parseWorkingDays('mon-fri'));
+    expect(calendar.workingWeekdays).toEqual([1, 2, 3, 4, 5]);
+    expect(calendar.isWorkingDay('2026-01-05')).toBe(true);  // Monday
+    expect(calendar.isWorkingDay('2026-01-10')).toBe(false); // Saturday
+  });
+});
+
+describe('calendar file parsing', () => {
+  it('parses JSON with string and object entries', () => {
+    const data = parseCalendarJson(JSON.stringify({
+      holidays: ['2026-10-01', { date: '2026-10-02', name: '国庆节' }, 'bad-date'],
+      workdays: [{ date: '2026-10-10' }],
+    }));
+    expect(data).toEqual({ holidays: ['2026-10-01', '2026-10-02'], workdays: ['2026-10-10'] });
+  });
+
+  it('parses ICS all-day events, expanding multi-day holidays', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260501',
+      'DTEND;VALUE=DATE:20260504',
+      'SUMMARY:劳动节 休',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20260509',
+      'SUMMARY:劳动节 班',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    expect(parseCalendarIcs(ics)).toEqual({
+      holidays: ['2026-05-01', '2026-05-02', '2026-05-03'],
+      workdays: ['2026-05-09'],
+    });
+  });
+
+  it('loads the bundled 2026 example calendar', () => {
+    const file = path.resolve(__dirname, '../../docs/calendar-2026-cn.example.json');
+    const calendar = loadWorkCalendar(file, WEEKDAYS);
+    expect(calendar.isWorkingDay('2026-02-18')).toBe(false);
+    expect(calendar.isWorkingDay('2026-02-28')).toBe(true);
+  });
+
+  it('falls back to weekday rules when the file cannot be read', () => {
+    const calendar = loadWorkCalendar('/nonexistent/calendar.json', WEEKDAYS);
+    expect(calendar.isWorkingDay('2026-02-18')).toBe(true);
+  });
+});
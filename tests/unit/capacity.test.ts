@@ -0,0 +1,68 @@
+/**
+ * Unit: capacity plan parsing, daily capacity and leave deduction
+ */
+import { describe, it, expect } from 'vitest';
+import { CapacityPlan, parseCapacityJson } from '../../src/utils/capacity.js';
+
+const plan = new CapacityPlan(parseCapacityJson(JSON.stringify({
+  members: [
+    { user: 'user-alice', daily_hours: 6 },
+    { user: 'carol', daily_hours: 4 },
+  ],
+  leaves: [
+    { user: 'user-bob', start: '2026-01-05', end: '2026-01-07', reason: '年假' },
+    { user: 'user-alice', start: '2026-01-08', hours: 2 },
+    { user: 'user-alice', start: '2026-01-08', hours: 5 },
+  ],
+})), 8);
+
+const alice = { id: 'user-alice', name: 'alice' };
+const bob = { id: 'user-bob', name: 'bob' };
+const carol = { id: 'user-carol', name: 'carol' };
+
+describe('CapacityPlan', () => {
+  it('uses member daily hours, matching by id or name', () => {
+    expect(plan.dailyCapacity(alice)).toBe(6);
+    expect(plan.dailyCapacity(carol)).toBe(4);
+  });
+
+  it('falls back to the default daily hours', () => {
+    expect(plan.dailyCapacity(bob)).toBe(8);
+    expect(plan.defaultDailyHours).toBe(8);
+  });
+
+  it('deducts full-day leave within the inclusive date range', () => {
+    expect(plan.leaveHours(bob, '2026-01-05')).toBe(8);
+    expect(plan.leaveHours(bob, '2026-01-07')).toBe(8);
+    expect(plan.leaveHours(bob, '2026-01-08')).toBe(0);
+  });
+
+  it('sums partial leave on the same day, capped at daily capacity', () => {
+    expect(plan.leaveHours(alice, '2026-01-08')).toBe(6);
+    expect(plan.leaveHours(alice, '2026-01-09')).toBe(0);
+  });
+
+  it('reports whether anything is configured', () => {
+    expect(plan.isConfigured).toBe(true);
+    expect(new CapacityPlan({ members: [], leaves: [] }, 8).isConfigured).toBe(false);
+  });
+
+  it('prefers default_daily_hours from the file over the fallback', () => {
+    const custom = new CapacityPlan(parseCapacityJson('{"default_daily_hours": 7.5}'), 8);
+    expect(custom.dailyCapacity(bob)).toBe(7.5);
+  });
+});
+
+describe('parseCapacityJson', () => {
+  it('rejects leaves ending before they start', () => {
+    expect(() => parseCapacityJson(JSON.stringify({
+      leaves: [{ user: 'bob', start: '2026-01-07', end: '2026-01-05' }],
+    }))).toThrow();
+  });
+
+  it('rejects malformed dates', () => {
+    expect(() => parseCapacityJson(JSON.stringify({
+      leaves: [{ user: 'bob', start: '2026/01/07' }],
+    }))).toThrow();
+  });
+});
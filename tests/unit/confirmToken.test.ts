@@ -0,0 +1,41 @@
+/**
+ * Unit: confirm tokens for destructive tools
+ */
+import { describe, it, expect } from 'vitest';
+import { issueConfirmToken, verifyConfirmToken, CONFIRM_TOKEN_TTL_MS } from '../../src/utils/confirmToken.js';
+
+describe('confirm tokens', () => {
+  const payload = { current: { id: 'wl-001', duration: 4 }, changes: { hours: { from: 4, to: 3 } } };
+
+  it('accepts a token for the same action and payload', () => {
+    const { token } = issueConfirmToken('update_workload', payload);
+    expect(verifyConfirmToken(token, 'update_workload', payload)).toBe('valid');
+  });
+
+  it('ignores key order and undefined fields in the payload', () => {
+    const { token } = issueConfirmToken('update_workload', payload);
+    const reordered = { changes: { hours: { to: 3, from: 4 } }, current: { duration: 4, id: 'wl-001', note: undefined } };
+    expect(verifyConfirmToken(token, 'update_workload', reordered)).toBe('valid');
+  });
+
+  it('rejects a different action or payload', () => {
+    const { token } = issueConfirmToken('update_workload', payload);
+    expect(verifyConfirmToken(token, 'delete_workload', payload)).toBe('invalid');
+    expect(verifyConfirmToken(token, 'update_workload', { ...payload, changes: { hours: { from: 4, to: 8 } } })).toBe('invalid');
+  });
+
+  it('rejects malformed or tampered tokens', () => {
+    const { token } = issueConfirmToken('delete_workload', payload);
+    const [expires, signature] = token.split('.');
+    expect(verifyConfirmToken('garbage', 'delete_workload', payload)).toBe('invalid');
+    expect(verifyConfirmToken(`${(parseInt(expires, 36) + 1000).toString(36)}.${signature}`, 'delete_workload', payload)).toBe('invalid');
+  });
+
+  it('expires after the TTL', () => {
+    const now = Date.now();
+    const { token, expiresAt } = issueConfirmToken('delete_workload', payload, now);
+    expect(expiresAt).toBe(now + CONFIRM_TOKEN_TTL_MS);
+    expect(verifyConfirmToken(token, 'delete_workload', payload, expiresAt)).toBe('valid');
+    expect(verifyConfirmToken(token, 'delete_workload', payload, expiresAt + 1)).toBe('expired');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for src/utils/export.ts
+ *
+ * Verifies CSV/TSV cell escaping, formula-injection guard, BOM and CRLF output.
+ */
+import { describe, it, expect } from 'vitest';
+import { escapeCell, serializeTable, buildExportFile } from '../../src/utils/export.js';
+
+describe('escapeCell', () => {
+  it('renders empty cells for null/undefined and stringifies numbers', () => {
+    expect(escapeCell(null, ',')).toBe('');
+    expect(escapeCell(undefined, ',')).toBe('');
+    expect(escapeCell(7.5, ',')).toBe('7.5');
+    expect(escapeCell(-2, ',')).toBe('-2');
+  });
+
+  it('quotes cells containing the delimiter, quotes or line breaks', () => {
+    expect(escapeCell('a,b', ',')).toBe('"a,b"');
+    expect(escapeCell('say "hi"', ',')).toBe('"say ""hi"""');
+    expect(escapeCell('line1\nline2', ',')).toBe('"line1\nline2"');
+    expect(escapeCell('a,b', '\t')).toBe('a,b');
+  });
+
+  it('prefixes formula-like text with a single quote', () => {
+    expect(escapeCell('=SUM(A1:A2)', ',')).toBe("'=SUM(A1:A2)");
+    expect(escapeCell('@cmd', ',')).toBe("'@cmd");
+    expect(escapeCell('-1+1', ',')).toBe("'-1+1");
+  });
+});
+
+describe('serializeTable', () => {
+  const table = {
+    header: ['name', 'hours'],
+    rows: [['张三', 8], ['Bob, Jr.', 1.5]],
+  };
+
+  it('writes CSV with a UTF-8 BOM and CRLF line endings', () => {
+    expect(serializeTable(table, 'csv')).toBe('\uFEFFname,hours\r\n张三,8\r\n"Bob, Jr.",1.5\r\n');
+  });
+
+  it('writes TSV with tab delimiters', () => {
+    expect(serializeTable(table, 'tsv')).toBe('\uFEFFname\thours\r\n张三\t8\r\nBob, Jr.\t1.5\r\n');
+  });
+});
+
+describe('buildExportFile', () => {
+  it('derives filename, mime type and row count from the format', () => {
+    const file = buildExportFile('team', { header: ['a'], rows: [[1], [2]] }, 'tsv');
+    expect(file.filename).toBe('team.tsv');
+    expect(file.mime_type).toBe('text/tab-separated-values; charset=utf-8');
+    expect(file.row_count).toBe(2);
+  });
+});
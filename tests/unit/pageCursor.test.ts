@@ -0,0 +1,40 @@
+/**
+ * Unit: opaque pagination cursors for list_workloads
+ */
+import { describe, it, expect } from 'vitest';
+import { pageQueryKey, encodePageCursor, decodePageCursor } from '../../src/utils/pageCursor.js';
+
+describe('page cursors', () => {
+  const queryKey = pageQueryKey({ start: 1767225600, end: 1769903999, user: null });
+  const cursor = { chunk: 1, page: 3, offset: 42, pageSize: 100, total: 1234 };
+
+  it('round-trips position, page size and total', () => {
+    expect(decodePageCursor(encodePageCursor(cursor, queryKey), queryKey)).toEqual(cursor);
+  });
+
+  it('round-trips the sorted-result offset', () => {
+    const sorted = { chunk: 0, page: 0, offset: 0, pageSize: 100, total: 900, skip: 500 };
+    expect(decodePageCursor(encodePageCursor(sorted, queryKey), queryKey)).toEqual(sorted);
+  });
+
+  it('rejects a cursor issued for a different query', () => {
+    const otherKey = pageQueryKey({ start: 1767225600, end: 1769903999, user: 'user-alice' });
+    expect(decodePageCursor(encodePageCursor(cursor, queryKey), otherKey)).toBeNull();
+  });
+
+  it('rejects malformed or tampered cursors', () => {
+    expect(decodePageCursor('garbage', queryKey)).toBeNull();
+    expect(decodePageCursor('', queryKey)).toBeNull();
+    const tampered = Buffer.from(JSON.stringify({ v: 1, q: queryKey, c: -1, p: 0, o: 0, s: 100, t: 0 })).toString('base64url');
+    expect(decodePageCursor(tampered, queryKey)).toBeNull();
+    const zeroPageSize = Buffer.from(JSON.stringify({ v: 1, q: queryKey, c: 0, p: 0, o: 0, s: 0, t: 0 })).toString('base64url');
+    expect(decodePageCursor(zeroPageSize, queryKey)).toBeNull();
+  });
+
+  it('rejects page sizes above the configured page size', () => {
+    const forged = (s: number) => Buffer.from(JSON.stringify({ v: 1, q: queryKey, c: 0, p: 0, o: 0, s, t: 0 })).toString('base64url');
+    expect(decodePageCursor(forged(100000), queryKey)).toBeNull();
+    expect(decodePageCursor(forged(101), queryKey, 100)).toBeNull();
+    expect(decodePageCursor(forged(50), queryKey, 100)?.pageSize).toBe(50);
+  });
+});
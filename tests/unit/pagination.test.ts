@@ -6,6 +6,7 @@
  * - Truncation when currentPage exceeds maxPages
  * - Error during pagination sets paginationTruncated
  * - Deduplication across pages
+ * - listWorkloadsPage: resume positions for cursor-based pagination
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
@@ -46,7 +47,7 @@ vi.mock('../../src/utils/metrics.js', () => ({
   metrics: { recordTimeSlice: vi.fn() },
 }));
 
-import { listWorkloads, type WorkloadsResult } from '../../src/api/endpoints/workloads.js';
+import { listWorkloads, listWorkloadsPage, type WorkloadsResult } from '../../src/api/endpoints/workloads.js';
 
 /** Helper: build a raw workload fixture */
 function makeRawWorkload(id: string, reportAt: number) {
@@ -230,3 +231,88 @@ describe('Pagination termination', () => {
     expect(ids).toEqual(['w1', 'w2', 'w3']);
   });
 });
+
+describe('Cursor pagination (listWorkloadsPage)', () => {
+  /** Serve ids in pages of `size`, honoring page_index from the request params */
+  function servePages(ids: string[], size: number) {
+    mockRequest.mockImplementation(async (_path: string, options: { params: { page_index: number } }) => {
+      const pageIndex = options.params.page_index;
+      return {
+        values: ids.slice(pageIndex * size, (pageIndex + 1) * size).map((id, i) => makeRawWorkload(id, 1000 + pageIndex * size + i)),
+        total: ids.length,
+        page_index: pageIndex,
+        page_size: size,
+      };
+    });
+  }
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+    mockConfig.pagination.maxPages = 200;
+    mockConfig.pagination.maxRecords = 50000;
+    mockConfig.pagination.maxFetchDurationMs = 180000;
+  });
+
+  it('stops at limit and resumes mid-page without gaps or repeats', async () => {
+    servePages(['w1', 'w2', 'w3', 'w4', 'w5'], 2);
+
+    const first = await listWorkloadsPage({ startAt: 0, endAt: 9999, pageSize: 2, limit: 3 });
+    expect(first.entries.map(e => e.workload.id)).toEqual(['w1', 'w2', 'w3']);
+    expect(first.resumeAt).toEqual({ chunk: 0, page: 1, offset: 1 });
+
+    const second = await listWorkloadsPage({ startAt: 0, endAt: 9999, pageSize: 2, limit: 3, from: first.resumeAt! });
+    expect(second.entries.map(e => e.workload.id)).toEqual(['w4', 'w5']);
+    expect(second.resumeAt).toBeNull();
+  });
+
+  it('moves to the next page when the limit lands on the last record of a page', async () => {
+    servePages(['w1', 'w2', 'w3'], 2);
+
+    const result = await listWorkloadsPage({ startAt: 0, endAt: 9999, pageSize: 2, limit: 2 });
+    expect(result.resumeAt).toEqual({ chunk: 0, page: 1, offset: 0 });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips records rejected by accept without counting them toward limit', async () => {
+    servePages(['w1', 'w2', 'w3', 'w4'], 2);
+
+    const result = await listWorkloadsPage({
+      startAt: 0,
+      endAt: 9999,
+      pageSize: 2,
+      limit: 2,
+      accept: w => w.id !== 'w2',
+    });
+    expect(result.entries.map(e => e.workload.id)).toEqual(['w1', 'w3']);
+    expect(result.resumeAt).toEqual({ chunk: 0, page: 1, offset: 1 });
+  });
+
+  it('returns the failed page position as resumeAt on recoverable errors', async () => {
+    servePages(['w1', 'w2', 'w3'], 2);
+    mockRequest.mockImplementationOnce(async () => ({
+      values: [makeRawWorkload('w1', 1000), makeRawWorkload('w2', 1001)],
+      total: 3,
+      page_index: 0,
+      page_size: 2,
+    }));
+    mockRequest.mockRejectedValueOnce(new Error('network down'));
+
+    const result = await listWorkloadsPage({ startAt: 0, endAt: 9999, pageSize: 2 });
+    expect(result.entries).toHaveLength(2);
+    expect(result.paginationTruncated).toBe(true);
+    expect(result.truncationReasons).toContain('fetch_error');
+    expect(result.resumeAt).toEqual({ chunk: 0, page: 1, offset: 0 });
+  });
+
+  it('records the position after each entry when fetching everything', async () => {
+    servePages(['w1', 'w2', 'w3'], 2);
+
+    const result = await listWorkloadsPage({ startAt: 0, endAt: 9999, pageSize: 2 });
+    expect(result.entries.map(e => e.next)).toEqual([
+      { chunk: 0, page: 0, offset: 1 },
+      { chunk: 0, page: 1, offset: 0 },
+      null,
+    ]);
+    expect(result.resumeAt).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit: retry policy for non-idempotent requests
+ *
+ * Stubs global fetch to verify that POST requests are not retried on 5xx or
+ * network errors (the write may already have happened), but are retried on
+ * 429 where the upstream guarantees the request was not processed.
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PingCodeApiClient, PingCodeApiError } from '../../src/api/client.js';
+
+function response(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe('PingCodeApiClient POST retry policy', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('does not retry POST on 5xx', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(response(503));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new PingCodeApiClient();
+    await expect(client.request('/v1/workloads', { method: 'POST', body: { duration: 1 } }))
+      .rejects.toBeInstanceOf(PingCodeApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry POST on network errors', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new PingCodeApiClient();
+    await expect(client.request('/v1/workloads', { method: 'POST', body: { duration: 1 } }))
+      .rejects.toThrow('fetch failed');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries POST on 429 using Retry-After', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(response(429, {}, { 'retry-after': '1' }))
+      .mockResolvedValueOnce(response(201, { id: 'wl-new' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const client = new PingCodeApiClient();
+    const result = await client.request<{ id: string }>('/v1/workloads', { method: 'POST', body: { duration: 1 } });
+    expect(result.id).toBe('wl-new');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit: ProjectService.resolveProjectRef resolution order and user-mode candidates
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { config } from '../../src/config/index.js';
+import { PingCodeApiError } from '../../src/api/client.js';
+
+const {
+  mockGetProject,
+  mockGetProjectByIdentifier,
+  mockMatchProjectByName,
+} = vi.hoisted(() => ({
+  mockGetProject: vi.fn(),
+  mockGetProjectByIdentifier: vi.fn(),
+  mockMatchProjectByName: vi.fn(),
+}));
+
+vi.mock('../../src/api/endpoints/projects.js', () => ({
+  getProject: mockGetProject,
+  getProjectByIdentifier: mockGetProjectByIdentifier,
+  listProjects: vi.fn(),
+  matchProjectByName: mockMatchProjectByName,
+}));
+
+import { projectService } from '../../src/services/projectService.js';
+
+const alpha = { id: 'proj-1', identifier: 'ALPHA', name: 'Alpha Web', type: 'scrum' };
+const beta = { id: 'proj-2', identifier: 'BETA', name: 'Alpha Mobile', type: 'scrum' };
+
+describe('resolveProjectRef', () => {
+  const originalMode = config.pingcode.tokenMode;
+
+  beforeEach(() => {
+    mockGetProject.mockReset().mockResolvedValue(null);
+    mockGetProjectByIdentifier.mockReset().mockResolvedValue(null);
+    mockMatchProjectByName.mockReset();
+  });
+
+  afterEach(() => {
+    config.pingcode.tokenMode = originalMode;
+  });
+
+  it('resolves a project ID without listing the directory', async () => {
+    mockGetProject.mockResolvedValue(alpha);
+    const result = await projectService.resolveProjectRef('proj-1');
+    expect(result.project?.id).toBe('proj-1');
+    expect(mockMatchProjectByName).not.toHaveBeenCalled();
+  });
+
+  it('falls back to directory matching on an ID miss', async () => {
+    mockMatchProjectByName.mockResolvedValue({ matched: alpha, candidates: [{ project: alpha, matchType: 'exact' }], ambiguous: false });
+    const result = await projectService.resolveProjectRef('ALPHA');
+    expect(result.project?.id).toBe('proj-1');
+  });
+
+  it('treats an upstream 400 for a non-ID reference as a miss', async () => {
+    mockGetProject.mockRejectedValue(new PingCodeApiError(400, 'bad id'));
+    mockMatchProjectByName.mockResolvedValue({ matched: alpha, candidates: [{ project: alpha, matchType: 'exact' }], ambiguous: false });
+    const result = await projectService.resolveProjectRef('Alpha Web');
+    expect(result.project?.id).toBe('proj-1');
+  });
+
+  it('treats a 403 by-ID lookup of a name as a miss in user mode', async () => {
+    config.pingcode.tokenMode = 'user';
+    mockGetProject.mockRejectedValue(new PingCodeApiError(403, 'forbidden'));
+    mockMatchProjectByName.mockRejectedValue(new PingCodeApiError(403, 'forbidden'));
+    mockGetProjectByIdentifier.mockResolvedValue(alpha);
+    const result = await projectService.resolveProjectRef('ALPHA');
+    expect(result.project?.id).toBe('proj-1');
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('still throws other upstream errors from the by-ID lookup', async () => {
+    mockGetProject.mockRejectedValue(new PingCodeApiError(500, 'boom'));
+    await expect(projectService.resolveProjectRef('proj-1')).rejects.toThrow('boom');
+    expect(mockMatchProjectByName).not.toHaveBeenCalled();
+  });
+
+  it('falls back to identifier lookup when the directory listing fails', async () => {
+    mockMatchProjectByName.mockRejectedValue(new PingCodeApiError(403, 'forbidden'));
+    mockGetProjectByIdentifier.mockResolvedValue(beta);
+    const result = await projectService.resolveProjectRef('BETA');
+    expect(result.project?.id).toBe('proj-2');
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('returns ambiguous candidates in enterprise mode', async () => {
+    config.pingcode.tokenMode = 'enterprise';
+    mockMatchProjectByName.mockResolvedValue({
+      matched: null,
+      candidates: [{ project: alpha, matchType: 'contains' }, { project: beta, matchType: 'contains' }],
+      ambiguous: true,
+    });
+    const result = await projectService.resolveProjectRef('Alpha');
+    expect(result.ambiguous).toBe(true);
+    expect(result.candidates).toHaveLength(2);
+  });
+
+  it('does not return candidates in user mode', async () => {
+    config.pingcode.tokenMode = 'user';
+    mockMatchProjectByName.mockResolvedValue({
+      matched: null,
+      candidates: [{ project: alpha, matchType: 'contains' }, { project: beta, matchType: 'contains' }],
+      ambiguous: true,
+    });
+    const result = await projectService.resolveProjectRef('Alpha');
+    expect(result.ambiguous).toBe(true);
+    expect(result.project).toBeNull();
+    expect(result.candidates).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Unit: rate card parsing / matching and labor cost computation
+ */
+import { describe, it, expect } from 'vitest';
+import { RateCard, parseRateCardJson } from '../../src/utils/rateCard.js';
+import { computeLaborCost } from '../../src/services/costService.js';
+import type { TeamWorkloadDetail } from '../../src/services/workloadService.js';
+
+const card = new RateCard(parseRateCardJson(JSON.stringify({
+  currency: 'CNY',
+  rates: [
+    { department: 'Engineering', rate: 200 },
+    { job: 'developer', rate: 250, effective_to: '2026-01-31' },
+    { job: 'Developer', rate: 280, effective_from: '2026-02-01' },
+    { user: 'user-alice', rate: 400, effective_from: '2026-03-01' },
+    { department: 'Design', rate: 50, currency: 'USD' },
+  ],
+})));
+
+const alice = { id: 'user-alice', name: 'alice', display_name: 'Alice Zhang', department: 'Engineering', job: 'Developer' };
+const bob = { id: 'user-bob', name: 'bob', display_name: 'Bob Li', department: 'Engineering', job: 'PM' };
+const carol = { id: 'user-carol', name: 'carol', display_name: 'Carol Wang', department: 'Design', job: 'Designer' };
+const dave = { id: 'user-dave', name: 'dave', display_name: 'Dave Chen', department: 'Sales' };
+
+describe('RateCard', () => {
+  it('prefers user over job over department rates', () => {
+    expect(card.findRate(alice, '2026-03-02')).toEqual({ rate: 400, currency: 'CNY', source: 'user' });
+    expect(card.findRate(alice, '2026-01-15')).toEqual({ rate: 250, currency: 'CNY', source: 'job' });
+    expect(card.findRate(bob, '2026-01-15')).toEqual({ rate: 200, currency: 'CNY', source: 'department' });
+  });
+
+  it('applies effective date ranges inclusively', () => {
+    expect(card.findRate(alice, '2026-01-31')?.rate).toBe(250);
+    expect(card.findRate(alice, '2026-02-01')?.rate).toBe(280);
+  });
+
+  it('uses the entry currency over the card default', () => {
+    expect(card.findRate(carol, '2026-01-15')).toEqual({ rate: 50, currency: 'USD', source: 'department' });
+  });
+
+  it('returns null when no rate applies', () => {
+    expect(card.findRate(dave, '2026-01-15')).toBeNull();
+  });
+
+  it('rejects entries that target more than one dimension or have inverted dates', () => {
+    expect(() => parseRateCardJson(JSON.stringify({ rates: [{ user: 'a', job: 'b', rate: 1 }] }))).toThrow();
+    expect(() => parseRateCardJson(JSON.stringify({
+      rates: [{ user: 'a', rate: 1, effective_from: '2026-02-01', effective_to: '2026-01-01' }],
+    }))).toThrow();
+  });
+});
+
+describe('computeLaborCost', () => {
+  const project = { id: 'proj-1', identifier: 'PROJ', name: 'Main Project' };
+
+  function detail(id: string, user: typeof alice, date: string, hours: number): TeamWorkloadDetail {
+    return { date, workload_id: id, hours, user, work_item: null, project, review_state: null };
+  }
+
+  it('aggregates cost by member, project and month and lists unrated entries', () => {
+    const cost = computeLaborCost([
+      detail('wl-1', alice, '2026-01-30', 2),
+      detail('wl-2', alice, '2026-02-02', 1.5),
+      detail('wl-3', carol, '2026-02-03', 4),
+      detail('wl-4', dave, '2026-02-04', 3),
+    ], card);
+
+    expect(cost.total).toEqual({ hours: 10.5, unrated_hours: 3, cost: { CNY: 920, USD: 200 } });
+    expect(cost.by_month.map(m => [m.month, m.cost])).toEqual([
+      ['2026-01', { CNY: 500 }],
+      ['2026-02', { CNY: 420, USD: 200 }],
+    ]);
+    const aliceCost = cost.by_member.find(m => m.user.id === 'user-alice');
+    expect(aliceCost?.rates.map(r => r.rate)).toEqual([250, 280]);
+    expect(cost.by_project[0]).toMatchObject({ hours: 10.5, unrated_hours: 3 });
+    expect(cost.unrated_entries.map(e => e.workload_id)).toEqual(['wl-4']);
+  });
+});
@@ -8,6 +8,22 @@ import { TeamWorkSummaryInputSchema, teamWorkSummaryToolDefinition } from '../..
 import { ListUsersInputSchema, listUsersToolDefinition } from '../../src/tools/listUsers.js';
 import { ListWorkloadsInputSchema, listWorkloadsToolDefinition } from '../../src/tools/listWorkloads.js';
 import { GetWorkItemInputSchema, getWorkItemToolDefinition } from '../../src/tools/getWorkItem.js';
+import { ProjectWorkSummaryInputSchema, projectWorkSummaryToolDefinition } from '../../src/tools/projectWorkSummary.js';
+import { WorkItemWorkSummaryInputSchema, workItemWorkSummaryToolDefinition } from '../../src/tools/workItemWorkSummary.js';
+import { CompareWorkPeriodsInputSchema, compareWorkPeriodsToolDefinition } from '../../src/tools/compareWorkPeriods.js';
+import { TimesheetComplianceInputSchema, timesheetComplianceToolDefinition } from '../../src/tools/timesheetCompliance.js';
+import { ListProjectsInputSchema, listProjectsToolDefinition } from '../../src/tools/listProjects.js';
+import { SearchWorkItemsInputSchema, searchWorkItemsToolDefinition } from '../../src/tools/searchWorkItems.js';
+import { EstimateVsActualInputSchema, estimateVsActualToolDefinition } from '../../src/tools/estimateVsActual.js';
+import { DetectWorkloadAnomaliesInputSchema, detectWorkloadAnomaliesToolDefinition } from '../../src/tools/detectWorkloadAnomalies.js';
+import { ExportWorkloadsInputSchema, exportWorkloadsToolDefinition } from '../../src/tools/exportWorkloads.js';
+import { ExportTeamWorkbookInputSchema, exportTeamWorkbookToolDefinition } from '../../src/tools/exportTeamWorkbook.js';
+import { GenerateWeeklyReportInputSchema, generateWeeklyReportToolDefinition } from '../../src/tools/generateWeeklyReport.js';
+import { CreateWorkloadInputSchema, createWorkloadToolDefinition } from '../../src/tools/createWorkload.js';
+import { UpdateWorkloadInputSchema, updateWorkloadToolDefinition } from '../../src/tools/updateWorkload.js';
+import { DeleteWorkloadInputSchema, deleteWorkloadToolDefinition } from '../../src/tools/deleteWorkload.js';
+import { CostSummaryInputSchema, costSummaryToolDefinition } from '../../src/tools/costSummary.js';
+import { CapacityUtilizationInputSchema, capacityUtilizationToolDefinition } from '../../src/tools/capacityUtilization.js';
 
 function getJsonSchemaProperties(zodSchema: unknown): Record<string, unknown> {
   const jsonSchema = zodToJsonSchema(zodSchema as Parameters<typeof zodToJsonSchema>[0], {
@@ -23,6 +39,22 @@ const tools = [
   { name: 'list_users', schema: ListUsersInputSchema, definition: listUsersToolDefinition },
   { name: 'list_workloads', schema: ListWorkloadsInputSchema, definition: listWorkloadsToolDefinition },
   { name: 'get_work_item', schema: GetWorkItemInputSchema, definition: getWorkItemToolDefinition },
+  { name: 'project_work_summary', schema: ProjectWorkSummaryInputSchema, definition: projectWorkSummaryToolDefinition },
+  { name: 'work_item_work_summary', schema: WorkItemWorkSummaryInputSchema, definition: workItemWorkSummaryToolDefinition },
+  { name: 'compare_work_periods', schema: CompareWorkPeriodsInputSchema, definition: compareWorkPeriodsToolDefinition },
+  { name: 'timesheet_compliance', schema: TimesheetComplianceInputSchema, definition: timesheetComplianceToolDefinition },
+  { name: 'list_projects', schema: ListProjectsInputSchema, definition: listProjectsToolDefinition },
+  { name: 'search_work_items', schema: SearchWorkItemsInputSchema, definition: searchWorkItemsToolDefinition },
+  { name: 'estimate_vs_actual', schema: EstimateVsActualInputSchema, definition: estimateVsActualToolDefinition },
+  { name: 'detect_workload_anomalies', schema: DetectWorkloadAnomaliesInputSchema, definition: detectWorkloadAnomaliesToolDefinition },
+  { name: 'export_workloads', schema: ExportWorkloadsInputSchema, definition: exportWorkloadsToolDefinition },
+  { name: 'export_team_workbook', schema: ExportTeamWorkbookInputSchema, definition: exportTeamWorkbookToolDefinition },
+  { name: 'generate_weekly_report', schema: GenerateWeeklyReportInputSchema, definition: generateWeeklyReportToolDefinition },
+  { name: 'create_workload', schema: CreateWorkloadInputSchema, definition: createWorkloadToolDefinition },
+  { name: 'update_workload', schema: UpdateWorkloadInputSchema, definition: updateWorkloadToolDefinition },
+  { name: 'delete_workload', schema: DeleteWorkloadInputSchema, definition: deleteWorkloadToolDefinition },
+  { name: 'cost_summary', schema: CostSummaryInputSchema, definition: costSummaryToolDefinition },
+  { name: 'capacity_utilization', schema: CapacityUtilizationInputSchema, definition: capacityUtilizationToolDefinition },
 ];
 
 describe('Schema Consistency', () => {
@@ -77,7 +109,7 @@ describe('Schema Consistency', () => {
 
   it('no tool files contain hand-written inputSchema objects', () => {
     const toolDir = path.resolve(import.meta.dirname, '../../src/tools');
-    const toolFiles = ['userWorkSummary.ts', 'teamWorkSummary.ts', 'listUsers.ts', 'listWorkloads.ts', 'getWorkItem.ts'];
+    const toolFiles = ['userWorkSummary.ts', 'teamWorkSummary.ts', 'listUsers.ts', 'listWorkloads.ts', 'getWorkItem.ts', 'projectWorkSummary.ts', 'workItemWorkSummary.ts', 'compareWorkPeriods.ts', 'timesheetCompliance.ts', 'listProjects.ts', 'searchWorkItems.ts', 'estimateVsActual.ts', 'detectWorkloadAnomalies.ts', 'exportWorkloads.ts', 'exportTeamWorkbook.ts', 'generateWeeklyReport.ts', 'createWorkload.ts', 'updateWorkload.ts', 'deleteWorkload.ts', 'costSummary.ts', 'capacityUtilization.ts'];
 
     for (const file of toolFiles) {
       const content = fs.readFileSync(path.join(toolDir, file), 'utf-8');
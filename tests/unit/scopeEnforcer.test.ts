@@ -4,7 +4,7 @@
  * Pure unit tests for enforceUserScope() logic.
  */
 import { describe, it, expect } from 'vitest';
-import { enforceUserScope } from '../../src/auth/scopeEnforcer.js';
+import { enforceUserScope, enforceResourceScope } from '../../src/auth/scopeEnforcer.js';
 import { ENTERPRISE_CONTEXT, type UserContext } from '../../src/auth/userContext.js';
 
 const userCtx: UserContext = { userId: 'user-123', tokenMode: 'user' };
@@ -44,6 +44,61 @@ describe('enforceUserScope', () => {
       expect(rewritten.user_ids).toEqual(['user-123']);
     });
 
+    it('generate_weekly_report: forces user_ids to [ctx.userId]', () => {
+      const result = enforceUserScope('generate_weekly_report', { department: 'Engineering' }, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user_ids).toEqual(['user-123']);
+    });
+
+    it('timesheet_compliance: forces user_ids to [ctx.userId]', () => {
+      const args = { time_range: { start: '2026-01-01', end: '2026-01-31' } };
+      const result = enforceUserScope('timesheet_compliance', args, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user_ids).toEqual(['user-123']);
+    });
+
+    it('detect_workload_anomalies: forces user_ids to [ctx.userId]', () => {
+      const args = { time_range: { start: '2026-01-01', end: '2026-01-31' }, user_ids: ['other'] };
+      const result = enforceUserScope('detect_workload_anomalies', args, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user_ids).toEqual(['user-123']);
+    });
+
+    it('export_workloads: forces user_ids to [ctx.userId]', () => {
+      const args = { time_range: { start: '2026-01-01', end: '2026-01-31' }, department: 'Engineering' };
+      const result = enforceUserScope('export_workloads', args, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user_ids).toEqual(['user-123']);
+    });
+
+    it('export_team_workbook: forces user_ids to [ctx.userId]', () => {
+      const args = { time_range: { start: '2026-01-01', end: '2026-01-31' }, user_ids: ['a', 'b'] };
+      const result = enforceUserScope('export_team_workbook', args, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user_ids).toEqual(['user-123']);
+    });
+
+    it('compare_work_periods: forces a personal comparison for ctx.userId', () => {
+      const args = {
+        user_ids: ['a', 'b'],
+        project_id: 'proj-1',
+        current: { start: '2026-01-01', end: '2026-01-31' },
+        previous: { start: '2025-12-01', end: '2025-12-31' },
+      };
+      const result = enforceUserScope('compare_work_periods', args, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user).toEqual({ id: 'user-123' });
+      expect(rewritten.user_ids).toBeUndefined();
+      expect(rewritten.project_id).toBeUndefined();
+      expect(rewritten.current).toEqual(args.current);
+    });
+
     it('list_workloads: forces report_by_id to ctx.userId', () => {
       const args = { time_range: { start: '2026-01-01', end: '2026-01-31' } };
       const result = enforceUserScope('list_workloads', args, userCtx);
@@ -52,6 +107,26 @@ describe('enforceUserScope', () => {
       expect(rewritten.report_by_id).toBe('user-123');
     });
 
+    it('create_workload: forces user to ctx.userId', () => {
+      const args = { user: { name: 'Bob Li' }, work_item: 'PROJ-101', hours: 2 };
+      const result = enforceUserScope('create_workload', args, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user).toEqual({ id: 'user-123' });
+      expect(rewritten.work_item).toBe('PROJ-101');
+    });
+
+    it('update_workload / delete_workload: restricted to own entries', () => {
+      for (const tool of ['update_workload', 'delete_workload']) {
+        const args = { workload_id: 'wl-001', _restrict_to_user_id: 'someone-else' };
+        const result = enforceUserScope(tool, args, userCtx);
+        expect(result.allowed).toBe(true);
+        const rewritten = result.args as Record<string, unknown>;
+        expect(rewritten._restrict_to_user_id).toBe('user-123');
+        expect(rewritten.workload_id).toBe('wl-001');
+      }
+    });
+
     it('list_users: restricted to own user record', () => {
       const args = {};
       const result = enforceUserScope('list_users', args, userCtx);
@@ -67,6 +142,26 @@ describe('enforceUserScope', () => {
       expect(result.error).toContain('not available in user token mode');
     });
 
+    it('search_work_items: denied in user mode', () => {
+      const result = enforceUserScope('search_work_items', { project: 'PROJ' }, userCtx);
+      expect(result.allowed).toBe(false);
+      expect(result.error).toContain('not available in user token mode');
+    });
+
+    it('capacity_utilization: forces user_ids to [ctx.userId]', () => {
+      const args = { time_range: { start: '2026-01-01', end: '2026-01-31' }, user_ids: ['other'] };
+      const result = enforceUserScope('capacity_utilization', args, userCtx);
+      expect(result.allowed).toBe(true);
+      const rewritten = result.args as Record<string, unknown>;
+      expect(rewritten.user_ids).toEqual(['user-123']);
+    });
+
+    it('cost_summary: denied in user mode', () => {
+      const result = enforceUserScope('cost_summary', { user_ids: ['user-123'] }, userCtx);
+      expect(result.allowed).toBe(false);
+      expect(result.error).toContain('not available in user token mode');
+    });
+
     it('unknown tool: denied by default', () => {
       const result = enforceUserScope('unknown_custom_tool', {}, userCtx);
       expect(result.allowed).toBe(false);
@@ -74,3 +169,45 @@ describe('enforceUserScope', () => {
     });
   });
 });
+
+describe('enforceResourceScope', () => {
+  it('enterprise mode: passes params through', () => {
+    const result = enforceResourceScope('work_item', { id: 'PROJ-101' }, ENTERPRISE_CONTEXT);
+    expect(result.allowed).toBe(true);
+    expect(result.args).toEqual({ id: 'PROJ-101' });
+  });
+
+  it('users / team_report: restricted to own user in user mode', () => {
+    for (const name of ['users', 'team_report']) {
+      const result = enforceResourceScope(name, { range: 'last_week' }, userCtx);
+      expect(result.allowed).toBe(true);
+      expect((result.args as Record<string, unknown>)._restrict_to_user_id).toBe('user-123');
+    }
+  });
+
+  it('user: only own record is readable in user mode', () => {
+    expect(enforceResourceScope('user', { id: 'user-123' }, userCtx).allowed).toBe(true);
+    expect(enforceResourceScope('user', { id: 'other' }, userCtx).allowed).toBe(false);
+  });
+
+  it('project / work item resources: denied in user mode', () => {
+    expect(enforceResourceScope('projects', {}, userCtx).allowed).toBe(false);
+    expect(enforceResourceScope('work_item', { id: 'PROJ-101' }, userCtx).allowed).toBe(false);
+  });
+});
+
+describe('resource listing', () => {
+  it('user mode: lists only resources and templates that can be read', async () => {
+    const { listResources, listResourceTemplates } = await import('../../src/server/resources.js');
+    expect(listResources(userCtx).map(r => r.uri)).toEqual(['pingcode://users']);
+    expect(listResourceTemplates(userCtx).map(t => t.uriTemplate)).toEqual([
+      'pingcode://users/{id}',
+      'pingcode://reports/team/{range}',
+    ]);
+  });
+
+  it('enterprise mode: lists every template', async () => {
+    const { listResourceTemplates } = await import('../../src/server/resources.js');
+    expect(listResourceTemplates(ENTERPRISE_CONTEXT)).toHaveLength(4);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeAll } from 'vitest';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
-import { createMcpServer, isBusinessError } from '../../src/server/mcp.js';
+import { createMcpServer, isBusinessError, splitExportResource } from '../../src/server/mcp.js';
 
 // Mock the API client
 vi.mock('../../src/api/client.js', () => {
@@ -144,3 +144,32 @@ describe('isBusinessError', () => {
     expect(isBusinessError({ summary: {}, details: [] })).toBe(false);
   });
 });
+
+describe('splitExportResource', () => {
+  const exportFile = {
+    filename: 'workloads_2026-01-01_2026-01-31.csv',
+    mime_type: 'text/csv; charset=utf-8',
+    row_count: 1,
+    content: '\uFEFFdate,hours\r\n2026-01-05,8\r\n',
+  };
+
+  it('moves export content into an embedded resource', () => {
+    const { result, resource } = splitExportResource({ total: 1, export: exportFile }, 'req-1');
+    const uri = 'pingcode-export://req-1/workloads_2026-01-01_2026-01-31.csv';
+    expect(resource).toEqual({
+      type: 'resource',
+      resource: { uri, mimeType: 'text/csv; charset=utf-8', text: exportFile.content },
+    });
+    expect(result).toEqual({
+      total: 1,
+      export: { filename: exportFile.filename, mime_type: exportFile.mime_type, row_count: 1, uri },
+    });
+  });
+
+  it('passes through results without an export file', () => {
+    const input = { summary: {}, export: { filename: 'x.csv' } };
+    const { result, resource } = splitExportResource(input, 'req-1');
+    expect(result).toBe(input);
+    expect(resource).toBeUndefined();
+  });
+});
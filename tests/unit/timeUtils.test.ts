@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { parseTimeRange, splitTimeRange, isTimeRangeExceedsThreeMonths } from '../../src/utils/timeUtils.js';
+import {
+  parseTimeRange,
+  splitTimeRange,
+  isTimeRangeExceedsThreeMonths,
+  listDatesInRange,
+  getIsoWeekday,
+  getIsoWeekKey,
+  getTodayDate,
+  parseDateInput,
+  dateToTimestamp,
+} from '../../src/utils/timeUtils.js';
 
 describe('parseTimeRange', () => {
   it('parses date strings (yyyy-MM-dd)', () => {
@@ -101,3 +111,69 @@ describe('isTimeRangeExceedsThreeMonths', () => {
     expect(isTimeRangeExceedsThreeMonths(0, THREE_MONTHS_SECONDS + 1)).toBe(true);
   });
 });
+
+describe('listDatesInRange', () => {
+  it('lists every date in the range in configured timezone', () => {
+    // 2026-01-30 00:00 ~ 2026-02-03 00:00 (Asia/Shanghai)
+    expect(listDatesInRange(1769702400, 1770048000)).toEqual([
+      '2026-01-30', '2026-01-31', '2026-02-01', '2026-02-02',
+    ]);
+  });
+
+  it('returns empty array for an empty range', () => {
+    expect(listDatesInRange(100, 100)).toEqual([]);
+  });
+});
+
+describe('getIsoWeekday', () => {
+  it('maps Monday to 1 and Sunday to 7', () => {
+    expect(getIsoWeekday('2026-01-05')).toBe(1);
+    expect(getIsoWeekday('2026-01-04')).toBe(7);
+    expect(getIsoWeekday('2026-01-10')).toBe(6);
+  });
+});
+
+describe('getIsoWeekKey', () => {
+  it('returns the ISO week of a date', () => {
+    expect(getIsoWeekKey('2026-01-05')).toBe('2026-W02');
+    expect(getIsoWeekKey('2026-01-11')).toBe('2026-W02');
+    expect(getIsoWeekKey('2026-01-12')).toBe('2026-W03');
+  });
+
+  it('uses the ISO year at year boundaries', () => {
+    expect(getIsoWeekKey('2025-12-29')).toBe('2026-W01');
+    expect(getIsoWeekKey('2021-01-03')).toBe('2020-W53');
+  });
+});
+
+describe('parseDateInput', () => {
+  it('normalizes supported date formats', () => {
+    expect(parseDateInput('2026-01-05')).toBe('2026-01-05');
+    expect(parseDateInput('2026/01/05')).toBe('2026-01-05');
+    expect(parseDateInput('20260105')).toBe('2026-01-05');
+  });
+
+  it('resolves today / yesterday aliases in configured timezone', () => {
+    const today = getTodayDate();
+    expect(parseDateInput('today')).toBe(today);
+    expect(parseDateInput('今天')).toBe(today);
+    expect(listDatesInRange(dateToTimestamp(parseDateInput('yesterday')), dateToTimestamp(today))).toHaveLength(1);
+  });
+
+  it('rejects invalid dates', () => {
+    expect(() => parseDateInput('2026-02-30')).toThrow('Invalid date');
+    expect(() => parseDateInput('last_week')).toThrow('Invalid date');
+  });
+
+  it('rejects out-of-range months and days', () => {
+    expect(() => parseDateInput('2026-13-01')).toThrow('Invalid date: 2026-13-01');
+    expect(() => parseDateInput('20260132')).toThrow('Invalid date: 20260132');
+  });
+});
+
+describe('dateToTimestamp', () => {
+  it('returns midnight in configured timezone', () => {
+    // 2026-01-05 00:00 Asia/Shanghai = 2026-01-04 16:00 UTC
+    expect(dateToTimestamp('2026-01-05')).toBe(1767542400);
+  });
+});
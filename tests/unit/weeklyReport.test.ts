@@ -0,0 +1,99 @@
+/**
+ * Unit: Markdown weekly report rendering (pure function)
+ *
+ * Tests renderWeeklyReport() against a hand-built TeamWorkResult: section
+ * layout, table cell escaping, work item notes taken from workload
+ * descriptions, zero-hour members and data quality caveats.
+ */
+import { describe, it, expect } from 'vitest';
+import { renderWeeklyReport, escapeMarkdownCell } from '../../src/services/reportService.js';
+import type { TeamWorkResult } from '../../src/services/workloadService.js';
+
+// 2026-01-05 00:00 ~ 2026-01-12 00:00 Asia/Shanghai
+const START = 1767542400;
+const END = START + 7 * 86400;
+
+const alice = { id: 'u1', name: 'alice', display_name: 'Alice', department: 'Engineering' };
+const carol = { id: 'u3', name: 'carol', display_name: 'Carol', department: 'Design' };
+const project = { id: 'p1', identifier: 'PROJ', name: 'Main | Project' };
+const workItem = { id: 'wi-1', identifier: 'PROJ-1', title: 'Login page', project };
+
+const noReview = { approved: 0, pending: 0, rejected: 0, none: 0 };
+
+function makeResult(
+  overrides: Partial<TeamWorkResult['data_quality']> = {},
+  byReviewState = { ...noReview, none: 8 },
+): TeamWorkResult {
+  return {
+    summary: {
+      time_range: { start_at: START, end_at: END },
+      total_hours: 8,
+      user_count: 2,
+      by_review_state: byReviewState,
+      members: [
+        { user: alice, total_hours: 8, by_review_state: byReviewState, top_projects: [{ project, hours: 8 }], top_work_items: [{ work_item: workItem, hours: 8 }] },
+        { user: carol, total_hours: 0, by_review_state: noReview, top_projects: [], top_work_items: [] },
+      ],
+      by_project: [{ project, hours: 8 }],
+      by_work_item: [{ work_item: workItem, hours: 8 }],
+    },
+    details: [
+      { date: '2026-01-05', workload_id: 'w1', hours: 5, user: alice, work_item: workItem, project, description: 'Build form\nand validation', review_state: null },
+      { date: '2026-01-06', workload_id: 'w2', hours: 3, user: alice, work_item: workItem, project, description: 'Build form\nand validation', review_state: null },
+    ],
+    data_quality: {
+      workloads_count: 2,
+      missing_work_item_count: 0,
+      unknown_user_matches: 0,
+      time_sliced: false,
+      pagination_truncated: false,
+      details_truncated: false,
+      ...overrides,
+    },
+  };
+}
+
+describe('escapeMarkdownCell', () => {
+  it('escapes pipes and collapses line breaks', () => {
+    expect(escapeMarkdownCell('a | b\r\n  c')).toBe('a \\| b c');
+    expect(escapeMarkdownCell(undefined)).toBe('');
+  });
+});
+
+describe('renderWeeklyReport', () => {
+  it('renders overview, member, project and work item sections', () => {
+    const markdown = renderWeeklyReport(makeResult(), { topN: 5, scope: { department: 'Engineering' } });
+
+    expect(markdown.startsWith('# 团队工时周报（2026-01-05 ~ 2026-01-12）\n\n> 部门：Engineering\n')).toBe(true);
+    expect(markdown).toContain('- 成员数：2（有工时 1，零工时 1）');
+    expect(markdown).toContain('- 人均工时：4 小时');
+    expect(markdown).toContain('| Alice | Engineering | 8 | 100% | Main \\| Project 8h |');
+    expect(markdown).toContain('| Main \\| Project (PROJ) | 8 | 100% |');
+    // duplicate descriptions are listed once
+    expect(markdown).toContain('| PROJ-1 | Login page | 8 | Alice | Build form and validation |');
+    expect(markdown).toContain('## 零工时成员\n\n- Carol（Design）');
+    expect(markdown).not.toContain('## 数据说明');
+    // no review states → no approval line
+    expect(markdown).not.toContain('- 审批：');
+  });
+
+  it('summarizes approval state when reviews are enabled', () => {
+    const markdown = renderWeeklyReport(makeResult({}, { ...noReview, approved: 5, pending: 3 }), { topN: 5 });
+    expect(markdown).toContain('- 审批：已通过 5 小时，待审批 3 小时，已驳回 0 小时');
+  });
+
+  it('is deterministic for the same input', () => {
+    expect(renderWeeklyReport(makeResult(), { topN: 5 })).toBe(renderWeeklyReport(makeResult(), { topN: 5 }));
+  });
+
+  it('lists data quality caveats', () => {
+    const markdown = renderWeeklyReport(
+      makeResult({ pagination_truncated: true, truncation_reasons: ['fetch_error'], details_truncated: true }),
+      { topN: 5 },
+    );
+
+    expect(markdown).toContain('## 数据说明');
+    expect(markdown).toContain('部分数据获取失败');
+    expect(markdown).toContain('工时明细超过上限');
+  });
+});
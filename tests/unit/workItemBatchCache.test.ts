@@ -7,6 +7,8 @@
  * - Partial hit → API calls only for misses
  * - missingCount tracks 404/failed fetches
  * - Concurrency batching respects the limit
+ *
+ * Also covers getWorkItemByIdentifier()'s identifier→id cache map.
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
@@ -27,6 +29,7 @@ vi.mock('../../src/cache/index.js', () => ({
   },
   CacheKeys: {
     workItem: (id: string) => `work_items:${id}`,
+    workItemIdentifier: (identifier: string) => `work_items:identifier:${identifier.toUpperCase()}`,
   },
 }));
 
@@ -52,7 +55,7 @@ vi.mock('../../src/utils/logger.js', () => ({
   logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
 }));
 
-import { getWorkItemsBatch } from '../../src/api/endpoints/workItems.js';
+import { getWorkItemsBatch, getWorkItemByIdentifier } from '../../src/api/endpoints/workItems.js';
 import { PingCodeApiError } from '../../src/api/client.js';
 
 function makeWorkItem(id: string) {
@@ -210,3 +213,48 @@ describe('getWorkItemsBatch', () => {
     expect(entries[1].key).toBe('work_items:wi-2');
   });
 });
+
+describe('getWorkItemByIdentifier', () => {
+  beforeEach(() => {
+    mockGet.mockReset();
+    mockSet.mockReset();
+    mockRequest.mockReset();
+  });
+
+  it('searches by identifier and caches both the item and the identifier→id map', async () => {
+    mockGet.mockResolvedValue(null);
+    mockRequest.mockResolvedValue({ values: [makeWorkItem('wi-1')], total: 1 });
+
+    const item = await getWorkItemByIdentifier('proj-wi-1');
+
+    expect(item?.id).toBe('wi-1');
+    expect(mockRequest).toHaveBeenCalledWith(
+      '/v1/project/work_items',
+      expect.objectContaining({ params: expect.objectContaining({ identifier: 'proj-wi-1' }) })
+    );
+    expect(mockSet).toHaveBeenCalledWith('work_items:wi-1', item, 21600);
+    expect(mockSet).toHaveBeenCalledWith('work_items:identifier:PROJ-WI-1', 'wi-1', 21600);
+  });
+
+  it('skips the search when the identifier→id map is cached', async () => {
+    const cachedItem = makeWorkItem('wi-2');
+    mockGet.mockImplementation(async (key: string) => {
+      if (key === 'work_items:identifier:PROJ-WI-2') return 'wi-2';
+      if (key === 'work_items:wi-2') return cachedItem;
+      return null;
+    });
+
+    const item = await getWorkItemByIdentifier('PROJ-wi-2');
+
+    expect(item).toBe(cachedItem);
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+
+  it('returns null without caching when no item matches', async () => {
+    mockGet.mockResolvedValue(null);
+    mockRequest.mockResolvedValue({ values: [], total: 0 });
+
+    expect(await getWorkItemByIdentifier('PROJ-999')).toBeNull();
+    expect(mockSet).not.toHaveBeenCalled();
+  });
+});
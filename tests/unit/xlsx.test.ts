@@ -0,0 +1,89 @@
+/**
+ * Tests for src/utils/xlsx.ts and src/utils/zip.ts
+ *
+ * Unpacks the generated workbook with zlib to verify the ZIP container,
+ * the SpreadsheetML parts and cell encoding (numbers, booleans, inline strings).
+ */
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'node:zlib';
+import { crc32 } from '../../src/utils/zip.js';
+import { buildXlsx, buildXlsxExportFile, columnName } from '../../src/utils/xlsx.js';
+
+/** 按本地文件头顺序读取 ZIP 条目 */
+function unzip(buffer: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034B50) {
+    const crc = buffer.readUInt32LE(offset + 14);
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const data = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+    files.set(name, data.toString('utf8'));
+    offset = dataStart + compressedSize;
+  }
+  return files;
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xCBF43926);
+  });
+});
+
+describe('columnName', () => {
+  it('converts zero-based indexes to spreadsheet column letters', () => {
+    expect(columnName(0)).toBe('A');
+    expect(columnName(25)).toBe('Z');
+    expect(columnName(26)).toBe('AA');
+    expect(columnName(701)).toBe('ZZ');
+    expect(columnName(702)).toBe('AAA');
+  });
+});
+
+describe('buildXlsx', () => {
+  const sheets = [
+    { name: 'Summary', table: { header: ['field', 'value'], rows: [['total_hours', 10.5], ['truncated', false]] } },
+    { name: 'Members: all', table: { header: ['name'], rows: [['张三 & <李四>'], [null]] } },
+  ];
+
+  it('writes the workbook parts with one worksheet per sheet', () => {
+    const files = unzip(buildXlsx(sheets));
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+    expect(files.get('[Content_Types].xml')).toContain('/xl/worksheets/sheet2.xml');
+    // ':' is not allowed in sheet names
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Members_ all" sheetId="2" r:id="rId2"/>');
+  });
+
+  it('encodes numbers, booleans and escaped inline strings', () => {
+    const files = unzip(buildXlsx(sheets));
+    const summary = files.get('xl/worksheets/sheet1.xml')!;
+    expect(summary).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">field</t></is></c>');
+    expect(summary).toContain('<c r="B2"><v>10.5</v></c>');
+    expect(summary).toContain('<c r="B3" t="b"><v>0</v></c>');
+
+    const members = files.get('xl/worksheets/sheet2.xml')!;
+    expect(members).toContain('张三 &amp; &lt;李四&gt;');
+    expect(members).toContain('<row r="3"></row>');
+  });
+
+  it('returns a base64 export file', () => {
+    const file = buildXlsxExportFile('team', sheets);
+    expect(file.filename).toBe('team.xlsx');
+    expect(file.mime_type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(file.encoding).toBe('base64');
+    expect(file.row_count).toBe(4);
+    expect(Buffer.from(file.content, 'base64').readUInt32LE(0)).toBe(0x04034B50);
+  });
+});